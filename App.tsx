@@ -1,42 +1,136 @@
 
-import React, { useRef, useCallback, useState, useEffect } from 'react';
+import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import ChatPanel, { ChatPanelRef } from './components/ChatPanel';
 import GamePanel from './components/GamePanel';
 import AboutModal from './components/AboutModal';
-import { GameStatus } from './types';
-import { getNewGameData } from './services/geminiService';
+import SettingsModal from './components/SettingsModal';
+import StatsModal from './components/StatsModal';
+import MatchSetupModal from './components/MatchSetupModal';
+import Scoreboard from './components/Scoreboard';
+import OnlineRoomModal from './components/OnlineRoomModal';
+import OnlineRoom from './components/OnlineRoom';
+import ReverseMode from './components/ReverseMode';
+import StyleLibraryModal from './components/StyleLibraryModal';
+import { GameStatus, CategorySelection, ChatAnswerMode, ConceptPack, DailyChallenge, Difficulty, GameSettings, GenerationErrorKind, GuessMode, HintType, ImageReveal, MatchConfig, MatchMode, MatchState, PlayerProfile, PublicRound, RoundChatEvent, RoundChatEventKind, RoundHint, RoundOutcome, RoundVariant, ScoreBreakdown, SketchError, ImageStyle } from './types';
+import { getRoundBackend } from './services/roundService';
 import { playCorrectSound, playGameOverSound, playWrongGuessSound, initAudio, playDrawingReadySound } from './services/soundService';
-import { HelpCircle } from 'lucide-react';
+import { HelpCircle, Settings, BarChart2, Users, Globe, CalendarDays, ArrowLeftRight } from 'lucide-react';
 import StyleSelector from './components/StyleSelector';
+import CategorySelector from './components/CategorySelector';
+import { DEFAULT_CATEGORY, DEFAULT_SETTINGS, AUTO_HINT_TIMES, HINT_COSTS, DAILY_CHAT_CATEGORY, DAILY_ROUND_COUNT, ESCALATING_IMAGE_COUNT, MAX_SKETCH_REDRAWS } from './constants';
+import { resolveCategory } from './services/categoryService';
+import { createRoundId, getRecentConcepts, getRoundHistory, loadProfile, recordRound, saveProfile } from './services/historyService';
+import { loadJson, saveJson } from './services/storageService';
+import { describeBreakdown, getLevelCurve, scoreRound } from './services/scoringService';
+import { getDifficulty, resolveDifficulty } from './services/difficultyService';
+import { getDailyKey, getDailyPlan, isDailyFinished, loadDailyAttempt, saveDailyAttempt } from './services/dailyService';
+import { choosePackConcept, loadConceptPacks, saveConceptPacks } from './services/conceptPackService';
+import { findStyle, findStyleByPrompt, loadCustomStyles, pickRandomStyle, saveCustomStyles, STYLE_LIBRARY } from './services/styleService';
+import { composeGuess, fillLetter, sanitizeAnswer } from './services/hintService';
+import type { RoomJoinRequest } from './services/roomClient';
+import { classifyError, GenerationError } from './services/resilienceService';
+import { createRoundQueue, RoundQueueStatus } from './services/roundQueueService';
+import { awardRound, buzzIn, createMatch, findByBuzzKey, getAnsweringParticipant, getStandings, isEveryoneLockedOut, isMatchOver, lockOutBuzzed, missRound, participantNoun, startMatchRound } from './services/matchService';
 
-const ROUND_TIME = 30;
+const SETTINGS_KEY = 'settings';
+// Shared, so hooks that depend on the images don't run again on every render without a round.
+const NO_IMAGES: string[] = [];
 
 // Header component moved outside of App to prevent re-creation on every render.
 // This fixes the input focus loss bug in StyleSelector.
-const Header = ({ imageStyle, onStyleChange, gameStatus, onAboutClick }: {
-  imageStyle: string;
-  onStyleChange: (style: string) => void;
+const Header = ({ selectedStyle, isRotatingStyles, onStyleLibraryClick, onSurpriseStyle, categorySelection, onCategoryChange, gameStatus, onAboutClick, onSettingsClick, onStatsClick, onMatchClick, onOnlineClick, onDailyClick, onReverseClick }: {
+  selectedStyle: ImageStyle;
+  isRotatingStyles: boolean;
+  onStyleLibraryClick: () => void;
+  onSurpriseStyle: () => void;
+  categorySelection: CategorySelection;
+  onCategoryChange: (selection: CategorySelection) => void;
   gameStatus: GameStatus;
   onAboutClick: () => void;
+  onSettingsClick: () => void;
+  onStatsClick: () => void;
+  onMatchClick: () => void;
+  onOnlineClick: () => void;
+  onDailyClick: () => void;
+  onReverseClick: () => void;
 }) => (
   <>
     <div className="px-4 pt-4 pb-3 flex justify-between items-center">
       <div className="flex items-center gap-4">
         <h1 className="text-sm text-white uppercase tracking-widest">Image Pictionary</h1>
-        <StyleSelector 
-          selectedStyle={imageStyle}
-          onStyleChange={onStyleChange}
-          isDisabled={gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.LOADING}
-        />
+        <div className="flex flex-wrap items-center gap-2">
+          <CategorySelector
+            selection={categorySelection}
+            onSelectionChange={onCategoryChange}
+            isDisabled={gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.LOADING}
+          />
+          <StyleSelector
+            selectedStyle={selectedStyle}
+            isRotating={isRotatingStyles}
+            onOpenLibrary={onStyleLibraryClick}
+            onSurprise={onSurpriseStyle}
+            isDisabled={gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.LOADING}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onDailyClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Daily challenge"
+          title="Daily challenge"
+        >
+          <CalendarDays className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onReverseClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Reverse mode"
+          title="Reverse mode"
+        >
+          <ArrowLeftRight className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onOnlineClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Play online"
+          title="Play online"
+        >
+          <Globe className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onMatchClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Local match"
+          title="Local match"
+        >
+          <Users className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onStatsClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Stats"
+          title="Stats"
+        >
+          <BarChart2 className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onSettingsClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="Settings"
+          title="Settings"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onAboutClick}
+          className="text-neutral-400 hover:text-white transition-colors"
+          aria-label="About this app"
+          title="About this app"
+        >
+          <HelpCircle className="w-5 h-5" />
+        </button>
       </div>
-      <button
-        onClick={onAboutClick}
-        className="text-neutral-400 hover:text-white transition-colors"
-        aria-label="About this app"
-        title="About this app"
-      >
-        <HelpCircle className="w-5 h-5" />
-      </button>
     </div>
     <hr className="border-neutral-700 w-full" />
   </>
@@ -47,29 +141,112 @@ const App: React.FC = () => {
   const chatPanelRef = useRef<ChatPanelRef>(null);
   const appContainerRef = useRef<HTMLDivElement>(null);
   const [pastConcepts, setPastConcepts] = useState<string[]>([]);
+  // Answers from earlier sessions, restored from the round history so titles don't repeat.
+  const [historyConcepts, setHistoryConcepts] = useState<string[]>([]);
+  const excludedConcepts = useMemo(() => [...new Set([...historyConcepts, ...pastConcepts])], [historyConcepts, pastConcepts]);
 
   // Game state lifted from GamePanel and centralized here
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.IDLE);
-  const [imageUrl, setImageUrl] = useState<string>(''); // Changed from p5Code
-  const [imageStyle, setImageStyle] = useState('pixel art');
+  // The round on screen, kept until the next one is ready. Its answer stays with the round backend
+  // until the round ends.
+  const [round, setRound] = useState<PublicRound | null>(null);
+  const currentRoundId = round?.id ?? null;
+  // Sent with end-of-round events, so the backend adds the answer once the round is over.
+  const roundEnded = useMemo<RoundChatEvent | undefined>(() => currentRoundId ? { roundId: currentRoundId, kind: RoundChatEventKind.ENDED } : undefined, [currentRoundId]);
+  const hasYear = round?.hasYear ?? false;
+  // Every image for the round, from most abstract to most obvious, and how many of them are showing.
+  const imageUrls = round?.imageUrls ?? NO_IMAGES;
+  const [shownImageCount, setShownImageCount] = useState(1);
+  // Sketch rounds are drawn by code instead. The latest picture of the canvas goes into round history.
+  const sketchSnapshotRef = useRef<string | null>(null);
+  const sketchRedrawsRef = useRef(0);
+  // Reveal mode is fixed when the round starts, so changing the setting mid-round has no effect.
+  const [roundReveal, setRoundReveal] = useState<ImageReveal>(ImageReveal.OFF);
+  const [categorySelection, setCategorySelection] = useState<CategorySelection>({ id: DEFAULT_CATEGORY, customName: '' });
+  const category = useMemo(() => resolveCategory(categorySelection), [categorySelection]);
+  // The answer's shape with any revealed letters filled in, then the full answer once revealed.
   const [answer, setAnswer] = useState<string>('');
-  const [explanation, setExplanation] = useState<string>('');
+  const [revealedIndices, setRevealedIndices] = useState<number[]>([]);
+  const [hintsUsed, setHintsUsed] = useState<HintType[]>([]);
+  const [paidHints, setPaidHints] = useState<HintType[]>([]);
+  const [cluesRequested, setCluesRequested] = useState(0);
+  const [wrongGuesses, setWrongGuesses] = useState(0);
   const [guessValue, setGuessValue] = useState<string>('');
   const [isWrongGuess, setIsWrongGuess] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState(ROUND_TIME);
   const [error, setError] = useState<string | null>(null);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [isAboutModalOpen, setIsAboutModalOpen] = useState(false);
+  const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isStatsModalOpen, setIsStatsModalOpen] = useState(false);
+  const [isMatchSetupOpen, setIsMatchSetupOpen] = useState(false);
+  // Local multiplayer. While a match is running, points go to the participants instead of the solo score.
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [lastMatchConfig, setLastMatchConfig] = useState<MatchConfig | null>(null);
+  const answering = match ? getAnsweringParticipant(match) : null;
+  // Set while playing the daily challenge. Its rounds bring their own category, style and difficulty,
+  // and points go to the day's result instead of the solo score.
+  const [daily, setDaily] = useState<DailyChallenge | null>(null);
+  const dailyPlan = daily ? daily.plan[daily.index] : null;
+  const roundCategory = useMemo(() => dailyPlan ? resolveCategory({ id: dailyPlan.category, customName: '' }) : category, [dailyPlan, category]);
+  const dailyPoints = daily ? daily.results.reduce((sum, r) => sum + r.points, 0) : 0;
+  const [isOnlineModalOpen, setIsOnlineModalOpen] = useState(false);
+  // Set while in an online room, which replaces the solo game view.
+  const [roomRequest, setRoomRequest] = useState<RoomJoinRequest | null>(null);
+  // Set while in reverse mode, which also replaces the solo game view.
+  const [isReverseMode, setIsReverseMode] = useState(false);
+  const [settings, setSettings] = useState<GameSettings>(() => ({ ...DEFAULT_SETTINGS, ...loadJson<Partial<GameSettings>>(SETTINGS_KEY, {}) }));
+  const [profile, setProfile] = useState<PlayerProfile>(loadProfile);
+  const [packs, setPacks] = useState<ConceptPack[]>(loadConceptPacks);
+  const [customStyles, setCustomStyles] = useState<ImageStyle[]>(loadCustomStyles);
+  const styles = useMemo(() => [...STYLE_LIBRARY, ...customStyles], [customStyles]);
+  const selectedStyle = useMemo(() => findStyle(styles, settings.styleId), [styles, settings.styleId]);
+  const imageStyle = selectedStyle.prompt;
+  // The style the round on screen was made in, which with rotating styles isn't the selected one.
+  const roundStyle = round?.imageStyle ?? (dailyPlan ? dailyPlan.style : imageStyle);
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+  // The last style picked for a round while rotating, so the next round gets a different one.
+  const rotatedStyleIdRef = useRef<string | undefined>(undefined);
+  const enabledPacks = useMemo(() => packs.filter(p => settings.enabledPackIds.includes(p.id)), [packs, settings.enabledPackIds]);
+  // Pack answers already handed out this game, including ones whose rounds haven't been revealed yet.
+  const usedPackTitlesRef = useRef<string[]>([]);
   const [score, setScore] = useState(0);
   const [level, setLevel] = useState(1);
+  const [streak, setStreak] = useState(0);
+  const [lastBreakdown, setLastBreakdown] = useState<ScoreBreakdown | null>(null);
+  const levelCurve = useMemo(() => getLevelCurve(settings.levelCurve), [settings.levelCurve]);
+  // The difficulty and timer for the next round to be generated.
+  const nextRound = useMemo(() => resolveDifficulty(settings.difficulty, levelCurve, level), [settings.difficulty, levelCurve, level]);
+  // The difficulty and timer the current round was started with.
+  const [roundDifficulty, setRoundDifficulty] = useState<Difficulty>(nextRound.difficulty.id);
+  const [roundTime, setRoundTime] = useState(nextRound.roundTime);
+  const [timeLeft, setTimeLeft] = useState(nextRound.roundTime);
+  // In reveal mode the image clears at the same pace as the timer.
+  const obscurity = gameStatus === GameStatus.PLAYING && roundReveal !== ImageReveal.OFF ? Math.max(0, timeLeft) / roundTime : 0;
   
-  // State for pre-fetching next round
-  const [prefetchedGameData, setPrefetchedGameData] = useState<any | null>(null);
-  const nextGamePromiseRef = useRef<Promise<any> | null>(null);
+  // Rounds made ahead of time. Each style, category, difficulty and round variant has its own,
+  // so changing them doesn't throw away rounds that are already made.
+  const [roundQueue] = useState(createRoundQueue);
+  // Rotating styles share one queue, as each queued round has a style of its own.
+  const queueKey = useMemo(() => JSON.stringify([
+    settings.rotateStyles ? 'rotate' : selectedStyle.id, category.id, category.label, nextRound.difficulty.id, settings.roundVariant, settings.conceptSource, enabledPacks.map(p => p.id),
+  ]), [settings.rotateStyles, selectedStyle, category, nextRound.difficulty, settings.roundVariant, settings.conceptSource, enabledPacks]);
+  const [queueStatus, setQueueStatus] = useState<RoundQueueStatus>(() => roundQueue.getStatus(queueKey));
+  // Cancels the round being made for the player when they reset the game instead of waiting.
+  const roundAbortRef = useRef<AbortController | null>(null);
 
   // New ref to track game rounds and prevent race conditions
   const roundIdRef = useRef(0);
 
+  // The timer value at which the last automatic hint fired, so each one fires only once.
+  const autoHintTimeRef = useRef<number | null>(null);
+
+  // Guesses and hints go through the round backend, so keep one of each in flight at a time
+  // and drop results that arrive after the round has ended.
+  const isCheckingGuessRef = useRef(false);
+  const isFetchingHintRef = useRef(false);
+  const gameStatusRef = useRef(gameStatus);
+  gameStatusRef.current = gameStatus;
+
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const isMounted = useRef(true);
   const isInitialMount = useRef(true);
@@ -79,9 +256,35 @@ const App: React.FC = () => {
     return () => {
       isMounted.current = false;
       cleanupTimer();
+      roundAbortRef.current?.abort();
+      roundQueue.stop();
     };
   }, []);
 
+  useEffect(() => {
+    getRoundHistory()
+      .then(history => {
+        if (isMounted.current) setHistoryConcepts(getRecentConcepts(history));
+      })
+      .catch(e => console.error("Failed to load round history:", e));
+  }, []);
+
+  useEffect(() => {
+    saveJson(SETTINGS_KEY, settings);
+  }, [settings]);
+
+  useEffect(() => {
+    saveProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    saveConceptPacks(packs);
+  }, [packs]);
+
+  useEffect(() => {
+    saveCustomStyles(customStyles);
+  }, [customStyles]);
+
   useEffect(() => {
     const handleResize = () => {
       if (appContainerRef.current) {
@@ -102,18 +305,16 @@ const App: React.FC = () => {
 
     if (chatPanelRef.current) {
         // Send an invisible message to the AI with the current stats.
-        const contextForAI = `Game Context Update: The user's score is now ${score}, and they are on Level ${level}.`;
+        const lastRound = lastBreakdown ? ` Their last correct answer earned ${lastBreakdown.total} points (${describeBreakdown(lastBreakdown)}).` : '';
+        const contextForAI = `Game Context Update: The user's score is now ${score} points, they are on Level ${level}, and their current winning streak is ${streak}.${lastRound} Points come from a base award plus a bonus for time left, minus penalties for hints and wrong guesses, multiplied for streaks.`;
         chatPanelRef.current.sendSystemContext(contextForAI);
     }
   }, [score, level]); // Only depends on score and level changes
 
-  // This effect invalidates prefetched data if the style changes.
   useEffect(() => {
-    if (prefetchedGameData || nextGamePromiseRef.current) {
-      setPrefetchedGameData(null);
-      nextGamePromiseRef.current = null;
-    }
-  }, [imageStyle]);
+    setQueueStatus(roundQueue.getStatus(queueKey));
+    return roundQueue.subscribe(() => setQueueStatus(roundQueue.getStatus(queueKey)));
+  }, [roundQueue, queueKey]);
 
 
   const cleanupTimer = useCallback(() => {
@@ -123,26 +324,134 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleGameEvent = useCallback(async (event: { forUser?: string; forAI?: string }) => {
+  const handleGameEvent = useCallback(async (event: { forUser?: string; forAI?: string; roundEvent?: RoundChatEvent }) => {
     if (chatPanelRef.current) {
       await chatPanelRef.current.sendGameEvent(event);
     }
   }, []);
 
+  const recordFinishedRound = useCallback((outcome: RoundOutcome, concept: string, points?: number) => {
+    recordRound({
+      id: createRoundId(),
+      playedAt: Date.now(),
+      concept,
+      category: roundCategory.id,
+      style: roundStyle,
+      outcome,
+      timeTakenSeconds: roundTime - timeLeft,
+      hintsUsed,
+      imageUrl: imageUrls[imageUrls.length - 1] ?? sketchSnapshotRef.current ?? '',
+      difficulty: roundDifficulty,
+      points,
+    }).catch(e => console.error("Failed to record round:", e));
+  }, [roundCategory, roundStyle, roundTime, timeLeft, hintsUsed, imageUrls, roundDifficulty]);
+
+  // Tells the player which style the round was in when they didn't choose it themselves, i.e. with
+  // rotating styles or a round made earlier for another style. The daily announces its styles up front.
+  const announceRoundStyle = useCallback(async () => {
+    if (daily || (!settings.rotateStyles && roundStyle === imageStyle)) return;
+    const label = findStyleByPrompt(styles, roundStyle)?.label ?? roundStyle;
+    await handleGameEvent({ forUser: `🎨 This round was drawn in the ${label} style.` });
+  }, [daily, settings.rotateStyles, roundStyle, imageStyle, styles, handleGameEvent]);
+
+  const handleSurpriseStyle = useCallback(() => {
+    setSettings(prev => ({ ...prev, styleId: pickRandomStyle(styles, prev.styleId).id, rotateStyles: false }));
+  }, [styles]);
+
+  // Replaces the placeholder saved when the daily round started.
+  const finishDailyRound = useCallback((outcome: RoundOutcome, points: number) => {
+    if (!daily) return;
+    const results = [
+      ...daily.results.slice(0, daily.index),
+      { outcome, timeTakenSeconds: roundTime - timeLeft, hintsUsed: hintsUsed.length, points },
+    ];
+    saveDailyAttempt({ date: daily.date, results });
+    setDaily({ ...daily, results });
+  }, [daily, roundTime, timeLeft, hintsUsed]);
+
+  // Tells the backend a round nobody solved is over, which it has to hear before it reveals the answer.
+  const endRound = useCallback(async () => {
+    if (!currentRoundId) return;
+    try {
+      await getRoundBackend().endRound(currentRoundId);
+    } catch (e) {
+      console.error("Failed to end the round:", e);
+    }
+  }, [currentRoundId]);
+
+  // Fetches the answer once the round is over, to show it and keep it in the history.
+  const revealAnswer = useCallback(async (): Promise<string | null> => {
+    if (!currentRoundId) return null;
+    try {
+      const { concept } = await getRoundBackend().revealRound(currentRoundId);
+      if (isMounted.current) {
+        setAnswer(concept);
+        setPastConcepts(prev => [...prev, concept]);
+      }
+      return concept;
+    } catch (e) {
+      console.error("Failed to reveal the answer:", e);
+      return null;
+    }
+  }, [currentRoundId]);
+
   const handleCorrectGuess = useCallback(async () => {
     if (gameStatus !== GameStatus.PLAYING) return;
     setGameStatus(GameStatus.WON);
     playCorrectSound();
     cleanupTimer();
+    chatPanelRef.current?.cancelReplies();
+    const imageProgress = { imagesShown: shownImageCount, imageCount: imageUrls.length, obscurity };
+
+    if (match && answering) {
+      // In buzz-in mode earlier wrong guesses belong to players who are now locked out.
+      const breakdown = scoreRound({
+        timeLeft,
+        roundTime,
+        paidHints,
+        cluesRequested,
+        wrongGuesses: match.config.mode === MatchMode.BUZZ_IN ? 0 : wrongGuesses,
+        streak: answering.streak,
+        ...imageProgress,
+      });
+      setMatch(prev => prev && awardRound(prev, answering.id, breakdown.total));
+      revealAnswer();
+      await handleGameEvent({ forUser: `✅ ${answering.name} got it! +${breakdown.total} points (${describeBreakdown(breakdown)}).` });
+      await announceRoundStyle();
+      await handleGameEvent({
+        forAI: `Game Event: ${answering.name} guessed correctly and earned ${breakdown.total} points. Congratulate ${answering.name} by name.`,
+        roundEvent: roundEnded,
+      });
+      return;
+    }
+
+    if (daily) {
+      // Streaks don't carry into the daily, so everyone's points are comparable.
+      const breakdown = scoreRound({ timeLeft, roundTime, paidHints, cluesRequested, wrongGuesses, streak: 0, ...imageProgress });
+      finishDailyRound(RoundOutcome.WON, breakdown.total);
+      revealAnswer().then(concept => concept && recordFinishedRound(RoundOutcome.WON, concept, breakdown.total));
+      await handleGameEvent({ forUser: `✅ Correct. +${breakdown.total} points (${describeBreakdown(breakdown)}).` });
+      await handleGameEvent({
+        forAI: `Game Event: User guessed correctly and earned ${breakdown.total} points.`,
+        roundEvent: roundEnded,
+      });
+      return;
+    }
+
+    const breakdown = scoreRound({ timeLeft, roundTime, paidHints, cluesRequested, wrongGuesses, streak, ...imageProgress });
+    revealAnswer().then(concept => concept && recordFinishedRound(RoundOutcome.WON, concept, breakdown.total));
 
-    const newScore = score + 1;
+    const newScore = score + breakdown.total;
     setScore(newScore);
+    setStreak(prev => prev + 1);
+    setLastBreakdown(breakdown);
 
     const oldLevel = level;
-    const newLevel = Math.floor(newScore / 5) + 1;
+    const newLevel = levelCurve.levelForScore(newScore);
     
     // Display "Correct" message to user immediately
-    await handleGameEvent({ forUser: '✅ Correct.' });
+    await handleGameEvent({ forUser: `✅ Correct. +${breakdown.total} points (${describeBreakdown(breakdown)}).` });
+    await announceRoundStyle();
     
     let aiCongratulation = "";
     if (newLevel > oldLevel) {
@@ -152,30 +461,59 @@ const App: React.FC = () => {
         aiCongratulation = ` The user also just reached Level ${newLevel}! After explaining the image, congratulate them in a fun, celebratory way about this achievement.`;
     }
 
-    const eventForAI = `Game Event: User guessed correctly. The answer was "${answer}". Here's the explanation for the image: ${explanation}.${aiCongratulation}`;
+    const hintNote = hintsUsed.length > 0 ? ` They used ${hintsUsed.length} ${hintsUsed.length === 1 ? 'hint' : 'hints'}.` : '';
+    const eventForAI = `Game Event: User guessed correctly and earned ${breakdown.total} points (${describeBreakdown(breakdown)}).${hintNote}${aiCongratulation}`;
     // Trigger the AI's full response (explanation + potential congrats)
-    await handleGameEvent({ forAI: eventForAI });
+    await handleGameEvent({ forAI: eventForAI, roundEvent: roundEnded });
 
-  }, [answer, cleanupTimer, explanation, gameStatus, handleGameEvent, score, level]);
+  }, [roundEnded, cleanupTimer, gameStatus, handleGameEvent, announceRoundStyle, score, level, levelCurve, hintsUsed, recordFinishedRound, revealAnswer, timeLeft, roundTime, paidHints, cluesRequested, wrongGuesses, streak, shownImageCount, imageUrls, obscurity, match, answering, daily, finishDailyRound]);
+
+  // Ends the round without a winner, either because time ran out or because every buzz-in player is locked out.
+  const handleRoundLost = useCallback(async (reason: string) => {
+    setGameStatus(GameStatus.LOST);
+    playGameOverSound();
+    cleanupTimer();
+    chatPanelRef.current?.cancelReplies();
+    const ended = endRound();
+    const revealed = ended.then(revealAnswer);
+    if (match) {
+      setMatch(prev => prev && missRound(prev));
+    } else {
+      revealed.then(concept => concept && recordFinishedRound(RoundOutcome.LOST, concept));
+      if (daily) {
+        finishDailyRound(RoundOutcome.LOST, 0);
+      } else {
+        setStreak(0);
+      }
+    }
+    await handleGameEvent({ forUser: reason });
+    await announceRoundStyle();
+    await ended;
+    await handleGameEvent({ forAI: `Game Event: ${reason}`, roundEvent: roundEnded });
+  }, [roundEnded, cleanupTimer, handleGameEvent, announceRoundStyle, recordFinishedRound, endRound, revealAnswer, match, daily, finishDailyRound]);
 
   const handleIncorrectGuess = useCallback(() => {
     playWrongGuessSound();
     setIsWrongGuess(true);
+    setWrongGuesses(prev => prev + 1);
     setTimeout(() => {
       if (!isMounted.current) return;
       setGuessValue('');
       setIsWrongGuess(false);
     }, 1000);
-  }, []);
-  
-  const handleTimeUp = useCallback(async () => {
-    setGameStatus(GameStatus.LOST);
-    playGameOverSound();
-    cleanupTimer();
-    const eventForUser = `Time ran out.`;
-    const eventForAI = `Game Event: Time ran out. The answer was "${answer}". Here's the explanation for the image: ${explanation}`;
-    await handleGameEvent({ forUser: eventForUser, forAI: eventForAI });
-  }, [answer, cleanupTimer, explanation, handleGameEvent]);
+
+    if (match?.config.mode === MatchMode.BUZZ_IN && answering) {
+      const next = lockOutBuzzed(match);
+      setMatch(next);
+      if (isEveryoneLockedOut(next)) {
+        handleRoundLost(`Nobody got it.`);
+      } else {
+        handleGameEvent({ forUser: `❌ ${answering.name} is out for this round.` });
+      }
+    }
+  }, [match, answering, handleRoundLost, handleGameEvent]);
+
+  const handleTimeUp = useCallback(() => handleRoundLost('Time ran out.'), [handleRoundLost]);
   
   useEffect(() => {
     if (gameStatus === GameStatus.PLAYING && timeLeft > 0) {
@@ -191,59 +529,230 @@ const App: React.FC = () => {
       }
     };
   }, [gameStatus, timeLeft, handleTimeUp]);
-  
+
+  const handleBuzz = useCallback((participantId: string) => {
+    if (!match || gameStatus !== GameStatus.PLAYING) return;
+    const next = buzzIn(match, participantId);
+    if (next === match) return;
+    setMatch(next);
+    setGuessValue('');
+    playDrawingReadySound();
+    const participant = next.participants.find(p => p.id === participantId)!;
+    handleGameEvent({ forUser: `🔔 ${participant.name} buzzed in!` });
+  }, [match, gameStatus, handleGameEvent]);
+
+  // Buzz keys are read from the whole window, except while someone is typing in a text field.
   useEffect(() => {
-    if (gameStatus !== GameStatus.PLAYING || !answer || isWrongGuess) return;
-    const answerSanitized = answer.replace(/\s/g, '');
-    if (guessValue.length === answerSanitized.length) {
-      if (guessValue.toLowerCase() === answerSanitized.toLowerCase()) {
+    if (match?.config.mode !== MatchMode.BUZZ_IN || gameStatus !== GameStatus.PLAYING || match.buzzedId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.repeat || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      const participant = findByBuzzKey(match, e.key);
+      if (!participant) return;
+      e.preventDefault();
+      handleBuzz(participant.id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [match, gameStatus, handleBuzz]);
+  
+  const evaluateGuess = useCallback(async (guess: string) => {
+    if (!currentRoundId || isCheckingGuessRef.current) return;
+    isCheckingGuessRef.current = true;
+    try {
+      const isCorrect = await getRoundBackend().checkGuess(currentRoundId, guess, settings.matchStrictness);
+      if (!isMounted.current || gameStatusRef.current !== GameStatus.PLAYING) return;
+      if (isCorrect) {
         handleCorrectGuess();
       } else {
         handleIncorrectGuess();
       }
+    } catch (e) {
+      console.error("Failed to check guess:", e);
+      handleGameEvent({ forUser: `⚠️ ${e instanceof Error ? e.message : "Your guess couldn't be checked."}` });
+    } finally {
+      isCheckingGuessRef.current = false;
     }
-  }, [guessValue, answer, gameStatus, handleCorrectGuess, handleIncorrectGuess, isWrongGuess]);
+  }, [currentRoundId, settings.matchStrictness, handleCorrectGuess, handleIncorrectGuess, handleGameEvent]);
 
-  const prefetchNextRound = useCallback(() => {
-    // A prefetch is already in progress or completed. Do nothing.
-    if (nextGamePromiseRef.current) {
-        return;
+  // In letter-box mode the guess is checked as soon as every box is filled.
+  // Revealed letters are locked, so the player only types the remaining ones.
+  useEffect(() => {
+    if (settings.guessMode !== GuessMode.BOXES) return;
+    if (gameStatus !== GameStatus.PLAYING || !answer || isWrongGuess) return;
+    const answerSanitized = sanitizeAnswer(answer);
+    if (guessValue.length === answerSanitized.length - revealedIndices.length) {
+      evaluateGuess(composeGuess(answer, guessValue, revealedIndices));
     }
-    
-    // The concepts to exclude should include the one that just finished.
-    const conceptsToExclude = answer ? [...pastConcepts, answer] : pastConcepts;
+  }, [guessValue, answer, gameStatus, evaluateGuess, isWrongGuess, settings.guessMode, revealedIndices]);
 
-    const promise = getNewGameData(conceptsToExclude, imageStyle);
-    nextGamePromiseRef.current = promise;
+  // In free-text mode the guess is only checked when the player submits it.
+  const handleGuessSubmit = useCallback(() => {
+    if (gameStatus !== GameStatus.PLAYING || !answer || isWrongGuess || !guessValue.trim()) return;
+    evaluateGuess(guessValue);
+  }, [guessValue, answer, gameStatus, evaluateGuess, isWrongGuess]);
 
-    promise.then(data => {
-        // Only set data if this is still the current promise. Avoids race conditions.
-        if (isMounted.current && nextGamePromiseRef.current === promise) {
-            setPrefetchedGameData(data);
-        }
-    }).catch(e => {
-        console.error("Failed to prefetch next round:", e);
-        // If it fails, clear the ref so a new attempt can be made on next "Next" click
-        if (isMounted.current && nextGamePromiseRef.current === promise) {
-            nextGamePromiseRef.current = null;
-        }
-    });
-  }, [pastConcepts, answer, imageStyle]);
+  const revealHint = useCallback(async (type: HintType, isFree: boolean = false) => {
+    if (gameStatus !== GameStatus.PLAYING || !currentRoundId || isFetchingHintRef.current) return;
+    if (type === HintType.YEAR && !hasYear) return;
+    const cost = isFree ? 0 : HINT_COSTS[type];
 
-  // Effect to trigger the prefetch when a round finishes.
+    // Free-text guesses don't fill boxes, so any hidden letter can be revealed.
+    const typed = settings.guessMode === GuessMode.BOXES ? guessValue : '';
+    let hint: RoundHint | null;
+    isFetchingHintRef.current = true;
+    try {
+      hint = await getRoundBackend().getHint(currentRoundId, { type, typed });
+    } catch (e) {
+      console.error("Failed to get hint:", e);
+      return;
+    } finally {
+      isFetchingHintRef.current = false;
+    }
+    if (!hint || !isMounted.current || gameStatusRef.current !== GameStatus.PLAYING) return;
+    if (hint.position !== undefined && hint.letter) {
+      const { position, letter } = hint;
+      setRevealedIndices(prev => [...prev, position]);
+      setAnswer(prev => fillLetter(prev, position, letter));
+    }
+
+    // Paid hints are taken off this round's points when it is scored.
+    if (cost > 0) {
+      setPaidHints(prev => [...prev, type]);
+    }
+    setHintsUsed(prev => [...prev, type]);
+    await handleGameEvent({ forUser: `💡 ${hint.message}` });
+  }, [gameStatus, currentRoundId, hasYear, settings.guessMode, guessValue, handleGameEvent]);
+
+  const handleClueRequested = useCallback(() => {
+    setCluesRequested(prev => prev + 1);
+  }, []);
+
+  // Reveal a letter for free when the timer reaches one of the scheduled points.
+  useEffect(() => {
+    if (gameStatus !== GameStatus.PLAYING || autoHintTimeRef.current === timeLeft) return;
+    if (AUTO_HINT_TIMES[settings.autoHintSchedule].includes(timeLeft)) {
+      autoHintTimeRef.current = timeLeft;
+      revealHint(HintType.LETTER, true);
+    }
+  }, [gameStatus, timeLeft, settings.autoHintSchedule, revealHint]);
+
+  const showImages = useCallback((count: number) => {
+    setShownImageCount(count);
+    handleGameEvent({ forUser: `🖼️ Image ${count} of ${imageUrls.length}.` });
+  }, [imageUrls, handleGameEvent]);
+
+  const handleRevealNextImage = useCallback(() => {
+    if (gameStatus !== GameStatus.PLAYING || shownImageCount >= imageUrls.length) return;
+    showImages(shownImageCount + 1);
+  }, [gameStatus, shownImageCount, imageUrls, showImages]);
+
+  // Escalating rounds reveal their next image each time another equal share of the round time runs out.
+  useEffect(() => {
+    if (gameStatus !== GameStatus.PLAYING || imageUrls.length <= 1) return;
+    const due = Math.min(imageUrls.length, Math.floor((roundTime - timeLeft) * imageUrls.length / roundTime) + 1);
+    if (due > shownImageCount) {
+      showImages(due);
+    }
+  }, [gameStatus, timeLeft, roundTime, imageUrls, shownImageCount, showImages]);
+
+  // Once the round is over, every image can be looked at.
   useEffect(() => {
     if (gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST) {
-        prefetchNextRound();
+      setShownImageCount(imageUrls.length);
     }
-  }, [gameStatus, prefetchNextRound]);
+  }, [gameStatus, imageUrls]);
+
+  // A sketch that throws or never draws is written again, a couple of times at most.
+  const handleSketchError = useCallback(async (errors: SketchError[]) => {
+    const roundId = currentRoundId;
+    if (!roundId || gameStatus !== GameStatus.PLAYING) return;
+    if (sketchRedrawsRef.current >= MAX_SKETCH_REDRAWS) {
+      handleGameEvent({ forUser: "🛠️ The drawing still won't work. Restart the game for a new round." });
+      return;
+    }
+    sketchRedrawsRef.current += 1;
+    const requestId = roundIdRef.current;
+    handleGameEvent({ forUser: "🛠️ The drawing broke, so the AI is redrawing it." });
+    try {
+      const code = await getRoundBackend().redrawSketch(roundId, roundCategory, errors);
+      if (isMounted.current && roundIdRef.current === requestId) {
+        setRound(current => current?.id === roundId ? { ...current, sketchCode: code } : current);
+      }
+    } catch (e) {
+      console.error("Failed to redraw the sketch:", e);
+      handleGameEvent({ forUser: `🛠️ ${classifyError(e).message}` });
+    }
+  }, [currentRoundId, gameStatus, roundCategory, handleGameEvent]);
+
+  const createRound = useCallback((signal: AbortSignal): Promise<PublicRound> => {
+    const pastConcepts = [...excludedConcepts, ...usedPackTitlesRef.current];
+    const packConcept = choosePackConcept(settings.conceptSource, enabledPacks, {
+      category: category.id,
+      difficulty: nextRound.difficulty.id,
+      pastConcepts,
+    });
+    if (packConcept) {
+      usedPackTitlesRef.current.push(packConcept.title);
+    }
+    const style = settings.rotateStyles ? pickRandomStyle(styles, rotatedStyleIdRef.current) : selectedStyle;
+    rotatedStyleIdRef.current = style.id;
+    // The backend also excludes every answer it has served, including the round that just finished.
+    return getRoundBackend().createRound({
+      pastConcepts,
+      imageStyle: style.prompt,
+      styleGuide: style.guide,
+      category,
+      difficulty: nextRound.difficulty,
+      packConcept,
+      imageCount: settings.roundVariant === RoundVariant.ESCALATING ? ESCALATING_IMAGE_COUNT : 1,
+      isSketch: settings.roundVariant === RoundVariant.SKETCH,
+      signal,
+    });
+  }, [excludedConcepts, settings.conceptSource, settings.roundVariant, settings.rotateStyles, enabledPacks, styles, selectedStyle, category, nextRound]);
+
+  // Keep the queue topped up while a round is on screen, unless that's the last round of a match.
+  // The daily challenge's rounds are all loaded up front.
+  useEffect(() => {
+    const isRoundShowing = gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST;
+    if (isRoundShowing && !(match && isMatchOver(match)) && !daily) {
+        roundQueue.fill(queueKey, createRound);
+    }
+  }, [gameStatus, roundQueue, queueKey, createRound, match, daily]);
 
 
   const startNewGame = useCallback(async () => {
     const roundId = ++roundIdRef.current;
     if (gameStatus === GameStatus.LOADING) return;
 
+    if (match && isMatchOver(match)) {
+        cleanupTimer();
+        setGameStatus(GameStatus.MATCH_OVER);
+        const [winner] = getStandings(match);
+        await handleGameEvent({
+          forUser: `🏁 Match over. ${winner.name} wins with ${winner.score} points!`,
+          forAI: `Game Event: The match is over and ${winner.name} won with ${winner.score} points. Congratulate them in one or two sentences.`,
+        });
+        return;
+    }
+
+    if (daily && isDailyFinished(daily)) {
+        cleanupTimer();
+        setGameStatus(GameStatus.DAILY_OVER);
+        const solved = daily.results.filter(r => r.outcome === RoundOutcome.WON).length;
+        await handleGameEvent({
+          forUser: `📅 Daily challenge done: ${solved} of ${DAILY_ROUND_COUNT} solved for ${dailyPoints} points.`,
+          forAI: `Game Event: The user finished today's daily challenge and solved ${solved} of ${DAILY_ROUND_COUNT} images. React in one or two sentences.`,
+        });
+        return;
+    }
+
     const wasRoundFinished = gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST;
     const isFirstGame = pastConcepts.length === 0;
+    // Daily rounds are played in order, each with the timer of its planned difficulty.
+    const dailyIndex = daily ? daily.results.length : -1;
+    const roundPlan = daily ? daily.plan[dailyIndex] : null;
+    const newRoundTime = roundPlan ? getDifficulty(roundPlan.difficulty).roundTime : nextRound.roundTime;
 
     setGameStatus(GameStatus.LOADING);
     setLoadingMessage('thinking');
@@ -257,41 +766,95 @@ const App: React.FC = () => {
     setError(null);
     setGuessValue('');
     setIsWrongGuess(false);
-    setImageUrl('');
+    setShownImageCount(1);
+    sketchSnapshotRef.current = null;
+    sketchRedrawsRef.current = 0;
+    setRevealedIndices([]);
+    setHintsUsed([]);
+    setPaidHints([]);
+    setCluesRequested(0);
+    setWrongGuesses(0);
 
-    const handleGameData = (gameData: any) => {
+    const handleRound = (round: PublicRound, dailyRounds?: PublicRound[]) => {
         if (!isMounted.current || roundIdRef.current !== roundId) return;
 
-        setImageUrl(gameData.imageUrl);
+        if (round.isFallback) {
+            handleGameEvent({ forUser: "♻️ Couldn't make a new round just now, so here's one that was made earlier." });
+        }
+        if (daily && dailyRounds) {
+            // The attempt counts from the moment the image is shown.
+            const results = [...daily.results, { outcome: RoundOutcome.LOST, timeTakenSeconds: newRoundTime, hintsUsed: 0, points: 0 }];
+            saveDailyAttempt({ date: daily.date, results });
+            setDaily({ ...daily, rounds: dailyRounds, results, index: dailyIndex });
+        }
+
+        setRound(round);
+        // The daily keeps to plain images, so everyone's results are comparable. Sketches build
+        // themselves up, so they aren't hidden either.
+        setRoundReveal(daily || round.sketchCode ? ImageReveal.OFF : settings.imageReveal);
         playDrawingReadySound();
-        setAnswer(gameData.concept);
-        setExplanation(gameData.explanation);
-        setTimeLeft(ROUND_TIME);
-        setPastConcepts(prev => [...prev, gameData.concept]);
-        const eventForAI = `Game Event: I have just created an image. The concept is "${gameData.concept}". My idea for creating it was: ${gameData.explanation}. Now, please provide a short, engaging, first-person message to the user to kick off the guessing round.`;
-        handleGameEvent({ forAI: eventForAI });
+        setAnswer(round.answerShape);
+        autoHintTimeRef.current = null;
+        setRoundDifficulty(round.difficulty);
+        setRoundTime(newRoundTime);
+        setTimeLeft(newRoundTime);
+        chatPanelRef.current?.startRound(round.id);
+        // With the answer hidden from the chat, the kick-off says nothing about what the image shows.
+        // Otherwise the backend puts the answer in front of it.
+        if (settings.chatAnswerMode === ChatAnswerMode.HIDDEN) {
+            handleGameEvent({ forAI: `Game Event: The image for the new round is ready. You don't know what it shows. Now, please provide a short, engaging, first-person message to the user to kick off the guessing round.` });
+        } else {
+            handleGameEvent({
+              forAI: `Now, please provide a short, engaging, first-person message to the user to kick off the guessing round.`,
+              roundEvent: { roundId: round.id, kind: RoundChatEventKind.STARTED },
+            });
+        }
         setGameStatus(GameStatus.PLAYING);
     };
 
-    if (isFirstGame) {
+    if (match) {
+        const next = startMatchRound(match);
+        setMatch(next);
+        const roundLabel = `Round ${next.roundsPlayed + 1} of ${next.config.rounds}`;
+        await handleGameEvent({
+          forUser: next.config.mode === MatchMode.TURNS
+            ? `🎲 ${roundLabel}: ${next.participants[next.activeIndex].name}'s turn.`
+            : `🎲 ${roundLabel}: press your key to buzz in.`,
+        });
+    } else if (roundPlan) {
+        const { label } = resolveCategory({ id: roundPlan.category, customName: '' });
+        await handleGameEvent({
+          forUser: `📅 Daily round ${dailyIndex + 1} of ${DAILY_ROUND_COUNT}: ${label}, in ${roundPlan.style}, ${getDifficulty(roundPlan.difficulty).label.toLowerCase()}.`,
+        });
+    } else if (isFirstGame) {
         await handleGameEvent({ forUser: 'Starting on Level 1.' });
     }
-    const eventForAI_thinking = `Game Event: The user wants a new round. Please respond with a short message (3-6 words) saying you're thinking of a new movie to create an image for.`;
-    handleGameEvent({ forAI: eventForAI_thinking });
+    if (!daily) {
+        const eventForAI_thinking = `Game Event: The user wants a new round. Please respond with a short message (3-6 words) saying you're thinking of a new ${category.noun} to create an image for.`;
+        handleGameEvent({ forAI: eventForAI_thinking });
+    }
 
     try {
-        let promiseToAwait: Promise<any>;
-
-        if (prefetchedGameData) {
-            const data = prefetchedGameData;
-            setPrefetchedGameData(null);
-            nextGamePromiseRef.current = null;
-            promiseToAwait = Promise.resolve(data);
-        } else if (nextGamePromiseRef.current) {
-            promiseToAwait = nextGamePromiseRef.current;
-            nextGamePromiseRef.current = null;
+        let promiseToAwait: Promise<PublicRound>;
+        let dailyRounds: PublicRound[] | undefined;
+
+        if (daily) {
+            // Loaded once, when the first daily round of the session starts.
+            const loading = daily.rounds.length > 0 ? Promise.resolve(daily.rounds) : getRoundBackend().getDailyRounds(daily.date);
+            promiseToAwait = loading.then(rounds => {
+                dailyRounds = rounds;
+                return rounds[dailyIndex];
+            });
         } else {
-            promiseToAwait = getNewGameData(pastConcepts, imageStyle);
+            const backend = getRoundBackend();
+            promiseToAwait = roundQueue.take(queueKey, id => backend.claimRound(id)).then(queued => {
+                if (queued) return queued;
+                if (!isMounted.current || roundIdRef.current !== roundId) throw new GenerationError(GenerationErrorKind.CANCELLED);
+                roundAbortRef.current?.abort();
+                const controller = new AbortController();
+                roundAbortRef.current = controller;
+                return createRound(controller.signal);
+            });
         }
 
         if (!isMounted.current || roundIdRef.current !== roundId) return;
@@ -299,47 +862,114 @@ const App: React.FC = () => {
 
         const data = await promiseToAwait;
         if (!isMounted.current || roundIdRef.current !== roundId) return;
-        
-        handleGameData(data);
+        // The backend keeps time too, and holds on to the answer until the round is over.
+        await getRoundBackend().startRound(data.id, newRoundTime);
+        if (!isMounted.current || roundIdRef.current !== roundId) return;
+
+        handleRound(data, dailyRounds);
     } catch (e) {
         if (!isMounted.current || roundIdRef.current !== roundId) {
             console.log(`Stale request error from round ${roundId} ignored.`);
             return;
         }
+        const error = classifyError(e);
+        if (error.kind === GenerationErrorKind.CANCELLED) return;
         console.error(e);
-        setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        setError(error.message);
         setGameStatus(GameStatus.IDLE);
-        setPrefetchedGameData(null);
-        nextGamePromiseRef.current = null;
     }
 }, [
     gameStatus,
     cleanupTimer,
     pastConcepts,
     handleGameEvent,
-    prefetchedGameData,
-    imageStyle,
+    roundQueue,
+    queueKey,
+    createRound,
+    category,
+    nextRound,
+    match,
+    daily,
+    dailyPoints,
+    settings.imageReveal,
+    settings.chatAnswerMode,
 ]);
 
   const handleResetGame = useCallback(() => {
     roundIdRef.current += 1;
+    roundAbortRef.current?.abort();
+    roundAbortRef.current = null;
     cleanupTimer();
     setGameStatus(GameStatus.IDLE);
-    setImageUrl('');
+    setRound(null);
+    setShownImageCount(1);
     setAnswer('');
-    setExplanation('');
+    setRevealedIndices([]);
+    setHintsUsed([]);
+    setPaidHints([]);
+    setCluesRequested(0);
+    setWrongGuesses(0);
     setGuessValue('');
     setIsWrongGuess(false);
-    setTimeLeft(ROUND_TIME);
+    const firstRound = resolveDifficulty(settings.difficulty, levelCurve, 1);
+    setTimeLeft(firstRound.roundTime);
+    setRoundTime(firstRound.roundTime);
     setError(null);
     setLoadingMessage('');
     setPastConcepts([]);
+    usedPackTitlesRef.current = [];
     setScore(0);
     setLevel(1);
+    setStreak(0);
+    setLastBreakdown(null);
+    setMatch(null);
+    setDaily(null);
     if (chatPanelRef.current) {
       chatPanelRef.current.reset();
     }
-  }, [cleanupTimer]);
+  }, [cleanupTimer, levelCurve, settings.difficulty]);
+
+  const startMatch = useCallback((config: MatchConfig) => {
+    handleResetGame();
+    const newMatch = createMatch(config);
+    setMatch(newMatch);
+    setLastMatchConfig(config);
+    setIsMatchSetupOpen(false);
+    const names = newMatch.participants.map(p => p.name).join(', ');
+    const howToPlay = config.mode === MatchMode.TURNS
+      ? `${newMatch.participants[0].name} goes first.`
+      : `Everyone guesses the same image. Press your key to buzz in.`;
+    handleGameEvent({ forUser: `🎮 New match: ${names}. ${config.rounds} rounds. ${howToPlay}` });
+    handleGameEvent({ forAI: `Game Event: A local match between these ${participantNoun(newMatch, true)} is starting: ${names}. Address them by name from now on. Give a short, one-sentence welcome.` });
+  }, [handleResetGame, handleGameEvent]);
+
+  // Picks up today's attempt where it was left, or shows its result if it has been played.
+  const startDaily = useCallback(() => {
+    handleResetGame();
+    const date = getDailyKey();
+    const attempt = loadDailyAttempt(date);
+    const isFinished = isDailyFinished(attempt);
+    setDaily({
+      ...attempt,
+      plan: getDailyPlan(date),
+      rounds: [],
+      index: isFinished ? DAILY_ROUND_COUNT - 1 : attempt.results.length,
+    });
+    if (isFinished) {
+      setGameStatus(GameStatus.DAILY_OVER);
+    }
+  }, [handleResetGame]);
+
+  const joinRoom = useCallback((request: RoomJoinRequest) => {
+    handleResetGame();
+    setIsOnlineModalOpen(false);
+    setRoomRequest(request);
+  }, [handleResetGame]);
+
+  const startReverseMode = useCallback(() => {
+    handleResetGame();
+    setIsReverseMode(true);
+  }, [handleResetGame]);
 
   const handleGuessChange = useCallback((value: string) => {
     if (isWrongGuess) return;
@@ -349,61 +979,175 @@ const App: React.FC = () => {
   return (
     <>
       <div ref={appContainerRef} className="bg-black text-neutral-300 flex flex-col md:flex-row items-stretch overflow-hidden">
-        
-        {/* Game Panel Column (Top on sm, Right on md) */}
-        <div className="flex flex-col p-4 md:flex-1 order-1 md:order-2 h-1/2 md:h-full min-h-0">
-           {/* Header for mobile view */}
-          <div className="block md:hidden -mx-4 -mt-4 mb-4">
-            <Header 
-              imageStyle={imageStyle}
-              onStyleChange={setImageStyle}
-              gameStatus={gameStatus}
-              onAboutClick={() => setIsAboutModalOpen(true)}
-            />
-          </div>
-          <div className="flex-1 flex justify-center items-center min-h-0">
-            <GamePanel
-              gameStatus={gameStatus}
-              imageUrl={imageUrl}
-              error={error}
-              loadingMessage={loadingMessage}
-              onStartNewGame={startNewGame}
-            />
+        {roomRequest ? (
+          <OnlineRoom
+            request={roomRequest}
+            category={category}
+            imageStyle={imageStyle}
+            difficulty={nextRound.difficulty}
+            roundTime={nextRound.roundTime}
+            matchStrictness={settings.matchStrictness}
+            excludedConcepts={excludedConcepts}
+            onLeave={() => setRoomRequest(null)}
+          />
+        ) : isReverseMode ? (
+          <ReverseMode
+            category={category}
+            imageStyle={imageStyle}
+            difficulty={nextRound.difficulty}
+            excludedConcepts={excludedConcepts}
+            onLeave={() => setIsReverseMode(false)}
+          />
+        ) : (
+          <>
+          {/* Game Panel Column (Top on sm, Right on md) */}
+          <div className="flex flex-col p-4 md:flex-1 order-1 md:order-2 h-1/2 md:h-full min-h-0">
+             {/* Header for mobile view */}
+            <div className="block md:hidden -mx-4 -mt-4 mb-4">
+              <Header 
+                selectedStyle={selectedStyle}
+                isRotatingStyles={settings.rotateStyles}
+                onStyleLibraryClick={() => setIsStyleLibraryOpen(true)}
+                onSurpriseStyle={handleSurpriseStyle}
+                categorySelection={categorySelection}
+                onCategoryChange={setCategorySelection}
+                gameStatus={gameStatus}
+                onAboutClick={() => setIsAboutModalOpen(true)}
+                onSettingsClick={() => setIsSettingsModalOpen(true)}
+                onStatsClick={() => setIsStatsModalOpen(true)}
+                onMatchClick={() => setIsMatchSetupOpen(true)}
+                onOnlineClick={() => setIsOnlineModalOpen(true)}
+                onDailyClick={startDaily}
+                onReverseClick={startReverseMode}
+              />
+            </div>
+            {match && (
+              <Scoreboard
+                match={match}
+                canBuzz={gameStatus === GameStatus.PLAYING && !match.buzzedId}
+                onBuzz={handleBuzz}
+              />
+            )}
+            <div className="flex-1 flex justify-center items-center min-h-0">
+              <GamePanel
+                gameStatus={gameStatus}
+                round={round}
+                sketchProgress={gameStatus === GameStatus.PLAYING ? (roundTime - timeLeft) / roundTime : 1}
+                onSketchError={handleSketchError}
+                onSketchSnapshot={imageUrl => { sketchSnapshotRef.current = imageUrl; }}
+                shownImageCount={shownImageCount}
+                onRevealNextImage={handleRevealNextImage}
+                imageReveal={roundReveal}
+                obscurity={obscurity}
+                category={roundCategory}
+                error={error}
+                loadingMessage={loadingMessage}
+                onStartNewGame={startNewGame}
+                startLabel={daily ? (daily.results.length > 0 ? "Continue today's challenge" : "Start today's challenge") : 'Start game'}
+                startNote={daily ? `${DAILY_ROUND_COUNT} rounds, the same for everyone today. You get one attempt, so a round you leave counts as missed.` : null}
+                standings={match ? getStandings(match) : null}
+                onPlayMatchAgain={() => lastMatchConfig && startMatch(lastMatchConfig)}
+                onSetUpMatch={() => setIsMatchSetupOpen(true)}
+                onEndMatch={handleResetGame}
+                dailyResult={daily}
+                onEndDaily={handleResetGame}
+              />
+            </div>
           </div>
-        </div>
 
-        {/* Chat Panel Column (Bottom on sm, Left on md) */}
-        <div className="flex flex-col md:w-[450px] flex-shrink-0 order-2 md:order-1 h-1/2 md:h-full min-h-0 border-t md:border-t-0 md:border-r border-neutral-700">
-          {/* Header for desktop view */}
-          <div className="hidden md:block">
-            <Header
-              imageStyle={imageStyle}
-              onStyleChange={setImageStyle}
-              gameStatus={gameStatus}
-              onAboutClick={() => setIsAboutModalOpen(true)}
-            />
-          </div>
-          <div className="flex-1 min-h-0">
-              <ChatPanel
-                ref={chatPanelRef}
+          {/* Chat Panel Column (Bottom on sm, Left on md) */}
+          <div className="flex flex-col md:w-[450px] flex-shrink-0 order-2 md:order-1 h-1/2 md:h-full min-h-0 border-t md:border-t-0 md:border-r border-neutral-700">
+            {/* Header for desktop view */}
+            <div className="hidden md:block">
+              <Header
+                selectedStyle={selectedStyle}
+                isRotatingStyles={settings.rotateStyles}
+                onStyleLibraryClick={() => setIsStyleLibraryOpen(true)}
+                onSurpriseStyle={handleSurpriseStyle}
+                categorySelection={categorySelection}
+                onCategoryChange={setCategorySelection}
                 gameStatus={gameStatus}
-                answer={answer}
-                guessValue={guessValue}
-                isWrongGuess={isWrongGuess}
-                timeLeft={timeLeft}
-                score={score}
-                onGuessChange={handleGuessChange}
-                onNextGame={startNewGame}
-                onResetGame={handleResetGame}
+                onAboutClick={() => setIsAboutModalOpen(true)}
+                onSettingsClick={() => setIsSettingsModalOpen(true)}
+                onStatsClick={() => setIsStatsModalOpen(true)}
+                onMatchClick={() => setIsMatchSetupOpen(true)}
+                onOnlineClick={() => setIsOnlineModalOpen(true)}
+                onDailyClick={startDaily}
+                onReverseClick={startReverseMode}
               />
+            </div>
+            <div className="flex-1 min-h-0">
+                <ChatPanel
+                  ref={chatPanelRef}
+                  gameStatus={gameStatus}
+                  category={daily ? DAILY_CHAT_CATEGORY : category}
+                  answer={answer}
+                  guessValue={guessValue}
+                  isWrongGuess={isWrongGuess}
+                  guessMode={settings.guessMode}
+                  revealedIndices={revealedIndices}
+                  isGuessLocked={!!match && !answering}
+                  guessLabel={match ? (answering ? `${answering.name}, guess the ${category.answerNoun}` : 'Press your key to buzz in') : daily ? `Guess the ${roundCategory.noun}` : null}
+                  hasYear={hasYear}
+                  timeLeft={timeLeft}
+                  score={answering ? answering.score : daily ? dailyPoints : score}
+                  queueStatus={daily ? null : queueStatus}
+                  roundId={currentRoundId}
+                  chatAnswerMode={settings.chatAnswerMode}
+                  onGuessChange={handleGuessChange}
+                  onGuessSubmit={handleGuessSubmit}
+                  onHint={revealHint}
+                  onClueRequested={handleClueRequested}
+                  onNextGame={startNewGame}
+                  onResetGame={handleResetGame}
+                />
+            </div>
           </div>
-        </div>
-
+          </>
+        )}
       </div>
       <AboutModal
         isOpen={isAboutModalOpen}
         onClose={() => setIsAboutModalOpen(false)}
       />
+      <StatsModal
+        isOpen={isStatsModalOpen}
+        onClose={() => setIsStatsModalOpen(false)}
+        profile={profile}
+        onProfileChange={setProfile}
+        onHistoryCleared={() => setHistoryConcepts([])}
+      />
+      <StyleLibraryModal
+        isOpen={isStyleLibraryOpen}
+        onClose={() => setIsStyleLibraryOpen(false)}
+        styles={styles}
+        selectedStyleId={selectedStyle.id}
+        onSelectStyle={styleId => setSettings(prev => ({ ...prev, styleId }))}
+        rotateStyles={settings.rotateStyles}
+        onRotateStylesChange={rotateStyles => setSettings(prev => ({ ...prev, rotateStyles }))}
+        customStyles={customStyles}
+        onCustomStylesChange={setCustomStyles}
+      />
+      <SettingsModal
+        isOpen={isSettingsModalOpen}
+        onClose={() => setIsSettingsModalOpen(false)}
+        settings={settings}
+        onSettingsChange={setSettings}
+        packs={packs}
+        onPacksChange={setPacks}
+      />
+      <OnlineRoomModal
+        isOpen={isOnlineModalOpen}
+        onClose={() => setIsOnlineModalOpen(false)}
+        defaultName={profile.name}
+        onConnect={joinRoom}
+      />
+      <MatchSetupModal
+        isOpen={isMatchSetupOpen}
+        onClose={() => setIsMatchSetupOpen(false)}
+        initialConfig={lastMatchConfig}
+        onStartMatch={startMatch}
+      />
     </>
   );
 };
@@ -33,7 +33,7 @@ const AboutModal: React.FC<AboutModalProps> = ({ isOpen, onClose }) => {
         </button>
         <div className="text-neutral-300 space-y-4 leading-relaxed">
             <p>
-                <b>Image Pictionary</b> is a game where AI generates an image based on a movie's notable visual aspects. You can choose a suggested art style from the dropdown, or select "Custom..." to type your own. This changes how the image is rendered. I made it as a fun way to see how AI visualizes different concepts. It's a quick prototype, so it will probably break a lot.
+                <b>Image Pictionary</b> is a game where AI generates an image based on the notable visual aspects of a movie, TV show, book, song, video game or idiom. Pick a category, and an art style from the style library or one of your own. This changes how the image is rendered. I made it as a fun way to see how AI visualizes different concepts. It's a quick prototype, so it will probably break a lot.
             </p>
             <p>
                 Built with Gemini 2.5 Flash and Imagen 4. Code is <a href="https://aistudio.google.com/app/prompts?state=%7B%22ids%22:%5B%221YyBklOBtlwDoyGiT9mTR7QYB1oBpSH8I%22%5D,%22action%22:%22open%22,%22userId%22:%22101358132915387811680%22,%22resourceKeys%22:%7B%7D%7D&usp=sharing" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">open-source</a>. Made by <a href="https://x.com/alexanderchen" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">@alexanderchen</a>.
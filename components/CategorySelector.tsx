@@ -0,0 +1,66 @@
+import React from 'react';
+import { Category, CategorySelection } from '../types';
+import { CATEGORIES } from '../constants';
+
+interface CategorySelectorProps {
+  selection: CategorySelection;
+  onSelectionChange: (selection: CategorySelection) => void;
+  isDisabled: boolean;
+}
+
+const CategorySelector: React.FC<CategorySelectorProps> = ({ selection, onSelectionChange, isDisabled }) => {
+  const isCustom = selection.id === Category.CUSTOM;
+
+  // The custom name is kept when switching away, so switching back restores it.
+  const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onSelectionChange({ ...selection, id: e.target.value as Category });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onSelectionChange({ ...selection, customName: e.target.value });
+  };
+
+  // Custom arrow SVG for the select dropdown
+  const customArrow = `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%239ca3af' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative">
+        <select
+          value={selection.id}
+          onChange={handleSelectChange}
+          disabled={isDisabled}
+          className="bg-neutral-800 border border-neutral-700 text-white text-xs rounded-md pl-2 pr-7 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors appearance-none"
+          style={{
+            backgroundImage: customArrow,
+            backgroundPosition: 'right 0.5rem center',
+            backgroundSize: '1em',
+            backgroundRepeat: 'no-repeat',
+          }}
+          aria-label="Select category"
+        >
+          {CATEGORIES.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.label}
+            </option>
+          ))}
+          <option value={Category.CUSTOM}>Custom...</option>
+        </select>
+      </div>
+
+      {isCustom && (
+        <input
+          type="text"
+          value={selection.customName}
+          onChange={handleInputChange}
+          disabled={isDisabled}
+          className="bg-neutral-800 border border-neutral-700 text-white text-xs rounded-md pl-2 pr-3 py-1 w-32 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          placeholder="Type a category..."
+          aria-label="Enter custom category"
+        />
+      )}
+    </div>
+  );
+};
+
+export default CategorySelector;
@@ -1,23 +1,37 @@
 import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { ChatMessage, Role, GameStatus } from '../types';
-import { createChat } from '../services/geminiService';
-import type { Chat, GenerateContentResponse } from '@google/genai';
-import { ChevronRight, RotateCcw, ArrowRight, MessageSquare } from 'lucide-react';
+import { ChatMessage, Role, GameStatus, CategoryDefinition, GuessMode, HintType, MessageStatus, ChatAnswerMode, RoundChatEvent } from '../types';
+import { HINT_COSTS } from '../constants';
+import { typedIndexByPosition } from '../services/hintService';
+import { getRoundBackend, RoundChatSession } from '../services/roundService';
+import type { RoundQueueStatus } from '../services/roundQueueService';
+import { ChevronRight, RotateCcw, ArrowRight, MessageSquare, RefreshCw } from 'lucide-react';
+
+const useFocusOnUnlock = (inputRef: React.RefObject<HTMLInputElement | null>, gameStatus: GameStatus, isLocked: boolean) => {
+  const wasLockedRef = useRef(isLocked);
+  useEffect(() => {
+    if (wasLockedRef.current && !isLocked && gameStatus === GameStatus.PLAYING) {
+      inputRef.current?.focus();
+    }
+    wasLockedRef.current = isLocked;
+  }, [inputRef, gameStatus, isLocked]);
+};
 
 const GuessInput: React.FC<{
   gameStatus: GameStatus;
   answer: string;
   guessValue: string;
   isWrongGuess: boolean;
+  revealedIndices: number[];
+  isLocked: boolean;
   onGuessChange: (value: string) => void;
-}> = ({ gameStatus, answer, guessValue, isWrongGuess, onGuessChange }) => {
+}> = ({ gameStatus, answer, guessValue, isWrongGuess, revealedIndices, isLocked, onGuessChange }) => {
   const [isFocused, setIsFocused] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const answerSanitized = answer.replace(/\s/g, '');
   const answerSanitizedLength = answerSanitized.length;
-  const isDisabled = gameStatus === GameStatus.IDLE || gameStatus === GameStatus.LOADING || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST;
+  const isDisabled = gameStatus !== GameStatus.PLAYING || isLocked;
 
   // When the game becomes disabled, ensure the hidden input is blurred.
   useEffect(() => {
@@ -26,6 +40,9 @@ const GuessInput: React.FC<{
     }
   }, [isDisabled]);
 
+  // Focus straight away when a lock is lifted mid-round, e.g. after buzzing in.
+  useFocusOnUnlock(inputRef, gameStatus, isLocked);
+
   const handleInputFocus = useCallback(() => {
     setIsFocused(true);
     // On mobile, the virtual keyboard can cover the input.
@@ -52,7 +69,8 @@ const GuessInput: React.FC<{
 
     const rawValue = e.currentTarget.value;
     const sanitizedValue = rawValue.replace(/[^a-zA-Z0-9]/g, '');
-    const truncatedValue = sanitizedValue.slice(0, answerSanitizedLength);
+    // Revealed letters are locked, so only the remaining boxes can be typed into.
+    const truncatedValue = sanitizedValue.slice(0, answerSanitizedLength - revealedIndices.length);
     
     // Update the state with the sanitized and truncated value.
     onGuessChange(truncatedValue);
@@ -80,6 +98,7 @@ const GuessInput: React.FC<{
     }
 
     const words = answer.split(' ');
+    const typedIndices = typedIndexByPosition(answerSanitizedLength, revealedIndices);
     let cumulativeCharIndex = -1;
 
     return (
@@ -90,10 +109,11 @@ const GuessInput: React.FC<{
             <div key={wordIndex} className="flex items-center gap-x-1 mr-5 last:mr-0">
               {word.split('').map((char, charIndex) => {
                 cumulativeCharIndex++;
-                const guessCharIndex = cumulativeCharIndex;
+                const guessCharIndex = typedIndices[cumulativeCharIndex];
+                const isRevealed = guessCharIndex === -1;
 
                 let charToShow = '';
-                if (gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST) {
+                if (gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST || isRevealed) {
                   charToShow = char;
                 } else if (guessValue[guessCharIndex]) {
                   charToShow = guessValue[guessCharIndex];
@@ -104,6 +124,8 @@ const GuessInput: React.FC<{
                 let stateClasses = "border-neutral-700 text-white";
                 if (gameStatus === GameStatus.WON) {
                   stateClasses = "border-green-500 text-green-300";
+                } else if (isRevealed && gameStatus === GameStatus.PLAYING) {
+                  stateClasses = "border-yellow-700 text-yellow-300 bg-yellow-950/40";
                 } else if (isWrongGuess) {
                   stateClasses = "border-red-500 text-red-300 animate-shake";
                 } else if (isCurrent) {
@@ -172,22 +194,98 @@ const GuessInput: React.FC<{
 };
 
 
+const FreeTextGuessInput: React.FC<{
+  gameStatus: GameStatus;
+  answer: string;
+  guessValue: string;
+  isWrongGuess: boolean;
+  onGuessChange: (value: string) => void;
+  isLocked: boolean;
+  onGuessSubmit: () => void;
+}> = ({ gameStatus, answer, guessValue, isWrongGuess, isLocked, onGuessChange, onGuessSubmit }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isGameOver = gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST || gameStatus === GameStatus.MATCH_OVER || gameStatus === GameStatus.DAILY_OVER;
+  const isDisabled = gameStatus !== GameStatus.PLAYING || isLocked;
+
+  useFocusOnUnlock(inputRef, gameStatus, isLocked);
+
+  useEffect(() => {
+    if (isDisabled) {
+      inputRef.current?.blur();
+    }
+  }, [isDisabled]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isDisabled && !isWrongGuess) {
+      onGuessSubmit();
+    }
+  };
+
+  let stateClasses = "border-neutral-600 text-white focus:border-white";
+  if (gameStatus === GameStatus.WON) {
+    stateClasses = "border-green-500 text-green-300";
+  } else if (isWrongGuess) {
+    stateClasses = "border-red-500 text-red-300 animate-shake";
+  } else if (isDisabled) {
+    stateClasses = "border-neutral-800 text-white";
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full" data-testid="free-text-guess-container">
+      <input
+        ref={inputRef}
+        type="text"
+        // Once the round is over the answer is shown in place of the guess.
+        value={isGameOver ? answer.toUpperCase() : guessValue}
+        onChange={(e) => !isWrongGuess && onGuessChange(e.target.value)}
+        disabled={isDisabled}
+        placeholder={isDisabled ? '' : 'Type your guess and press Enter...'}
+        className={`w-full h-10 px-3 text-lg bg-transparent border rounded-md focus:outline-none transition-colors disabled:cursor-not-allowed ${stateClasses}`}
+        autoCapitalize="none"
+        autoComplete="off"
+        autoCorrect="off"
+        spellCheck="false"
+        aria-label="Guess"
+      />
+    </form>
+  );
+};
+
+
 interface ChatPanelProps {
   gameStatus: GameStatus;
+  category: CategoryDefinition;
   answer: string;
   guessValue: string;
   isWrongGuess: boolean;
+  guessMode: GuessMode;
+  revealedIndices: number[];
+  isGuessLocked: boolean; // Set when someone else is answering, or nobody has buzzed in yet
+  guessLabel: string | null; // Replaces the default "Guess the ..." label
+  hasYear: boolean;
   timeLeft: number;
   score: number;
+  queueStatus: RoundQueueStatus | null; // Rounds made ahead for the current settings, if any are
+  roundId: string | null; // The round on screen, which new messages are tagged with
+  chatAnswerMode: ChatAnswerMode;
   onGuessChange: (value: string) => void;
+  onGuessSubmit: () => void;
+  onHint: (type: HintType) => void;
+  onClueRequested: () => void;
   onNextGame: () => void;
   onResetGame: () => void;
 }
 
 export interface ChatPanelRef {
   reset: () => void;
-  sendGameEvent: (event: { forUser?: string; forAI?: string }) => Promise<void>;
+  // Pass roundEvent when forAI is about a round whose answer the backend should add to it.
+  sendGameEvent: (event: { forUser?: string; forAI?: string; roundEvent?: RoundChatEvent }) => Promise<void>;
   sendSystemContext: (context: string) => Promise<void>;
+  // Clues are written for the round from here until cancelReplies is called.
+  startRound: (roundId: string) => void;
+  // Stops replies still being written or waiting their turn, so a clue can't arrive after the reveal.
+  cancelReplies: () => void;
 }
 
 const MessageContent: React.FC<{ content: string }> = ({ content }) => {
@@ -199,65 +297,181 @@ const MessageContent: React.FC<{ content: string }> = ({ content }) => {
 };
 
 
+const HINT_BUTTONS: { type: HintType; label: string }[] = [
+  { type: HintType.LETTER, label: 'Letter' },
+  { type: HintType.WORD_SHAPE, label: 'Words' },
+  { type: HintType.YEAR, label: 'Year' },
+];
+
+let nextMessageNumber = 1;
+
+const createMessage = (role: Role, content: string, roundId?: string, status: MessageStatus = MessageStatus.DONE): ChatMessage => ({
+  id: `message-${nextMessageNumber++}`,
+  role,
+  content,
+  createdAt: Date.now(),
+  roundId,
+  status,
+});
+
+const createGreeting = (category: CategoryDefinition): ChatMessage =>
+  createMessage(Role.MODEL, `Hi! 👋 I'll think of a ${category.noun} and create an image of it. You guess what it is. Ready?`);
+
+const CLUE_REQUEST = "give me a clue";
+
 const ChatPanel = forwardRef<ChatPanelRef, ChatPanelProps>((props, ref) => {
-  const { gameStatus, answer, guessValue, isWrongGuess, timeLeft, score, onGuessChange, onNextGame, onResetGame } = props;
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: Role.MODEL, content: "Hi! 👋 I'll think of a movie and create an image of it. You guess what it is. Ready?" }
-  ]);
+  const { gameStatus, category, answer, guessValue, isWrongGuess, guessMode, revealedIndices, isGuessLocked, guessLabel, hasYear, timeLeft, score, queueStatus, roundId, chatAnswerMode, onGuessChange, onGuessSubmit, onHint, onClueRequested, onNextGame, onResetGame } = props;
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createGreeting(category)]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<RoundChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
-
+  // Replies are written one at a time, in the order they were asked for. Each one can be
+  // cancelled from the moment it's queued.
+  const replyQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingRepliesRef = useRef(new Map<string, AbortController>());
+  // The round being played, if any, and the clues given for it so far.
+  const liveRoundIdRef = useRef<string | null>(null);
+  const cluesRef = useRef<string[]>([]);
+
+  // A new chat is created whenever the category or answer mode changes, so the persona talks about the right thing.
   useEffect(() => {
-    chatRef.current = createChat();
-  }, []);
+    chatRef.current = getRoundBackend().createChat(category, chatAnswerMode);
+    // If nothing has been played yet, keep the greeting in sync with the selection.
+    setMessages(prev => (prev.length === 1 && prev[0].role === Role.MODEL) ? [createGreeting(category)] : prev);
+  }, [category, chatAnswerMode]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading]);
 
-  const handleReset = useCallback(() => {
-    setMessages([
-        { role: Role.MODEL, content: "Hi! 👋 I'll think of a movie and create an image of it. You guess what it is. Ready?" }
-    ]);
-    setInput('');
+  const updateMessage = useCallback((id: string, update: (message: ChatMessage) => ChatMessage | null) => {
+    setMessages(prev => prev.flatMap(message => {
+      if (message.id !== id) return [message];
+      const updated = update(message);
+      return updated ? [updated] : [];
+    }));
+  }, []);
+
+  const startRound = useCallback((liveRoundId: string) => {
+    liveRoundIdRef.current = liveRoundId;
+    cluesRef.current = [];
+  }, []);
+
+  const cancelReplies = useCallback(() => {
+    liveRoundIdRef.current = null;
+    pendingRepliesRef.current.forEach(controller => controller.abort());
+    pendingRepliesRef.current.clear();
     setIsLoading(false);
-    chatRef.current = createChat();
+    // Retrying a failed reply would bring back the stale round too.
+    setMessages(prev => prev.map(message => message.retry ? { ...message, retry: undefined } : message));
   }, []);
-  
-  const sendMessage = useCallback(async (message: string, isUserMessage: boolean = false): Promise<void> => {
-    if (isLoading || !chatRef.current) return;
 
-    setIsLoading(true);
-    if (isUserMessage) {
-        setInput('');
-        setMessages(prev => [...prev, { role: Role.USER, content: message }]);
+  const handleReset = useCallback(() => {
+    cancelReplies();
+    setMessages([createGreeting(category)]);
+    setInput('');
+    chatRef.current = getRoundBackend().createChat(category, chatAnswerMode);
+  }, [category, chatAnswerMode, cancelReplies]);
+
+  // Shows the reply as it's written. Never throws, so the reply queue keeps going.
+  const streamReply = useCallback(async (reply: ChatMessage, message: string, roundEvent: RoundChatEvent | undefined, controller: AbortController) => {
+    if (controller.signal.aborted || !chatRef.current) return;
+    setMessages(prev => [...prev, reply]);
+    try {
+      const stream = await chatRef.current.sendMessageStream({
+        message,
+        roundEvent,
+        config: { abortSignal: controller.signal },
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        if (chunk.text) {
+          updateMessage(reply.id, m => ({ ...m, content: m.content + chunk.text, status: MessageStatus.STREAMING }));
+        }
+      }
+      // Replies with nothing in them aren't worth showing.
+      updateMessage(reply.id, m => !m.content.trim() ? null
+        : { ...m, status: controller.signal.aborted ? MessageStatus.CANCELLED : MessageStatus.DONE });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateMessage(reply.id, m => m.content.trim() ? { ...m, status: MessageStatus.CANCELLED } : null);
+      } else {
+        console.error("Error sending message:", error);
+        updateMessage(reply.id, m => ({
+          ...m,
+          status: MessageStatus.FAILED,
+          error: error instanceof Error ? error.message : "Sorry, I encountered an error.",
+          retry: { message, roundEvent },
+        }));
+      }
+    } finally {
+      pendingRepliesRef.current.delete(reply.id);
+      setIsLoading(pendingRepliesRef.current.size > 0);
     }
-    
+  }, [updateMessage]);
+
+  // Asks the backend for a clue written apart from the chat, which never sees the answer in this mode.
+  const fetchClue = useCallback(async (reply: ChatMessage, liveRoundId: string, controller: AbortController) => {
+    if (controller.signal.aborted) return;
+    setMessages(prev => [...prev, reply]);
     try {
-      const response: GenerateContentResponse = await chatRef.current.sendMessage({ message });
-      const responseText = response.text;
-      if (responseText && responseText.trim()) {
-        setMessages(prev => [...prev, { role: Role.MODEL, content: responseText }]);
+      const clue = await getRoundBackend().getClue(liveRoundId, category, cluesRef.current);
+      if (controller.signal.aborted) {
+        updateMessage(reply.id, () => null);
+        return;
       }
+      cluesRef.current = [...cluesRef.current, clue];
+      updateMessage(reply.id, m => ({ ...m, content: clue, status: MessageStatus.DONE }));
     } catch (error) {
-      console.error("Error sending message:", error);
-      const errorMessage = error instanceof Error ? error.message : "Sorry, I encountered an error.";
-      setMessages(prev => [...prev, { role: Role.SYSTEM, content: errorMessage }]);
+      console.error("Error getting a clue:", error);
+      updateMessage(reply.id, m => controller.signal.aborted ? null : {
+        ...m,
+        status: MessageStatus.FAILED,
+        error: error instanceof Error ? error.message : "Sorry, I couldn't think of a clue.",
+      });
     } finally {
-      setIsLoading(false);
+      pendingRepliesRef.current.delete(reply.id);
+      setIsLoading(pendingRepliesRef.current.size > 0);
     }
-  }, [isLoading]);
+  }, [category, updateMessage]);
 
-  const sendGameEvent = useCallback(async (event: { forUser?: string; forAI?: string }) => {
+  // Queues a reply after the ones already asked for, shown as pending until its turn comes.
+  const queueReply = useCallback((message: string | null, write: (reply: ChatMessage, controller: AbortController) => Promise<void>): Promise<void> => {
+    const tag = roundId ?? undefined;
+    if (message !== null) {
+        setInput('');
+        setMessages(prev => [...prev, createMessage(Role.USER, message, tag)]);
+    }
+    const reply = createMessage(Role.MODEL, '', tag, MessageStatus.PENDING);
+    const controller = new AbortController();
+    pendingRepliesRef.current.set(reply.id, controller);
+    setIsLoading(true);
+    const next = replyQueueRef.current.then(() => write(reply, controller));
+    replyQueueRef.current = next;
+    return next;
+  }, [roundId]);
+
+  // roundEvent is passed on to the backend, which adds that round's answer to the message.
+  const sendMessage = useCallback((message: string, isUserMessage: boolean = false, roundEvent?: RoundChatEvent): Promise<void> => {
+    if (!chatRef.current) return Promise.resolve();
+    return queueReply(isUserMessage ? message : null, (reply, controller) => streamReply(reply, message, roundEvent, controller));
+  }, [queueReply, streamReply]);
+
+  const retryReply = (failed: ChatMessage) => {
+    if (!failed.retry) return;
+    setMessages(prev => prev.filter(message => message.id !== failed.id));
+    sendMessage(failed.retry.message, false, failed.retry.roundEvent);
+  };
+
+  const sendGameEvent = useCallback(async (event: { forUser?: string; forAI?: string; roundEvent?: RoundChatEvent }) => {
     if (event.forUser) {
-        setMessages(prev => [...prev, { role: Role.GAME_EVENT, content: event.forUser }]);
+        setMessages(prev => [...prev, createMessage(Role.GAME_EVENT, event.forUser!, roundId ?? undefined)]);
     }
     if (event.forAI) {
-        await sendMessage(event.forAI, false);
+        await sendMessage(event.forAI, false, event.roundEvent);
     }
-  }, [sendMessage]);
+  }, [sendMessage, roundId]);
   
   const sendSystemContext = useCallback(async (context: string) => {
     if (!chatRef.current) return;
@@ -273,7 +487,9 @@ const ChatPanel = forwardRef<ChatPanelRef, ChatPanelProps>((props, ref) => {
     reset: handleReset,
     sendGameEvent: sendGameEvent,
     sendSystemContext: sendSystemContext,
-  }), [handleReset, sendGameEvent, sendSystemContext]);
+    startRound: startRound,
+    cancelReplies: cancelReplies,
+  }), [handleReset, sendGameEvent, sendSystemContext, startRound, cancelReplies]);
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -284,17 +500,31 @@ const ChatPanel = forwardRef<ChatPanelRef, ChatPanelProps>((props, ref) => {
 
   const handleClue = () => {
     if (!isLoading && gameStatus === GameStatus.PLAYING) {
-      sendMessage("give me a clue", true);
+      onClueRequested();
+      const liveRoundId = liveRoundIdRef.current;
+      if (chatAnswerMode === ChatAnswerMode.HIDDEN && liveRoundId) {
+        queueReply(CLUE_REQUEST, (reply, controller) => fetchClue(reply, liveRoundId, controller));
+      } else {
+        sendMessage(CLUE_REQUEST, true);
+      }
     }
   };
 
   const renderNextButton = () => {
+    const queueNote = !queueStatus ? null
+      : queueStatus.ready > 0 ? `${queueStatus.ready} ${queueStatus.ready === 1 ? 'round' : 'rounds'} ready`
+      : queueStatus.isFilling ? 'Making the next round...'
+      : null;
+    const queueError = queueStatus && !queueNote && queueStatus.lastError
+      ? `Couldn't make the next round ahead of time. ${queueStatus.lastError}` : null;
     return (
       <div className="w-full">
           <button onClick={onNextGame} className="h-12 w-full px-6 flex items-center justify-center gap-3 bg-transparent border border-neutral-600 text-white rounded-md hover:bg-neutral-800 transition-colors">
             <ArrowRight className="w-5 h-5" />
             <span>Next</span>
           </button>
+          {queueNote && <p className="mt-2 text-center text-sm text-neutral-500" aria-live="polite">{queueNote}</p>}
+          {queueError && <p className="mt-2 text-center text-sm text-red-400" role="alert">{queueError}</p>}
       </div>
     );
   }
@@ -311,39 +541,77 @@ const ChatPanel = forwardRef<ChatPanelRef, ChatPanelProps>((props, ref) => {
     </button>
   );
 
+  const renderHintButtons = () => (
+    <div className="flex gap-2">
+      {HINT_BUTTONS.map(({ type, label }) => {
+        const cost = HINT_COSTS[type];
+        const isUnavailable = gameStatus !== GameStatus.PLAYING || (type === HintType.YEAR && !hasYear);
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onHint(type)}
+            disabled={isUnavailable}
+            className="h-9 flex-1 px-2 flex items-center justify-center gap-2 bg-transparent border border-neutral-700 text-sm text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            title={`Takes ${cost} points off this round`}
+          >
+            <span>{label}</span>
+            {cost > 0 && <span className="text-neutral-500 font-mono text-xs">-{cost}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+
   const isGameOver = gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST;
-  const isInputAreaDisabled = gameStatus === GameStatus.IDLE || isGameOver || gameStatus === GameStatus.LOADING;
+  const isInputAreaDisabled = gameStatus === GameStatus.IDLE || isGameOver || gameStatus === GameStatus.LOADING || gameStatus === GameStatus.MATCH_OVER || gameStatus === GameStatus.DAILY_OVER;
 
 
   return (
     <div className="flex flex-col h-full bg-black">
       {/* Scrollable chat messages */}
       <div className="flex-1 overflow-y-auto px-4 pt-4 space-y-4 min-h-0">
-        {messages.map((msg, index) => {
-           if (msg.role === Role.SYSTEM) {
-            return ( <div key={index} className="text-center text-red-400 text-sm p-2">{msg.content}</div> );
+        {messages.map(msg => {
+          if (msg.role === Role.GAME_EVENT) {
+            return ( <div key={msg.id} className="text-center text-neutral-500 text-sm py-2">{msg.content}</div> );
           }
 
-          if (msg.role === Role.GAME_EVENT) {
-            return ( <div key={index} className="text-center text-neutral-500 text-sm py-2">{msg.content}</div> );
+          if (msg.status === MessageStatus.PENDING) {
+            return ( <div key={msg.id} className="text-lg text-white animate-pulse">...</div> );
+          }
+
+          if (msg.status === MessageStatus.FAILED) {
+            return (
+              <div key={msg.id} className="flex flex-col items-center gap-2 text-center text-red-400 text-sm p-2">
+                {msg.content && <MessageContent content={msg.content} />}
+                <span>{msg.error}</span>
+                {msg.retry && (
+                  <button
+                    type="button"
+                    onClick={() => retryReply(msg)}
+                    disabled={isLoading}
+                    className="flex items-center gap-1 text-neutral-400 hover:enabled:text-white disabled:opacity-30 transition-colors"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    <span>Retry</span>
+                  </button>
+                )}
+              </div>
+            );
           }
 
           const containerClasses = `flex flex-col ${msg.role === Role.USER ? 'items-end' : 'items-start w-full'}`;
           const contentClasses = `max-w-full break-words rounded-md ${msg.role === Role.MODEL ? 'text-white w-full' : 'text-white text-lg'}`;
 
           return (
-            <div key={index} className={containerClasses}>
+            <div key={msg.id} className={containerClasses}>
                 <div className={contentClasses}>
                     {msg.role === Role.MODEL ? <MessageContent content={msg.content} /> : msg.content}
                 </div>
+                {msg.status === MessageStatus.CANCELLED && <span className="text-xs text-neutral-600">Stopped when the round ended.</span>}
             </div>
           );
         })}
-        {isLoading && (
-           <div className="flex items-start">
-             <div className="text-lg text-white animate-pulse">...</div>
-           </div>
-        )}
         <div ref={messagesEndRef} />
       </div>
       
@@ -351,30 +619,46 @@ const ChatPanel = forwardRef<ChatPanelRef, ChatPanelProps>((props, ref) => {
       <div className="flex-shrink-0 flex flex-col gap-3 px-4 pt-3 pb-4 border-t border-neutral-700">
         <div className="flex justify-between items-baseline w-full">
             <div className={`transition-colors text-xs uppercase tracking-wider ${isInputAreaDisabled ? 'text-neutral-600' : 'text-neutral-400'}`}>
-                Guess the movie
+                {guessLabel ?? `Guess the ${category.noun}`}
             </div>
             <div className="flex items-center gap-3 font-mono text-sm">
               <span className={`text-neutral-400 transition-opacity duration-300 ${gameStatus === GameStatus.PLAYING ? 'opacity-100' : 'opacity-0'}`} title="Time Left">
                 {`0:${timeLeft.toString().padStart(2, '0')}`}
               </span>
-              <span className={`text-green-400 transition-opacity duration-300 ${(gameStatus !== GameStatus.IDLE || score > 0) ? 'opacity-100' : 'opacity-0'}`} title="Correct Guesses">
+              <span className={`text-green-400 transition-opacity duration-300 ${(gameStatus !== GameStatus.IDLE || score > 0) ? 'opacity-100' : 'opacity-0'}`} title="Score">
                 {score}
               </span>
             </div>
         </div>
 
-        <GuessInput 
-          gameStatus={gameStatus}
-          answer={answer}
-          guessValue={guessValue}
-          isWrongGuess={isWrongGuess}
-          onGuessChange={onGuessChange}
-        />
+        {guessMode === GuessMode.FREE_TEXT ? (
+          <FreeTextGuessInput
+            gameStatus={gameStatus}
+            answer={answer}
+            guessValue={guessValue}
+            isWrongGuess={isWrongGuess}
+            isLocked={isGuessLocked}
+            onGuessChange={onGuessChange}
+            onGuessSubmit={onGuessSubmit}
+          />
+        ) : (
+          <GuessInput 
+            gameStatus={gameStatus}
+            answer={answer}
+            guessValue={guessValue}
+            isWrongGuess={isWrongGuess}
+            revealedIndices={revealedIndices}
+            isLocked={isGuessLocked}
+            onGuessChange={onGuessChange}
+          />
+        )}
         
         {isGameOver && renderNextButton()}
 
         {!isGameOver && renderClueButton()}
 
+        {!isGameOver && renderHintButtons()}
+
         <form onSubmit={handleSubmit} className="flex items-center gap-2 flex-shrink-0">
           <input
             type="text"
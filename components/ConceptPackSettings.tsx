@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { ConceptPack } from '../types';
+import { addConceptPack, ConceptPackError, readConceptPackFile, serializeConceptPack } from '../services/conceptPackService';
+
+interface ConceptPackSettingsProps {
+  packs: ConceptPack[];
+  enabledPackIds: string[];
+  onPacksChange: (packs: ConceptPack[]) => void;
+  onEnabledPackIdsChange: (ids: string[]) => void;
+}
+
+const MAX_PROBLEMS_SHOWN = 5;
+
+const downloadPack = (pack: ConceptPack) => {
+  const url = URL.createObjectURL(new Blob([serializeConceptPack(pack)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ConceptPackSettings: React.FC<ConceptPackSettingsProps> = ({ packs, enabledPackIds, onPacksChange, onEnabledPackIdsChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [imported, setImported] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again after fixing it.
+    if (!file) return;
+    setProblems([]);
+    setImported(null);
+    try {
+      const pack = await readConceptPackFile(file);
+      onPacksChange(addConceptPack(packs, pack));
+      if (!enabledPackIds.includes(pack.id)) {
+        onEnabledPackIdsChange([...enabledPackIds, pack.id]);
+      }
+      setImported(`Imported "${pack.name}" with ${pack.concepts.length} concepts.`);
+    } catch (err) {
+      console.error("Failed to import concept pack:", err);
+      setProblems(err instanceof ConceptPackError ? err.problems : ["The pack couldn't be read."]);
+    }
+  };
+
+  const togglePack = (id: string) => {
+    onEnabledPackIdsChange(enabledPackIds.includes(id) ? enabledPackIds.filter(p => p !== id) : [...enabledPackIds, id]);
+  };
+
+  const removePack = (pack: ConceptPack) => {
+    if (!window.confirm(`Remove the pack "${pack.name}"?`)) return;
+    onPacksChange(packs.filter(p => p.id !== pack.id));
+    onEnabledPackIdsChange(enabledPackIds.filter(id => id !== pack.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {packs.length === 0 && (
+        <p className="text-sm text-neutral-500">No packs yet. Import a pack file to play its concepts.</p>
+      )}
+      {packs.map(pack => (
+        <div key={pack.id} className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            className="mt-1.5 accent-blue-500"
+            checked={enabledPackIds.includes(pack.id)}
+            onChange={() => togglePack(pack.id)}
+            aria-label={`Use ${pack.name}`}
+          />
+          <span className="flex-1 min-w-0">
+            <span className="text-white">{pack.name}</span>
+            <span className="block text-sm text-neutral-500">
+              {pack.concepts.length} concepts{pack.author ? ` by ${pack.author}` : ''}{pack.description ? `. ${pack.description}` : ''}
+            </span>
+          </span>
+          <button onClick={() => downloadPack(pack)} className="mt-1 text-neutral-500 hover:text-white transition-colors" aria-label={`Export ${pack.name}`} title="Export">
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={() => removePack(pack)} className="mt-1 text-neutral-500 hover:text-white transition-colors" aria-label={`Remove ${pack.name}`} title="Remove">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="h-10 px-4 flex items-center gap-2 bg-transparent border border-neutral-700 text-neutral-400 rounded-md hover:bg-neutral-800 hover:text-white transition-colors"
+      >
+        <Upload className="w-4 h-4" />
+        <span>Import pack</span>
+      </button>
+      {imported && <p className="text-sm text-green-400">{imported}</p>}
+      {problems.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {problems.slice(0, MAX_PROBLEMS_SHOWN).map(problem => <li key={problem}>{problem}</li>)}
+          {problems.length > MAX_PROBLEMS_SHOWN && <li>...and {problems.length - MAX_PROBLEMS_SHOWN} more.</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ConceptPackSettings;
@@ -1,37 +1,253 @@
 
-import React from 'react';
-import { GameStatus } from '../types';
-import { Repeat, ArrowRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { GameStatus, CategoryDefinition, DailyAttempt, ImageReveal, MatchParticipant, PublicRound, SketchError } from '../types';
+import { Repeat, ArrowRight, Trophy, Users, LogOut, CalendarDays, Copy, Images } from 'lucide-react';
+import { buildDailyShareText } from '../services/dailyService';
+import ObscuredImage from './ObscuredImage';
+import P5Canvas from './P5Canvas';
 
 interface GamePanelProps {
   gameStatus: GameStatus;
-  imageUrl: string;
+  round: PublicRound | null; // The round on screen. Sketch rounds are drawn by their code instead of showing images.
+  sketchProgress: number; // How far the sketch has built up, from 0 to 1
+  onSketchError: (errors: SketchError[]) => void;
+  onSketchSnapshot: (imageUrl: string) => void;
+  shownImageCount: number;
+  onRevealNextImage: () => void;
+  imageReveal: ImageReveal;
+  obscurity: number; // How hidden the image is in reveal mode, from 1 down to 0
+  category: CategoryDefinition;
   error: string | null;
   loadingMessage: string;
   onStartNewGame: () => void;
+  startLabel: string;
+  startNote: string | null;
+  standings: MatchParticipant[] | null;
+  onPlayMatchAgain: () => void;
+  onSetUpMatch: () => void;
+  onEndMatch: () => void;
+  dailyResult: DailyAttempt | null;
+  onEndDaily: () => void;
 }
 
+const PODIUM_STYLES = [
+  { medal: '🥇', height: 'h-28', border: 'border-yellow-500' },
+  { medal: '🥈', height: 'h-20', border: 'border-neutral-400' },
+  { medal: '🥉', height: 'h-14', border: 'border-orange-700' },
+];
+
+// Shown once a local match has played all its rounds: the top three on a podium, then everyone else.
+const Podium: React.FC<{
+  standings: MatchParticipant[];
+  onPlayAgain: () => void;
+  onSetUp: () => void;
+  onEnd: () => void;
+}> = ({ standings, onPlayAgain, onSetUp, onEnd }) => {
+  const top = standings.slice(0, 3);
+  // Second place on the left, winner in the middle, third on the right.
+  const podiumOrder = [top[1], top[0], top[2]].filter(Boolean);
+  const buttonClasses = "h-10 px-4 flex items-center justify-center gap-2 bg-transparent border border-neutral-400 text-white rounded-md hover:bg-neutral-800 transition-colors";
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 w-full max-w-md animate-fade-in">
+      <div className="flex items-center gap-2 text-white text-2xl">
+        <Trophy className="w-6 h-6 text-yellow-400" />
+        <span>{standings[0].name} wins!</span>
+      </div>
+      <div className="flex items-end justify-center gap-3 w-full">
+        {podiumOrder.map(participant => {
+          const place = standings.indexOf(participant);
+          const style = PODIUM_STYLES[place];
+          return (
+            <div key={participant.id} className="flex flex-col items-center gap-1 flex-1 min-w-0">
+              <span className="text-3xl">{style.medal}</span>
+              <span className="text-white truncate max-w-full">{participant.name}</span>
+              <span className="font-mono text-green-400">{participant.score}</span>
+              <div className={`w-full ${style.height} border-t-2 ${style.border} bg-neutral-900 rounded-t-md`} />
+            </div>
+          );
+        })}
+      </div>
+      {standings.length > 3 && (
+        <ol start={4} className="w-full text-sm text-neutral-400 space-y-1 list-decimal list-inside">
+          {standings.slice(3).map(participant => (
+            <li key={participant.id}>
+              {participant.name} <span className="font-mono text-green-400">{participant.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        <button onClick={onPlayAgain} className={buttonClasses}>
+          <Repeat className="w-4 h-4" />
+          <span>Play again</span>
+        </button>
+        <button onClick={onSetUp} className={buttonClasses}>
+          <Users className="w-4 h-4" />
+          <span>New match</span>
+        </button>
+        <button onClick={onEnd} className={buttonClasses}>
+          <LogOut className="w-4 h-4" />
+          <span>Solo</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Shown once the daily challenge has been played. The result can be copied and shared without giving away any answers.
+const DailySummary: React.FC<{ attempt: DailyAttempt; onEnd: () => void }> = ({ attempt, onEnd }) => {
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const shareText = buildDailyShareText(attempt);
+  const buttonClasses = "h-10 px-4 flex items-center justify-center gap-2 bg-transparent border border-neutral-400 text-white rounded-md hover:bg-neutral-800 transition-colors";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareText);
+      setCopyState('copied');
+    } catch (e) {
+      console.error("Failed to copy the daily result:", e);
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 w-full max-w-md animate-fade-in">
+      <div className="flex items-center gap-2 text-white text-2xl">
+        <CalendarDays className="w-6 h-6" />
+        <span>Daily challenge done</span>
+      </div>
+      <pre className="w-full whitespace-pre-wrap text-center text-white font-sans border border-neutral-700 rounded-md p-4">{shareText}</pre>
+      <p className="text-sm text-neutral-500">
+        {copyState === 'failed' ? "Couldn't copy. Select the text above instead." : 'A new challenge starts at midnight.'}
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        <button onClick={handleCopy} className={buttonClasses}>
+          <Copy className="w-4 h-4" />
+          <span>{copyState === 'copied' ? 'Copied!' : 'Copy result'}</span>
+        </button>
+        <button onClick={onEnd} className={buttonClasses}>
+          <LogOut className="w-4 h-4" />
+          <span>Solo</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Escalating rounds: one dot per image, for flicking back to the ones already shown, and a button for the next.
+const ImageStrip: React.FC<{
+  count: number;
+  shownCount: number;
+  viewedIndex: number;
+  canRevealMore: boolean;
+  onView: (index: number) => void;
+  onRevealNext: () => void;
+}> = ({ count, shownCount, viewedIndex, canRevealMore, onView, onRevealNext }) => (
+  <div className="absolute bottom-3 inset-x-0 z-20 flex justify-center items-center gap-2">
+    {[...Array(count)].map((_, i) => (
+      <button
+        key={i}
+        onClick={() => onView(i)}
+        disabled={i >= shownCount}
+        className={`w-2.5 h-2.5 rounded-full transition-colors ${i === viewedIndex ? 'bg-white' : i < shownCount ? 'bg-neutral-500 hover:bg-neutral-300' : 'bg-neutral-800'}`}
+        aria-label={i < shownCount ? `Show image ${i + 1}` : `Image ${i + 1} is still hidden`}
+      />
+    ))}
+    {canRevealMore && (
+      <button
+        onClick={onRevealNext}
+        className="ml-2 h-8 px-3 flex items-center gap-2 text-sm bg-black/70 border border-neutral-600 text-white rounded-md hover:bg-neutral-800 transition-colors"
+      >
+        <Images className="w-4 h-4" />
+        <span>Next image</span>
+      </button>
+    )}
+  </div>
+);
+
+const NO_IMAGES: string[] = [];
+
 const GamePanel: React.FC<GamePanelProps> = ({
   gameStatus,
-  imageUrl,
+  round,
+  sketchProgress,
+  onSketchError,
+  onSketchSnapshot,
+  shownImageCount,
+  onRevealNextImage,
+  imageReveal,
+  obscurity,
+  category,
   error,
   loadingMessage,
   onStartNewGame,
+  startLabel,
+  startNote,
+  standings,
+  onPlayMatchAgain,
+  onSetUpMatch,
+  onEndMatch,
+  dailyResult,
+  onEndDaily,
 }) => {
   const showInitialOverlay = gameStatus === GameStatus.IDLE || gameStatus === GameStatus.LOADING;
-  const showImage = gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST;
+  const showImage = gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.WON || gameStatus === GameStatus.LOST || gameStatus === GameStatus.MATCH_OVER || gameStatus === GameStatus.DAILY_OVER;
+  // An earlier image picked from the strip. Null follows the newest image shown.
+  const [viewedIndex, setViewedIndex] = useState<number | null>(null);
+  const imageUrls = round?.imageUrls ?? NO_IMAGES;
+  const sketchCode = round?.sketchCode;
+  useEffect(() => setViewedIndex(null), [imageUrls, shownImageCount]);
+  const currentIndex = viewedIndex ?? Math.max(0, Math.min(shownImageCount, imageUrls.length) - 1);
+  const imageUrl = imageUrls[currentIndex];
 
   return (
     <div className="w-full h-full flex justify-center items-center bg-black rounded-lg relative shadow-2xl shadow-blue-500/10 overflow-hidden border border-neutral-800">
       
-      {showImage && imageUrl && (
+      {showImage && sketchCode && (
+        <P5Canvas code={sketchCode} progress={sketchProgress} onScriptError={onSketchError} onSnapshot={onSketchSnapshot} />
+      )}
+
+      {showImage && imageUrl && (imageReveal === ImageReveal.OFF ? (
         <img 
+          key={imageUrl}
           src={imageUrl} 
-          alt="A pictionary image representing a movie title" 
+          alt={`A pictionary image representing a ${category.answerNoun}`} 
+          className="max-w-full max-h-full object-contain aspect-square animate-fade-in"
+        />
+      ) : (
+        <ObscuredImage
+          src={imageUrl}
+          alt={`A pictionary image representing a ${category.answerNoun}`}
+          mode={imageReveal}
+          obscurity={obscurity}
           className="max-w-full max-h-full object-contain aspect-square animate-fade-in"
         />
+      ))}
+
+      {showImage && imageUrls.length > 1 && (
+        <ImageStrip
+          count={imageUrls.length}
+          shownCount={shownImageCount}
+          viewedIndex={currentIndex}
+          canRevealMore={gameStatus === GameStatus.PLAYING && shownImageCount < imageUrls.length}
+          onView={setViewedIndex}
+          onRevealNext={onRevealNextImage}
+        />
       )}
       
+      {gameStatus === GameStatus.MATCH_OVER && standings && standings.length > 0 && (
+        <div className="absolute inset-0 z-30 flex justify-center items-center bg-black/90 overflow-y-auto">
+          <Podium standings={standings} onPlayAgain={onPlayMatchAgain} onSetUp={onSetUpMatch} onEnd={onEndMatch} />
+        </div>
+      )}
+
+      {gameStatus === GameStatus.DAILY_OVER && dailyResult && (
+        <div className="absolute inset-0 z-30 flex justify-center items-center bg-black/90 overflow-y-auto">
+          <DailySummary attempt={dailyResult} onEnd={onEndDaily} />
+        </div>
+      )}
+
       {showInitialOverlay && (
         <div className="absolute inset-0 z-30 flex justify-center items-center bg-black">
           {gameStatus === GameStatus.IDLE && (
@@ -45,10 +261,13 @@ const GamePanel: React.FC<GamePanelProps> = ({
                   </button>
                 </>
               ) : (
-                <button onClick={onStartNewGame} className="h-12 px-6 flex items-center justify-center gap-3 bg-transparent border border-neutral-400 text-white rounded-md hover:bg-neutral-800 transition-colors">
-                  <ArrowRight className="w-5 h-5" />
-                  <span>Start game</span>
-                </button>
+                <>
+                  <button onClick={onStartNewGame} className="h-12 px-6 flex items-center justify-center gap-3 bg-transparent border border-neutral-400 text-white rounded-md hover:bg-neutral-800 transition-colors">
+                    <ArrowRight className="w-5 h-5" />
+                    <span>{startLabel}</span>
+                  </button>
+                  {startNote && <p className="text-sm max-w-xs">{startNote}</p>}
+                </>
               )}
             </div>
           )}
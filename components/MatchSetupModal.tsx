@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { MatchConfig, MatchMode } from '../types';
+import { DEFAULT_BUZZ_KEYS, DEFAULT_MATCH_ROUNDS, MAX_MATCH_PARTICIPANTS, MIN_MATCH_PARTICIPANTS } from '../constants';
+
+interface MatchSetupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialConfig: MatchConfig | null;
+  onStartMatch: (config: MatchConfig) => void;
+}
+
+const MAX_ROUNDS = 20;
+
+const createDefaultConfig = (): MatchConfig => ({
+  mode: MatchMode.TURNS,
+  isTeams: false,
+  participants: [
+    { name: 'Player 1', buzzKey: DEFAULT_BUZZ_KEYS[0] },
+    { name: 'Player 2', buzzKey: DEFAULT_BUZZ_KEYS[1] },
+  ],
+  rounds: DEFAULT_MATCH_ROUNDS,
+});
+
+// Returns a reason the match can't start yet, or null when the setup is valid.
+const validate = (config: MatchConfig): string | null => {
+  const names = config.participants.map(p => p.name.trim().toLowerCase());
+  if (names.some(name => !name)) return 'Every player needs a name.';
+  if (new Set(names).size !== names.length) return 'Names must be different.';
+  if (config.mode === MatchMode.BUZZ_IN) {
+    const keys = config.participants.map(p => p.buzzKey.toLowerCase());
+    if (keys.some(key => key.length !== 1)) return 'Every player needs a single buzz key.';
+    if (new Set(keys).size !== keys.length) return 'Buzz keys must be different.';
+  }
+  return null;
+};
+
+const MatchSetupModal: React.FC<MatchSetupModalProps> = ({ isOpen, onClose, initialConfig, onStartMatch }) => {
+  const [config, setConfig] = useState<MatchConfig>(() => initialConfig ?? createDefaultConfig());
+
+  // Start from the last match's setup each time the dialog opens.
+  useEffect(() => {
+    if (isOpen) {
+      setConfig(initialConfig ?? createDefaultConfig());
+    }
+  }, [isOpen, initialConfig]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const noun = config.isTeams ? 'Team' : 'Player';
+  const validationError = validate(config);
+
+  const updateParticipant = (index: number, changes: Partial<MatchConfig['participants'][number]>) => {
+    setConfig(prev => ({
+      ...prev,
+      participants: prev.participants.map((p, i) => i === index ? { ...p, ...changes } : p),
+    }));
+  };
+
+  const addParticipant = () => {
+    setConfig(prev => {
+      const usedKeys = prev.participants.map(p => p.buzzKey);
+      return {
+        ...prev,
+        participants: [...prev.participants, {
+          name: `${noun} ${prev.participants.length + 1}`,
+          buzzKey: DEFAULT_BUZZ_KEYS.find(key => !usedKeys.includes(key)) ?? '',
+        }],
+      };
+    });
+  };
+
+  const removeParticipant = (index: number) => {
+    setConfig(prev => ({ ...prev, participants: prev.participants.filter((_, i) => i !== index) }));
+  };
+
+  const handleStart = () => {
+    if (validationError) return;
+    onStartMatch({
+      ...config,
+      participants: config.participants.map(p => ({ ...p, name: p.name.trim() })),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="relative bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl max-w-md w-full max-h-full overflow-y-auto p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors"
+          aria-label="Close match setup dialog"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="text-neutral-300 space-y-6">
+          <h2 className="text-sm text-white uppercase tracking-widest">Local match</h2>
+
+          <fieldset className="space-y-2">
+            <legend className="text-xs uppercase tracking-wider text-neutral-400 mb-2">Mode</legend>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" className="mt-1.5 accent-blue-500" checked={config.mode === MatchMode.TURNS} onChange={() => setConfig(prev => ({ ...prev, mode: MatchMode.TURNS }))} />
+              <span>
+                <span className="text-white">Pass and play</span>
+                <span className="block text-sm text-neutral-500">Take turns. Each image belongs to one {noun.toLowerCase()}.</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" className="mt-1.5 accent-blue-500" checked={config.mode === MatchMode.BUZZ_IN} onChange={() => setConfig(prev => ({ ...prev, mode: MatchMode.BUZZ_IN }))} />
+              <span>
+                <span className="text-white">Buzz in</span>
+                <span className="block text-sm text-neutral-500">Everyone sees the same image. Press your key to answer. A wrong answer locks you out for the round.</span>
+              </span>
+            </label>
+            <label className="flex items-center gap-3 cursor-pointer pt-2">
+              <input type="checkbox" className="accent-blue-500" checked={config.isTeams} onChange={(e) => setConfig(prev => ({ ...prev, isTeams: e.target.checked }))} />
+              <span className="text-white">Play as teams</span>
+            </label>
+          </fieldset>
+
+          <div className="space-y-2">
+            <div className="text-xs uppercase tracking-wider text-neutral-400">{noun}s</div>
+            {config.participants.map((participant, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={participant.name}
+                  onChange={(e) => updateParticipant(index, { name: e.target.value })}
+                  className="flex-grow h-10 px-3 bg-transparent border border-neutral-600 rounded-md text-white focus:outline-none focus:border-white transition-colors"
+                  aria-label={`${noun} ${index + 1} name`}
+                />
+                {config.mode === MatchMode.BUZZ_IN && (
+                  <input
+                    type="text"
+                    value={participant.buzzKey}
+                    maxLength={1}
+                    onChange={(e) => updateParticipant(index, { buzzKey: e.target.value })}
+                    className="w-10 h-10 text-center bg-transparent border border-neutral-600 rounded-md text-white font-mono focus:outline-none focus:border-white transition-colors"
+                    aria-label={`${noun} ${index + 1} buzz key`}
+                    title="Buzz key"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeParticipant(index)}
+                  disabled={config.participants.length <= MIN_MATCH_PARTICIPANTS}
+                  className="h-10 w-10 flex-shrink-0 flex items-center justify-center border border-neutral-700 rounded-md text-neutral-400 hover:enabled:bg-neutral-800 hover:enabled:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`Remove ${participant.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addParticipant}
+              disabled={config.participants.length >= MAX_MATCH_PARTICIPANTS}
+              className="h-10 px-4 flex items-center gap-2 border border-neutral-700 rounded-md text-neutral-300 hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add {noun.toLowerCase()}</span>
+            </button>
+          </div>
+
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-xs uppercase tracking-wider text-neutral-400">Rounds</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_ROUNDS}
+              value={config.rounds}
+              onChange={(e) => setConfig(prev => ({ ...prev, rounds: Math.min(MAX_ROUNDS, Math.max(1, Number(e.target.value) || 1)) }))}
+              className="w-20 h-10 px-3 bg-transparent border border-neutral-600 rounded-md text-white font-mono focus:outline-none focus:border-white transition-colors"
+            />
+          </label>
+
+          {validationError && <p className="text-sm text-red-400">{validationError}</p>}
+
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!!validationError}
+            className="h-12 w-full px-6 flex items-center justify-center bg-transparent border border-neutral-400 text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          >
+            Start match
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchSetupModal;
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ImageReveal } from '../types';
+
+interface ObscuredImageProps {
+  src: string;
+  alt: string;
+  mode: ImageReveal;
+  obscurity: number; // 0 shows the image as it is, 1 hides as much as the mode allows
+  className?: string;
+}
+
+const MAX_BLUR = 0.05; // As a share of the image width
+const MAX_PIXEL_SIZE = 0.1; // Likewise, so the most pixelated image is about 10 pixels across
+const TILE_GRID = 6;
+
+// Random order in which the tiles are lifted, fixed for each image.
+const shuffleTiles = (): number[] => {
+  const order = [...Array(TILE_GRID * TILE_GRID).keys()];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+const draw = (canvas: HTMLCanvasElement, image: HTMLImageElement, mode: ImageReveal, obscurity: number, tileOrder: number[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.save();
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (mode === ImageReveal.BLUR && obscurity > 0) {
+    ctx.filter = `blur(${Math.round(obscurity * MAX_BLUR * width)}px)`;
+    ctx.drawImage(image, 0, 0, width, height);
+  } else if (mode === ImageReveal.PIXELATE && obscurity > 0) {
+    // Shrink the image onto a small canvas, then scale it back up without smoothing.
+    const pixelSize = Math.max(1, obscurity * MAX_PIXEL_SIZE * width);
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(width / pixelSize));
+    small.height = Math.max(1, Math.round(height / pixelSize));
+    small.getContext('2d')?.drawImage(image, 0, 0, small.width, small.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small, 0, 0, width, height);
+  } else if (mode === ImageReveal.TILES && obscurity > 0) {
+    const shown = Math.round((1 - obscurity) * tileOrder.length);
+    const tileWidth = width / TILE_GRID;
+    const tileHeight = height / TILE_GRID;
+    tileOrder.slice(0, shown).forEach(tile => {
+      const x = (tile % TILE_GRID) * tileWidth;
+      const y = Math.floor(tile / TILE_GRID) * tileHeight;
+      const sx = x * image.naturalWidth / width;
+      const sy = y * image.naturalHeight / height;
+      ctx.drawImage(image, sx, sy, image.naturalWidth / TILE_GRID, image.naturalHeight / TILE_GRID, x, y, tileWidth, tileHeight);
+    });
+  } else {
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+  ctx.restore();
+};
+
+// Draws the round's image onto a canvas with part of it hidden. The page only ever holds the
+// obscured pixels, so the effect can't be undone by editing the styles in the developer tools.
+const ObscuredImage: React.FC<ObscuredImageProps> = ({ src, alt, mode, obscurity, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const tileOrder = useMemo(() => shuffleTiles(), [src]);
+
+  useEffect(() => {
+    setImage(null);
+    const loading = new Image();
+    loading.onload = () => setImage(loading);
+    loading.onerror = () => console.error("Failed to load the round's image.");
+    loading.src = src;
+    return () => {
+      loading.onload = null;
+      loading.onerror = null;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    if (canvas.width !== image.naturalWidth || canvas.height !== image.naturalHeight) {
+      canvas.width = image.naturalWidth || 1024;
+      canvas.height = image.naturalHeight || 1024;
+    }
+    draw(canvas, image, mode, Math.min(1, Math.max(0, obscurity)), tileOrder);
+  }, [image, mode, obscurity, tileOrder]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className={className} />;
+};
+
+export default ObscuredImage;
@@ -0,0 +1,288 @@
+import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { ArrowRight, LogOut, Crown, Check } from 'lucide-react';
+import { CategoryDefinition, DifficultyDefinition, MatchStrictness, RoomPlayer } from '../types';
+import { getRoundBackend } from '../services/roundService';
+import { applyRoomMessage, connectToRoom, getRoomServerUrl, RoomConnection, RoomJoinRequest } from '../services/roomClient';
+import { playCorrectSound, playDrawingReadySound, playGameOverSound, playWrongGuessSound } from '../services/soundService';
+
+interface OnlineRoomProps {
+  request: RoomJoinRequest;
+  category: CategoryDefinition;
+  imageStyle: string;
+  difficulty: DifficultyDefinition;
+  roundTime: number;
+  matchStrictness: MatchStrictness;
+  excludedConcepts: string[];
+  onLeave: () => void;
+}
+
+const PlayerList: React.FC<{ players: RoomPlayer[]; playerId: string }> = ({ players, playerId }) => (
+  <ul className="space-y-1 text-sm">
+    {[...players].sort((a, b) => b.score - a.score).map(player => (
+      <li key={player.id} className={`flex items-center gap-2 ${player.id === playerId ? 'text-white' : 'text-neutral-400'}`}>
+        {player.isHost ? <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" /> : <span className="w-4" />}
+        <span className="flex-1 truncate">{player.name}</span>
+        {player.hasSolved && <Check className="w-4 h-4 text-green-400" aria-label="Solved" />}
+        <span className="font-mono text-green-400">{player.score}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+// Empty boxes, one per letter, grouped by word.
+const AnswerMask: React.FC<{ wordLengths: number[] }> = ({ wordLengths }) => (
+  <div className="flex flex-wrap justify-center gap-x-4 gap-y-2">
+    {wordLengths.map((length, wordIndex) => (
+      <div key={wordIndex} className="flex gap-1">
+        {[...Array(length)].map((_, i) => (
+          <span key={i} className="w-4 h-6 border-b-2 border-neutral-500" />
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+const OnlineRoom: React.FC<OnlineRoomProps> = ({
+  request,
+  category,
+  imageStyle,
+  difficulty,
+  roundTime,
+  matchStrictness,
+  excludedConcepts,
+  onLeave,
+}) => {
+  const [room, dispatch] = useReducer(applyRoomMessage, null);
+  const [error, setError] = useState<string | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [input, setInput] = useState('');
+  const [timeLeft, setTimeLeft] = useState(0);
+  const connectionRef = useRef<RoomConnection | null>(null);
+  // Server time minus local time, so the countdown follows the server's clock.
+  const clockOffsetRef = useRef(0);
+  const usedConceptsRef = useRef<string[]>([]);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const connection = connectToRoom(getRoomServerUrl(), request, {
+      onMessage: message => {
+        if (message.type === 'error') {
+          setError(message.message);
+          return;
+        }
+        if (message.type === 'round_started') {
+          clockOffsetRef.current = message.round.startedAt - Date.now();
+          setError(null);
+          playDrawingReadySound();
+        } else if (message.type === 'round_ended') {
+          playGameOverSound();
+        } else if (message.type === 'guess_result') {
+          if (message.isCorrect) {
+            playCorrectSound();
+          } else {
+            playWrongGuessSound();
+          }
+        }
+        dispatch(message);
+      },
+      onClose: reason => setConnectionError(reason),
+    });
+    connectionRef.current = connection;
+    return () => {
+      connection.close();
+      connectionRef.current = null;
+    };
+  }, [request]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [room?.chat.length]);
+
+  const round = room?.round ?? null;
+  const isRoundRunning = !!round && room?.reveal?.roundId !== round.id;
+
+  useEffect(() => {
+    if (!round || !isRoundRunning) {
+      setTimeLeft(0);
+      return;
+    }
+    const tick = () => {
+      const serverNow = Date.now() + clockOffsetRef.current;
+      setTimeLeft(Math.max(0, Math.ceil((round.endsAt - serverNow) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [round, isRoundRunning]);
+
+  const me = room?.players.find(p => p.id === room.playerId) ?? null;
+  const isHost = !!me?.isHost;
+  const isGuessing = isRoundRunning && !!me && !me.isHost && !me.hasSolved;
+
+  const startRound = useCallback(async () => {
+    if (!connectionRef.current || isGenerating) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      // The host runs the room, so it ends the round on the backend straight away and hands the answer to the room server.
+      const backend = getRoundBackend();
+      const round = await backend.createRound({
+        pastConcepts: [...excludedConcepts, ...usedConceptsRef.current],
+        imageStyle,
+        category,
+        difficulty,
+      });
+      await backend.endRound(round.id);
+      const { concept, aliases, explanation } = await backend.revealRound(round.id);
+      usedConceptsRef.current.push(concept);
+      connectionRef.current?.send({
+        type: 'start_round',
+        setup: {
+          imageUrl: round.imageUrl,
+          answerNoun: category.answerNoun,
+          roundTime,
+          answer: concept,
+          aliases,
+          explanation,
+          matchStrictness,
+        },
+      });
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [isGenerating, excludedConcepts, imageStyle, category, difficulty, roundTime, matchStrictness]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = input.trim();
+    if (!text || !connectionRef.current) return;
+    connectionRef.current.send(isGuessing ? { type: 'guess', text } : { type: 'chat', text });
+    setInput('');
+  };
+
+  if (connectionError || (!room && error)) {
+    return (
+      <div className="h-full w-full flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <p className="text-white max-w-sm">{connectionError ?? error}</p>
+        <button onClick={onLeave} className="h-10 px-6 flex items-center justify-center gap-2 bg-transparent border border-neutral-400 text-white rounded-md hover:bg-neutral-800 transition-colors">
+          <LogOut className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+      </div>
+    );
+  }
+
+  if (!room) {
+    return (
+      <div className="h-full w-full flex items-center justify-center">
+        <p className="text-3xl text-white animate-pulse">Connecting...</p>
+      </div>
+    );
+  }
+
+  const guessers = room.players.filter(p => !p.isHost);
+
+  return (
+    <div className="h-full w-full flex flex-col md:flex-row items-stretch overflow-hidden">
+      <div className="flex flex-col p-4 md:flex-1 order-1 md:order-2 h-1/2 md:h-full min-h-0 gap-3">
+        <div className="flex-1 flex justify-center items-center min-h-0 bg-black rounded-lg relative overflow-hidden border border-neutral-800">
+          {round && (
+            <img
+              src={round.imageUrl}
+              alt={`A pictionary image representing a ${round.answerNoun}`}
+              className="max-w-full max-h-full object-contain aspect-square animate-fade-in"
+            />
+          )}
+          {!isRoundRunning && (
+            <div className={`absolute inset-0 flex flex-col justify-center items-center gap-4 p-4 text-center ${round ? 'bg-black/80' : 'bg-black'}`}>
+              {room.reveal && (
+                <div className="space-y-2 max-w-md">
+                  <p className="text-2xl text-white">{room.reveal.answer}</p>
+                  <p className="text-sm text-neutral-400">{room.reveal.explanation}</p>
+                  <p className="text-sm text-neutral-500">
+                    {room.reveal.solvedBy.length > 0 ? `Solved by ${room.reveal.solvedBy.join(', ')}` : 'Nobody got it.'}
+                  </p>
+                </div>
+              )}
+              {isHost ? (
+                isGenerating ? (
+                  <p className="text-3xl text-white animate-pulse">Generating...</p>
+                ) : (
+                  <button
+                    onClick={startRound}
+                    disabled={guessers.length === 0}
+                    className="h-12 px-6 flex items-center justify-center gap-3 bg-transparent border border-neutral-400 text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <ArrowRight className="w-5 h-5" />
+                    <span>{room.reveal ? 'Next round' : 'Start round'}</span>
+                  </button>
+                )
+              ) : (
+                <p className="text-neutral-500">Waiting for the host to start a round.</p>
+              )}
+              {isHost && guessers.length === 0 && (
+                <p className="text-sm text-neutral-500">Share the room code so others can join.</p>
+              )}
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+          )}
+        </div>
+        {round && isRoundRunning && (
+          <div className="flex items-center justify-between gap-4">
+            <AnswerMask wordLengths={round.wordLengths} />
+            <span className="font-mono text-neutral-400" title="Time Left">{`0:${timeLeft.toString().padStart(2, '0')}`}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col md:w-[450px] flex-shrink-0 order-2 md:order-1 h-1/2 md:h-full min-h-0 border-t md:border-t-0 md:border-r border-neutral-700">
+        <div className="px-4 pt-4 pb-3 flex justify-between items-center border-b border-neutral-700">
+          <div className="flex items-center gap-3">
+            <h1 className="text-sm text-white uppercase tracking-widest">Room</h1>
+            <span className="font-mono text-lg text-white tracking-widest" title="Room code">{room.code}</span>
+          </div>
+          <button
+            onClick={onLeave}
+            className="text-neutral-400 hover:text-white transition-colors"
+            aria-label="Leave room"
+            title="Leave room"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="px-4 py-3 border-b border-neutral-700">
+          <PlayerList players={room.players} playerId={room.playerId} />
+        </div>
+        <div className="flex-1 overflow-y-auto px-4 pt-4 space-y-2 min-h-0">
+          {room.chat.map(message => message.name === null ? (
+            <div key={message.id} className="text-center text-neutral-500 text-sm py-1">{message.text}</div>
+          ) : (
+            <div key={message.id} className="text-white break-words">
+              <span className="text-neutral-500">{message.name}: </span>{message.text}
+            </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+        <form onSubmit={handleSubmit} className="flex-shrink-0 flex items-center gap-2 px-4 pt-3 pb-4 border-t border-neutral-700">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={isGuessing ? `Guess the ${round!.answerNoun}...` : 'Chat...'}
+            className="flex-grow h-10 px-3 bg-transparent border border-neutral-600 rounded-md text-white focus:outline-none focus:border-white transition-colors"
+            aria-label={isGuessing ? 'Your guess' : 'Chat message'}
+          />
+        </form>
+        {room.lastGuess?.isCorrect && isRoundRunning && (
+          <p className="px-4 pb-3 -mt-2 text-sm text-green-400">Correct! +{room.lastGuess.points}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OnlineRoom;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { RoomJoinRequest } from '../services/roomClient';
+
+interface OnlineRoomModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultName: string;
+  onConnect: (request: RoomJoinRequest) => void;
+}
+
+const ROOM_CODE_LENGTH = 4;
+
+const OnlineRoomModal: React.FC<OnlineRoomModalProps> = ({ isOpen, onClose, defaultName, onConnect }) => {
+  const [name, setName] = useState(defaultName);
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(prev => prev || defaultName);
+    }
+  }, [isOpen, defaultName]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const trimmedName = name.trim();
+  const buttonClasses = "h-12 flex-1 px-4 flex items-center justify-center bg-transparent border border-neutral-400 text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="relative bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl max-w-md w-full max-h-full overflow-y-auto p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors"
+          aria-label="Close online play dialog"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="text-neutral-300 space-y-6">
+          <h2 className="text-sm text-white uppercase tracking-widest">Play online</h2>
+          <p className="text-sm text-neutral-500">
+            Create a room and share its code. As host you make the images and everyone else guesses.
+          </p>
+
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name"
+            maxLength={24}
+            className="w-full h-10 px-3 bg-transparent border border-neutral-600 rounded-md text-white focus:outline-none focus:border-white transition-colors"
+            aria-label="Your name"
+          />
+
+          <button
+            type="button"
+            onClick={() => onConnect({ name: trimmedName, code: null })}
+            disabled={!trimmedName}
+            className={`${buttonClasses} w-full`}
+          >
+            Create room
+          </button>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+              placeholder="CODE"
+              maxLength={ROOM_CODE_LENGTH}
+              className="w-28 h-12 px-3 bg-transparent border border-neutral-600 rounded-md text-white font-mono tracking-widest text-center focus:outline-none focus:border-white transition-colors"
+              aria-label="Room code"
+            />
+            <button
+              type="button"
+              onClick={() => onConnect({ name: trimmedName, code })}
+              disabled={!trimmedName || code.length !== ROOM_CODE_LENGTH}
+              className={buttonClasses}
+            >
+              Join room
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnlineRoomModal;
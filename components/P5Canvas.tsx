@@ -1,122 +1,292 @@
-
 import React, { useEffect, useRef, useCallback } from 'react';
+import p5Url from 'p5/lib/p5.min.js?url';
+import { SketchError, SketchErrorKind } from '../types';
+import { LOOP_GUARD, addLoopGuards, checkSketchCode } from '../services/sketchGuardService';
 
 interface P5CanvasProps {
   code: string;
   showBorder?: boolean;
-  onScriptError?: () => void;
+  progress?: number; // Passed to the sketch as roundProgress, from 0 to 1
+  onScriptError?: (errors: SketchError[]) => void; // Called once per sketch, with what stopped it
+  onSnapshot?: (imageUrl: string) => void; // A JPEG data URL of the canvas, sent every few seconds
 }
 
-const P5Canvas: React.FC<P5CanvasProps> = ({ code, showBorder = false, onScriptError }) => {
+const WATCHDOG_MS = 2500;
+const SNAPSHOT_INTERVAL_MS = 5000;
+const HEARTBEAT_MS = 1000;
+const UNRESPONSIVE_MS = 4000; // Without a heartbeat, the frame is stuck and gets replaced
+const MAX_FRAME_MS = 1000; // A loop still running after this long in one frame is stopped
+const SLOW_FRAME_MS = 200;
+const MAX_SLOW_FRAMES = 10; // In a row, before the sketch counts as too slow
+const CODE_PLACEHOLDER = '/*__SKETCH__*/';
+const BLANK_FRAME = `<html><body style="margin:0; background-color:#000;"></body></html>`;
+
+const KINDS = Object.values(SketchErrorKind);
+
+// Reports come from inside the frame, so they're checked like any other input.
+const toSketchErrors = (value: unknown): SketchError[] =>
+  (Array.isArray(value) ? value : []).flatMap((error: Partial<Record<keyof SketchError, unknown>>) => {
+    if (typeof error !== 'object' || error === null || !KINDS.includes(error.kind as SketchErrorKind)) return [];
+    return [{
+      kind: error.kind as SketchErrorKind,
+      message: typeof error.message === 'string' ? error.message : 'Unknown error',
+      ...(Number.isInteger(error.line) && { line: error.line as number }),
+      ...(Number.isInteger(error.column) && { column: error.column as number }),
+    }];
+  });
+
+const createNonce = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Keeps the sketch from closing its script tag or opening an HTML comment. Both only appear in
+// strings, regular expressions or comments in code that parses, where the escape changes nothing.
+const escapeForScript = (code: string): string => code.replace(/<\/(script)/gi, '<\\/$1').replace(/<!--/g, '<\\!--');
+
+// What the frame is running, and the channel the harness opened to talk to it.
+interface Session {
+  nonce: string;
+  port: MessagePort | null;
+  lastHeartbeat: number;
+  timers: number[];
+}
+
+const P5Canvas: React.FC<P5CanvasProps> = ({ code, showBorder = false, progress = 1, onScriptError, onSnapshot }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const errorTimeoutRef = useRef<number | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  // Kept in refs so a new callback or progress value doesn't restart the sketch.
+  const progressRef = useRef(progress);
+  const onScriptErrorRef = useRef(onScriptError);
+  const onSnapshotRef = useRef(onSnapshot);
+  onScriptErrorRef.current = onScriptError;
+  onSnapshotRef.current = onSnapshot;
 
-  const cleanupTimeout = useCallback(() => {
-    if (errorTimeoutRef.current) {
-      clearTimeout(errorTimeoutRef.current);
-      errorTimeoutRef.current = null;
-    }
+  const endSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.timers.forEach(timer => clearTimeout(timer));
+    session.port?.close();
+    sessionRef.current = null;
   }, []);
 
+  // Stops watching the sketch and passes on what went wrong. A sketch that hogs the page is
+  // replaced with a blank frame, which is the only way to stop it.
+  const fail = useCallback((errors: SketchError[]) => {
+    if (!sessionRef.current || errors.length === 0) return;
+    console.error("The p5.js sketch failed:", errors);
+    endSession();
+    if (errors.some(({ kind }) => kind === SketchErrorKind.TOO_SLOW || kind === SketchErrorKind.UNRESPONSIVE || kind === SketchErrorKind.NO_CANVAS)) {
+      if (iframeRef.current) iframeRef.current.srcdoc = BLANK_FRAME;
+    }
+    onScriptErrorRef.current?.(errors);
+  }, [endSession]);
+
+  const handlePortMessage = useCallback((event: MessageEvent) => {
+    const session = sessionRef.current;
+    const data = event.data as { type?: unknown; errors?: unknown; imageUrl?: unknown } | null;
+    if (!session) return;
+
+    if (data?.type === 'p5-heartbeat') {
+      session.lastHeartbeat = performance.now();
+    } else if (data?.type === 'p5-error') {
+      fail(toSketchErrors(data.errors));
+    } else if (data?.type === 'p5-success') {
+      // The canvas is up, so the start-up watchdog can stand down.
+      clearTimeout(session.timers[0]);
+    } else if (data?.type === 'p5-snapshot' && typeof data.imageUrl === 'string' && data.imageUrl.startsWith('data:image/jpeg')) {
+      onSnapshotRef.current?.(data.imageUrl);
+    }
+  }, [fail]);
+
   useEffect(() => {
+    // The only message taken from the frame's window is the harness's hello, which hands over a
+    // private port. Anything else the sketch posts to the page is ignored.
     const handleMessage = (event: MessageEvent) => {
-      // Basic security check: ensure the message comes from our iframe
-      if (event.source !== iframeRef.current?.contentWindow) return;
-
-      if (event.data === 'p5-error') {
-        console.error("p5.js runtime error detected from iframe.");
-        cleanupTimeout();
-        onScriptError?.();
-      } else if (event.data === 'p5-success') {
-        // Script initialized successfully, cancel the watchdog timer.
-        cleanupTimeout();
-      }
+      const session = sessionRef.current;
+      if (!session || session.port || event.source !== iframeRef.current?.contentWindow) return;
+      const data = event.data as { type?: unknown; nonce?: unknown } | null;
+      const [port] = event.ports;
+      if (data?.type !== 'p5-hello' || data.nonce !== session.nonce || !port) return;
+      session.port = port;
+      session.lastHeartbeat = performance.now();
+      port.onmessage = handlePortMessage;
     };
 
     window.addEventListener('message', handleMessage);
-    
+
     return () => {
       window.removeEventListener('message', handleMessage);
-      cleanupTimeout(); // Cleanup on unmount
+      endSession(); // Cleanup on unmount
     };
-  }, [onScriptError, cleanupTimeout]);
+  }, [handlePortMessage, endSession]);
 
+  useEffect(() => {
+    progressRef.current = progress;
+    sessionRef.current?.port?.postMessage({ type: 'p5-progress', progress });
+  }, [progress]);
 
   useEffect(() => {
     if (!iframeRef.current) return;
     const iframe = iframeRef.current;
 
-    // Always clean up the previous timer when code changes.
-    cleanupTimeout();
-    
+    // Always stop watching the previous sketch when code changes.
+    endSession();
+
     if (!code) {
-      iframe.srcdoc = `<html><body style="margin:0; background-color:#000;"></body></html>`;
+      iframe.srcdoc = BLANK_FRAME;
+      return;
+    }
+
+    const session: Session = { nonce: createNonce(), port: null, lastHeartbeat: performance.now(), timers: [] };
+    sessionRef.current = session;
+
+    // Code that tries to leave the sandbox, or doesn't parse, never runs.
+    const problems = checkSketchCode(code);
+    if (problems.length > 0) {
+      iframe.srcdoc = BLANK_FRAME;
+      fail(problems);
       return;
     }
 
     // Set a watchdog timer. If 'p5-success' isn't received in time, assume an error.
-    // This catches syntax errors or scripts that hang and never create a canvas.
-    errorTimeoutRef.current = window.setTimeout(() => {
-        console.warn("p5.js initialization timeout. Assuming a syntax or fatal error.");
-        onScriptError?.();
-    }, 2500); // 2.5 seconds should be plenty of time.
+    // This catches sketches that fail at startup or never create a canvas.
+    session.timers.push(window.setTimeout(() => {
+      console.warn("p5.js initialization timeout.");
+      fail([{ kind: SketchErrorKind.NO_CANVAS, message: `The sketch didn't create a canvas within ${WATCHDOG_MS / 1000} seconds.` }]);
+    }, WATCHDOG_MS));
+    // The frame's heartbeat stops when its page is stuck, whether or not the canvas is up.
+    session.timers.push(window.setInterval(() => {
+      if (performance.now() - session.lastHeartbeat > UNRESPONSIVE_MS) {
+        fail([{ kind: SketchErrorKind.UNRESPONSIVE, message: `The sketch stopped responding for more than ${UNRESPONSIVE_MS / 1000} seconds.` }]);
+      }
+    }, HEARTBEAT_MS));
 
-    const borderStyles = showBorder 
+    const borderStyles = showBorder
         ? `border: 1px solid #404040; box-sizing: border-box;` // neutral-700
         : '';
-    
+    // p5 is served with the app rather than from a CDN. The sandboxed frame has no origin of
+    // its own, so it needs the full URL.
+    const p5Src = new URL(p5Url, window.location.href).href;
+    const { nonce } = session;
+
     const html = `
       <!DOCTYPE html>
       <html lang="en">
         <head>
+          <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline'; img-src data: blob:">
           <style>
             html, body { margin: 0; padding: 0; width: 100%; height: 100%; overflow: hidden; background-color: #000; }
             main { width: 100%; height: 100%; display: flex; justify-content: center; align-items: center; }
             canvas { width: auto !important; height: auto !important; max-width: 100%; max-height: 100%; aspect-ratio: 1 / 1; ${borderStyles} }
           </style>
-          <script src="https://cdn.jsdelivr.net/npm/p5@1.9.2/lib/p5.js"><\/script>
-          <script src="https://cdn.jsdelivr.net/npm/p5@1.9.2/lib/addons/p5.sound.min.js"><\/script>
+          <script nonce="${nonce}" src="${p5Src}"><\/script>
         </head>
         <body>
-          <script>
-            // 1. Catch runtime errors
-            window.onerror = function() {
-              window.parent.postMessage('p5-error', '*');
-              return true; // Suppress default browser error console
-            };
-
-            // 2. Detect successful canvas creation
-            const observer = new MutationObserver((mutationsList) => {
-              for (const mutation of mutationsList) {
-                if (mutation.type === 'childList') {
-                  for (const node of mutation.addedNodes) {
-                    // A canvas being added to the body is our success signal
-                    if (node.tagName === 'CANVAS') {
-                      window.parent.postMessage('p5-success', '*');
-                      observer.disconnect(); // We're done
-                      return;
+          <script nonce="${nonce}">
+            // Wrapped so the sketch is free to use any name at the top level, and can't reach the port.
+            (function() {
+              window.roundProgress = ${Number(progressRef.current) || 0};
+
+              // 1. Open a private channel to the page. Bound now, so the sketch can't swap it out.
+              const channel = new MessageChannel();
+              const send = MessagePort.prototype.postMessage.bind(channel.port1);
+              const now = performance.now.bind(performance);
+              window.parent.postMessage({ type: 'p5-hello', nonce: '${nonce}' }, '*', [channel.port2]);
+              document.currentScript.remove();
+
+              let reported = false;
+              const report = function(error) {
+                if (reported) return;
+                reported = true;
+                send({ type: 'p5-error', errors: [error] });
+              };
+              setInterval(function() { send({ type: 'p5-heartbeat' }); }, ${HEARTBEAT_MS});
+
+              // 2. Catch errors, with line numbers counted from the sketch's first line
+              const where = function(line, column) {
+                return line >= SKETCH_FIRST_LINE ? { line: line - SKETCH_FIRST_LINE + 1, column: column } : {};
+              };
+              window.addEventListener('error', function(event) {
+                event.preventDefault(); // Suppress default browser error console
+                const name = event.error && event.error.name;
+                const kind = name === 'SketchTimeout' ? '${SketchErrorKind.TOO_SLOW}' : name === 'SyntaxError' ? '${SketchErrorKind.SYNTAX}' : '${SketchErrorKind.RUNTIME}';
+                report(Object.assign({ kind: kind, message: String(event.message) }, where(event.lineno, event.colno)));
+              });
+              window.addEventListener('unhandledrejection', function(event) {
+                report({ kind: '${SketchErrorKind.RUNTIME}', message: String(event.reason) });
+              });
+
+              // 3. Stop loops that run past the frame's budget, and sketches whose frames are all slow
+              let frameStart = now();
+              let iterations = 0;
+              let slowFrames = 0;
+              const startFrame = function() { frameStart = now(); };
+              Object.defineProperty(window, '${LOOP_GUARD}', {
+                value: function() {
+                  if (++iterations % 1000 === 0 && now() - frameStart > ${MAX_FRAME_MS}) {
+                    const error = new Error('A loop ran for more than ${MAX_FRAME_MS / 1000} seconds in one frame.');
+                    error.name = 'SketchTimeout';
+                    throw error;
+                  }
+                },
+              });
+              p5.prototype.registerMethod('beforeSetup', startFrame);
+              p5.prototype.registerMethod('pre', startFrame);
+              p5.prototype.registerMethod('post', function() {
+                slowFrames = now() - frameStart > ${SLOW_FRAME_MS} ? slowFrames + 1 : 0;
+                if (slowFrames >= ${MAX_SLOW_FRAMES}) {
+                  this.noLoop();
+                  report({ kind: '${SketchErrorKind.TOO_SLOW}', message: 'Each frame takes more than ${SLOW_FRAME_MS} ms to draw.' });
+                }
+              });
+
+              // 4. Follow the round, and send a picture of the canvas now and then and once it's finished
+              const sendSnapshot = function() {
+                const canvas = document.querySelector('canvas');
+                if (canvas) {
+                  send({ type: 'p5-snapshot', imageUrl: canvas.toDataURL('image/jpeg', 0.8) });
+                }
+              };
+              channel.port1.onmessage = function(event) {
+                if (event.data && event.data.type === 'p5-progress') {
+                  window.roundProgress = event.data.progress;
+                  if (event.data.progress >= 1) setTimeout(sendSnapshot, 200);
+                }
+              };
+
+              // 5. Detect successful canvas creation
+              const observer = new MutationObserver((mutationsList) => {
+                for (const mutation of mutationsList) {
+                  if (mutation.type === 'childList') {
+                    for (const node of mutation.addedNodes) {
+                      // A canvas being added to the body is our success signal
+                      if (node.tagName === 'CANVAS') {
+                        send({ type: 'p5-success' });
+                        setInterval(sendSnapshot, ${SNAPSHOT_INTERVAL_MS});
+                        observer.disconnect(); // We're done
+                        return;
+                      }
                     }
                   }
                 }
-              }
-            });
-            observer.observe(document.body, { childList: true, subtree: true });
-
-            // 3. Execute the user-provided code
-            try {
-              ${code}
-            } catch (e) {
-              // Re-throwing will be caught by window.onerror
-              throw e;
-            }
+              });
+              observer.observe(document.body, { childList: true, subtree: true });
+            })();
+          <\/script>
+          <script nonce="${nonce}">
+${CODE_PLACEHOLDER}
           <\/script>
         </body>
       </html>
     `;
-    
-    iframe.srcdoc = html;
+    const firstLine = html.slice(0, html.indexOf(CODE_PLACEHOLDER)).split('\n').length;
+
+    // 6. Run the sketch in a script of its own, so a syntax error in it doesn't stop the code above.
+    // The loop guards go on the lines they guard, so line numbers still match the sketch.
+    iframe.srcdoc = html
+      .replaceAll('SKETCH_FIRST_LINE', String(firstLine))
+      .replace(CODE_PLACEHOLDER, () => escapeForScript(addLoopGuards(code)));
 
-  }, [code, showBorder, onScriptError, cleanupTimeout]);
+  }, [code, showBorder, endSession, fail]);
 
   // The iframe is positioned absolutely to fill its parent container in GamePanel.
   // The CSS inside the iframe's srcdoc then handle the scaling of the canvas itself.
@@ -125,6 +295,8 @@ const P5Canvas: React.FC<P5CanvasProps> = ({ code, showBorder = false, onScriptE
       ref={iframeRef}
       title="p5.js sketch"
       sandbox="allow-scripts"
+      allow="camera 'none'; microphone 'none'; geolocation 'none'; clipboard-read 'none'; clipboard-write 'none'"
+      referrerPolicy="no-referrer"
       className="absolute inset-0 w-full h-full border-none bg-black"
     />
   );
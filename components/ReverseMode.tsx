@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowRight, LogOut, Check, X, Wand2 } from 'lucide-react';
+import { CategoryDefinition, DifficultyDefinition, ReverseGuess, ReverseRound } from '../types';
+import { REVERSE_GUESS_LIMIT } from '../constants';
+import { getRoundBackend } from '../services/roundService';
+import { findBannedWords, MAX_REVERSE_PROMPT_LENGTH } from '../services/reverseService';
+import { scoreReverseRound } from '../services/scoringService';
+import { playCorrectSound, playDrawingReadySound, playGameOverSound, playWrongGuessSound } from '../services/soundService';
+
+interface ReverseModeProps {
+  category: CategoryDefinition;
+  imageStyle: string;
+  difficulty: DifficultyDefinition;
+  excludedConcepts: string[];
+  onLeave: () => void;
+}
+
+type Phase = 'idle' | 'choosing' | 'writing' | 'drawing' | 'guessing' | 'done';
+
+const buttonClasses = "h-12 px-6 flex items-center justify-center gap-3 bg-transparent border border-neutral-400 text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+const ReverseMode: React.FC<ReverseModeProps> = ({ category, imageStyle, difficulty, excludedConcepts, onLeave }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [round, setRound] = useState<ReverseRound | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [guesses, setGuesses] = useState<ReverseGuess[]>([]);
+  const [score, setScore] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const usedTitlesRef = useRef<string[]>([]);
+  const isMounted = useRef(true);
+  // Cancels the drawing and guessing still going on when the player leaves.
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Set up in the effect, so strict mode's trial unmount doesn't leave them cancelled.
+  useEffect(() => {
+    const controller = new AbortController();
+    isMounted.current = true;
+    abortRef.current = controller;
+    return () => {
+      isMounted.current = false;
+      controller.abort();
+    };
+  }, []);
+
+  const bannedInPrompt = round ? findBannedWords(prompt, round.bannedWords) : [];
+  const lastGuess = guesses[guesses.length - 1];
+  const points = phase === 'done' ? scoreReverseRound(lastGuess?.isCorrect ? guesses.length : null) : 0;
+
+  const startRound = async () => {
+    setPhase('choosing');
+    setError(null);
+    setRound(null);
+    setPrompt('');
+    setImageUrl(null);
+    setGuesses([]);
+    try {
+      const next = await getRoundBackend().createReverseRound({
+        pastConcepts: [...excludedConcepts, ...usedTitlesRef.current],
+        imageStyle,
+        category,
+        difficulty,
+      });
+      if (!isMounted.current) return;
+      usedTitlesRef.current.push(next.title);
+      setRound(next);
+      setPhase('writing');
+    } catch (e) {
+      console.error(e);
+      if (!isMounted.current) return;
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      setPhase('idle');
+    }
+  };
+
+  // Draws the player's prompt, then lets the model guess until it gets it or runs out of guesses.
+  const submitPrompt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!round || phase !== 'writing' || !prompt.trim() || bannedInPrompt.length > 0) return;
+    const backend = getRoundBackend();
+    setPhase('drawing');
+    setError(null);
+    try {
+      const drawn = await backend.drawReverseRound(round.id, prompt, abortRef.current?.signal);
+      if (!isMounted.current) return;
+      setImageUrl(drawn);
+      playDrawingReadySound();
+      setPhase('guessing');
+    } catch (e) {
+      console.error(e);
+      if (!isMounted.current) return;
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      setPhase('writing');
+      return;
+    }
+
+    try {
+      for (let attempt = 1; attempt <= REVERSE_GUESS_LIMIT; attempt++) {
+        const guess = await backend.guessReverseRound(round.id, abortRef.current?.signal);
+        if (!isMounted.current) return;
+        setGuesses(prev => [...prev, guess]);
+        if (guess.isCorrect) {
+          playCorrectSound();
+          setScore(prev => prev + scoreReverseRound(attempt));
+          break;
+        }
+        if (guess.attemptsLeft === 0) {
+          playGameOverSound();
+          break;
+        }
+        playWrongGuessSound();
+      }
+    } catch (e) {
+      console.error(e);
+      if (!isMounted.current) return;
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+    }
+    setPhase('done');
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col md:flex-row items-stretch overflow-hidden">
+      <div className="flex flex-col p-4 md:flex-1 order-1 md:order-2 h-1/2 md:h-full min-h-0">
+        <div className="flex-1 flex justify-center items-center min-h-0 bg-black rounded-lg relative overflow-hidden border border-neutral-800">
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={`Your image of ${round?.title ?? 'the title'}`}
+              className="max-w-full max-h-full object-contain aspect-square animate-fade-in"
+            />
+          )}
+          {!imageUrl && (
+            <div className="absolute inset-0 flex flex-col justify-center items-center gap-4 p-4 text-center">
+              {phase === 'idle' && (
+                <>
+                  <button onClick={startRound} className={buttonClasses}>
+                    <ArrowRight className="w-5 h-5" />
+                    <span>Get a title</span>
+                  </button>
+                  <p className="text-sm text-neutral-500 max-w-xs">
+                    You get a {category.noun} and write the prompt for its image. Then the AI has {REVERSE_GUESS_LIMIT} guesses to work out what it is.
+                  </p>
+                </>
+              )}
+              {phase === 'choosing' && <p className="text-3xl text-white animate-pulse">Choosing...</p>}
+              {phase === 'writing' && <p className="text-neutral-500">Describe the {category.noun} without naming it.</p>}
+              {phase === 'drawing' && <p className="text-3xl text-white animate-pulse">Drawing...</p>}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:w-[450px] flex-shrink-0 order-2 md:order-1 h-1/2 md:h-full min-h-0 border-t md:border-t-0 md:border-r border-neutral-700">
+        <div className="px-4 pt-4 pb-3 flex justify-between items-center border-b border-neutral-700">
+          <div className="flex items-center gap-3">
+            <h1 className="text-sm text-white uppercase tracking-widest">Reverse</h1>
+            <span className="font-mono text-green-400" title="Score">{score}</span>
+          </div>
+          <button
+            onClick={onLeave}
+            className="text-neutral-400 hover:text-white transition-colors"
+            aria-label="Leave reverse mode"
+            title="Leave reverse mode"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+          {round && (
+            <div className="space-y-1">
+              <p className="text-sm text-neutral-500">Your {category.noun}</p>
+              <p className="text-2xl text-white">{round.title}</p>
+              <p className="text-sm text-neutral-400">{round.description}</p>
+              <p className="text-sm text-neutral-500">Not allowed: {round.bannedWords.join(', ')}</p>
+            </div>
+          )}
+          {round && (
+            <form onSubmit={submitPrompt} className="space-y-2">
+              <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                disabled={phase !== 'writing'}
+                maxLength={MAX_REVERSE_PROMPT_LENGTH}
+                rows={4}
+                placeholder={`Describe an image of the ${category.noun}...`}
+                className="w-full p-3 bg-transparent border border-neutral-600 rounded-md text-white focus:outline-none focus:border-white disabled:opacity-50 transition-colors resize-none"
+                aria-label="Your image prompt"
+              />
+              {bannedInPrompt.length > 0 && (
+                <p className="text-sm text-red-400">Remove the words from the title: {bannedInPrompt.join(', ')}.</p>
+              )}
+              {phase === 'writing' && (
+                <button
+                  type="submit"
+                  disabled={!prompt.trim() || bannedInPrompt.length > 0}
+                  className="h-10 px-4 flex items-center gap-2 bg-transparent border border-neutral-400 text-white rounded-md hover:enabled:bg-neutral-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  <span>Draw it</span>
+                </button>
+              )}
+            </form>
+          )}
+          {guesses.length > 0 && (
+            <ul className="space-y-1">
+              {guesses.map((guess, i) => (
+                <li key={i} className="flex items-center gap-2 text-white">
+                  {guess.isCorrect ? <Check className="w-4 h-4 text-green-400" aria-label="Right" /> : <X className="w-4 h-4 text-red-400" aria-label="Wrong" />}
+                  <span className="text-neutral-500">Guess {i + 1}:</span>
+                  <span>{guess.guess}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {phase === 'guessing' && <p className="text-neutral-400 animate-pulse">The AI is looking at your image...</p>}
+          {phase === 'done' && (
+            <div className="space-y-3">
+              <p className="text-white">
+                {lastGuess?.isCorrect
+                  ? `The AI got it in ${guesses.length} ${guesses.length === 1 ? 'guess' : 'guesses'}. +${points} points.`
+                  : "The AI couldn't work it out."}
+              </p>
+              {lastGuess?.examplePrompt && (
+                <p className="text-sm text-neutral-400">The AI would have asked for: {lastGuess.examplePrompt}</p>
+              )}
+              <button onClick={startRound} className={buttonClasses}>
+                <ArrowRight className="w-5 h-5" />
+                <span>Next title</span>
+              </button>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReverseMode;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { MatchMode, MatchState } from '../types';
+import { getAnsweringParticipant } from '../services/matchService';
+
+interface ScoreboardProps {
+  match: MatchState;
+  canBuzz: boolean;
+  onBuzz: (participantId: string) => void;
+}
+
+// In buzz-in mode the entries double as buzzers, for devices without a keyboard.
+const Scoreboard: React.FC<ScoreboardProps> = ({ match, canBuzz, onBuzz }) => {
+  const answering = getAnsweringParticipant(match);
+  const isBuzzIn = match.config.mode === MatchMode.BUZZ_IN;
+  const roundNumber = Math.min(match.roundsPlayed + 1, match.config.rounds);
+
+  return (
+    <div className="flex items-center gap-3 mb-3 text-sm" aria-label="Scoreboard">
+      <span className="text-xs uppercase tracking-wider text-neutral-500 flex-shrink-0">
+        Round {roundNumber}/{match.config.rounds}
+      </span>
+      <div className="flex flex-wrap gap-2">
+        {match.participants.map(participant => {
+          const isAnswering = answering?.id === participant.id;
+          const isLockedOut = match.lockedOutIds.includes(participant.id);
+          return (
+            <button
+              key={participant.id}
+              type="button"
+              onClick={() => onBuzz(participant.id)}
+              disabled={!canBuzz || isLockedOut}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md border transition-colors disabled:cursor-default hover:enabled:bg-neutral-800 ${isAnswering ? 'border-blue-500 text-white' : 'border-neutral-700 text-neutral-300'} ${isLockedOut ? 'opacity-40' : ''}`}
+            >
+              {isBuzzIn && (
+                <kbd className="font-mono text-xs text-neutral-500 border border-neutral-700 rounded px-1">{participant.buzzKey.toUpperCase()}</kbd>
+              )}
+              <span>{participant.name}</span>
+              <span className="font-mono text-green-400">{participant.score}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Scoreboard;
@@ -0,0 +1,199 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AutoHintSchedule, ChatAnswerMode, ConceptPack, ConceptSource, DifficultySetting, GameSettings, GuessMode, ImageReveal, LevelCurveId, MatchStrictness, RoundVariant } from '../types';
+import { DIFFICULTIES } from '../constants';
+import { LEVEL_CURVES } from '../services/scoringService';
+import ConceptPackSettings from './ConceptPackSettings';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void;
+  packs: ConceptPack[];
+  onPacksChange: (packs: ConceptPack[]) => void;
+}
+
+interface Option<T extends string> {
+  value: T;
+  label: string;
+  description: string;
+}
+
+const GUESS_MODE_OPTIONS: Option<GuessMode>[] = [
+  { value: GuessMode.BOXES, label: 'Letter boxes', description: 'One box per letter. Your guess is checked when every box is filled.' },
+  { value: GuessMode.FREE_TEXT, label: 'Free text', description: 'Type the answer however you like and press Enter.' },
+];
+
+const STRICTNESS_OPTIONS: Option<MatchStrictness>[] = [
+  { value: MatchStrictness.STRICT, label: 'Strict', description: 'Spelling must be exact. Case, punctuation and a leading "The" are ignored.' },
+  { value: MatchStrictness.NORMAL, label: 'Normal', description: 'Forgives a typo or two in longer answers.' },
+  { value: MatchStrictness.LENIENT, label: 'Lenient', description: 'Forgives several typos.' },
+];
+
+const AUTO_HINT_OPTIONS: Option<AutoHintSchedule>[] = [
+  { value: AutoHintSchedule.OFF, label: 'Off', description: 'Letters are only revealed when you ask.' },
+  { value: AutoHintSchedule.LATE, label: 'Late', description: 'Reveal a letter with 10 seconds left.' },
+  { value: AutoHintSchedule.STANDARD, label: 'Standard', description: 'Reveal a letter with 20 and 10 seconds left.' },
+  { value: AutoHintSchedule.GENEROUS, label: 'Generous', description: 'Reveal a letter every 5 seconds from 20 seconds left.' },
+];
+
+const LEVEL_CURVE_OPTIONS: Option<LevelCurveId>[] = LEVEL_CURVES.map(curve => ({
+  value: curve.id,
+  label: curve.label,
+  description: curve.description,
+}));
+
+const CONCEPT_SOURCE_OPTIONS: Option<ConceptSource>[] = [
+  { value: ConceptSource.AI, label: 'AI picks', description: 'The AI chooses every answer.' },
+  { value: ConceptSource.MIXED, label: 'Mixed', description: 'About half the answers come from your packs.' },
+  { value: ConceptSource.PACKS, label: 'Packs first', description: 'Answers come from your packs until they run out for the category.' },
+];
+
+const ROUND_VARIANT_OPTIONS: Option<RoundVariant>[] = [
+  { value: RoundVariant.SINGLE, label: 'One image', description: 'Each round has a single image.' },
+  { value: RoundVariant.ESCALATING, label: 'Escalating', description: 'Rounds start with an abstract image and reveal more obvious ones as time runs out. Solving from an earlier image scores more.' },
+  { value: RoundVariant.SKETCH, label: 'Sketch', description: 'The AI writes code that draws the picture, building it up as time runs out.' },
+];
+
+const IMAGE_REVEAL_OPTIONS: Option<ImageReveal>[] = [
+  { value: ImageReveal.OFF, label: 'Off', description: 'The image is clear from the start.' },
+  { value: ImageReveal.BLUR, label: 'Blur', description: 'The image starts blurred and sharpens as time runs out.' },
+  { value: ImageReveal.PIXELATE, label: 'Pixelate', description: 'The image starts as a few big pixels and gains detail as time runs out.' },
+  { value: ImageReveal.TILES, label: 'Tiles', description: 'The image starts covered and tiles are lifted as time runs out.' },
+];
+
+const CHAT_ANSWER_OPTIONS: Option<ChatAnswerMode>[] = [
+  { value: ChatAnswerMode.FILTERED, label: 'Filtered', description: 'The chat knows the answer. Replies that give it away are rewritten or blanked out.' },
+  { value: ChatAnswerMode.HIDDEN, label: 'Hidden', description: "The chat doesn't know the answer. Clues come from a separate call that can't name it." },
+];
+
+const DIFFICULTY_OPTIONS: Option<DifficultySetting>[] = [
+  { value: 'auto', label: 'Auto', description: 'Starts easy and gets harder as you level up, following your level curve.' },
+  ...DIFFICULTIES.map(difficulty => ({
+    value: difficulty.id,
+    label: difficulty.label,
+    description: difficulty.description,
+  })),
+];
+
+function OptionGroup<T extends string>({ title, options, value, onChange }: {
+  title: string;
+  options: Option<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-xs uppercase tracking-wider text-neutral-400 mb-2">{title}</legend>
+      {options.map(option => (
+        <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="radio"
+            className="mt-1.5 accent-blue-500"
+            checked={value === option.value}
+            onChange={() => onChange(option.value)}
+          />
+          <span>
+            <span className="text-white">{option.label}</span>
+            <span className="block text-sm text-neutral-500">{option.description}</span>
+          </span>
+        </label>
+      ))}
+    </fieldset>
+  );
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSettingsChange, packs, onPacksChange }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="relative bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl max-w-md w-full max-h-full overflow-y-auto p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors"
+          aria-label="Close settings dialog"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="text-neutral-300 space-y-6 leading-relaxed">
+          <h2 className="text-sm text-white uppercase tracking-widest">Settings</h2>
+          <OptionGroup
+            title="Difficulty"
+            options={DIFFICULTY_OPTIONS}
+            value={settings.difficulty}
+            onChange={difficulty => onSettingsChange({ ...settings, difficulty })}
+          />
+          <OptionGroup
+            title="Images"
+            options={ROUND_VARIANT_OPTIONS}
+            value={settings.roundVariant}
+            onChange={roundVariant => onSettingsChange({ ...settings, roundVariant })}
+          />
+          <OptionGroup
+            title="Image reveal"
+            options={IMAGE_REVEAL_OPTIONS}
+            value={settings.imageReveal}
+            onChange={imageReveal => onSettingsChange({ ...settings, imageReveal })}
+          />
+          <OptionGroup
+            title="Guessing"
+            options={GUESS_MODE_OPTIONS}
+            value={settings.guessMode}
+            onChange={guessMode => onSettingsChange({ ...settings, guessMode })}
+          />
+          <OptionGroup
+            title="Answer matching"
+            options={STRICTNESS_OPTIONS}
+            value={settings.matchStrictness}
+            onChange={matchStrictness => onSettingsChange({ ...settings, matchStrictness })}
+          />
+          <OptionGroup
+            title="Chat and the answer"
+            options={CHAT_ANSWER_OPTIONS}
+            value={settings.chatAnswerMode}
+            onChange={chatAnswerMode => onSettingsChange({ ...settings, chatAnswerMode })}
+          />
+          <OptionGroup
+            title="Free letter hints"
+            options={AUTO_HINT_OPTIONS}
+            value={settings.autoHintSchedule}
+            onChange={autoHintSchedule => onSettingsChange({ ...settings, autoHintSchedule })}
+          />
+          <OptionGroup
+            title="Levels"
+            options={LEVEL_CURVE_OPTIONS}
+            value={settings.levelCurve}
+            onChange={levelCurve => onSettingsChange({ ...settings, levelCurve })}
+          />
+          <OptionGroup
+            title="Concepts"
+            options={CONCEPT_SOURCE_OPTIONS}
+            value={settings.conceptSource}
+            onChange={conceptSource => onSettingsChange({ ...settings, conceptSource })}
+          />
+          <ConceptPackSettings
+            packs={packs}
+            enabledPackIds={settings.enabledPackIds}
+            onPacksChange={onPacksChange}
+            onEnabledPackIdsChange={enabledPackIds => onSettingsChange({ ...settings, enabledPackIds })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
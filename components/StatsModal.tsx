@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { PlayerProfile, RoundOutcome, RoundRecord } from '../types';
+import { clearRoundHistory, computeStats, getRoundHistory } from '../services/historyService';
+
+interface StatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: PlayerProfile;
+  onProfileChange: (profile: PlayerProfile) => void;
+  onHistoryCleared: () => void;
+}
+
+const RECENT_ROUNDS_SHOWN = 12;
+
+const formatSeconds = (seconds: number | null): string =>
+  seconds === null ? '–' : `${seconds.toFixed(1)}s`;
+
+const formatPercent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+const StatTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="border border-neutral-700 rounded-md p-3">
+    <div className="text-xs uppercase tracking-wider text-neutral-500">{label}</div>
+    <div className="text-xl text-white font-mono">{value}</div>
+  </div>
+);
+
+const StatsModal: React.FC<StatsModalProps> = ({ isOpen, onClose, profile, onProfileChange, onHistoryCleared }) => {
+  const [history, setHistory] = useState<RoundRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload every time the dialog opens so it reflects rounds played since.
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCurrent = true;
+    setHistory(null);
+    setError(null);
+    getRoundHistory()
+      .then(records => isCurrent && setHistory(records))
+      .catch(e => {
+        console.error("Failed to load round history:", e);
+        if (isCurrent) setError("Your history couldn't be loaded.");
+      });
+    return () => { isCurrent = false; };
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete your whole round history? This cannot be undone.')) return;
+    try {
+      await clearRoundHistory();
+      setHistory([]);
+      onHistoryCleared();
+    } catch (e) {
+      console.error("Failed to clear round history:", e);
+      setError("Your history couldn't be cleared.");
+    }
+  };
+
+  const stats = history ? computeStats(history) : null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="relative bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl max-w-lg w-full max-h-full overflow-y-auto p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors"
+          aria-label="Close stats dialog"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="text-neutral-300 space-y-6">
+          <h2 className="text-sm text-white uppercase tracking-widest">Stats</h2>
+
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => onProfileChange({ ...profile, name: e.target.value })}
+            placeholder="Your name"
+            className="w-full h-10 px-3 bg-transparent border border-neutral-600 rounded-md text-white focus:outline-none focus:border-white transition-colors"
+            aria-label="Player name"
+          />
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          {!stats && !error && <p className="text-neutral-500 animate-pulse">Loading...</p>}
+
+          {stats && stats.played === 0 && (
+            <p className="text-neutral-500">No rounds played yet. Your results will show up here.</p>
+          )}
+
+          {stats && stats.played > 0 && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                <StatTile label="Played" value={String(stats.played)} />
+                <StatTile label="Win rate" value={formatPercent(stats.winRate)} />
+                <StatTile label="Avg solve" value={formatSeconds(stats.averageSolveSeconds)} />
+                <StatTile label="Streak" value={String(stats.currentStreak)} />
+                <StatTile label="Best streak" value={String(stats.bestStreak)} />
+                <StatTile label="Won" value={String(stats.won)} />
+              </div>
+
+              <div>
+                <div className="text-xs uppercase tracking-wider text-neutral-400 mb-2">By style</div>
+                <table className="w-full text-sm">
+                  <thead className="text-neutral-500 text-left">
+                    <tr>
+                      <th className="font-normal pb-1">Style</th>
+                      <th className="font-normal pb-1 text-right">Played</th>
+                      <th className="font-normal pb-1 text-right">Win rate</th>
+                      <th className="font-normal pb-1 text-right">Avg solve</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {stats.byStyle.map(row => (
+                      <tr key={row.style} className="border-t border-neutral-800">
+                        <td className="py-1 font-sans text-white">{row.style}</td>
+                        <td className="py-1 text-right">{row.played}</td>
+                        <td className="py-1 text-right">{formatPercent(row.won / row.played)}</td>
+                        <td className="py-1 text-right">{formatSeconds(row.averageSolveSeconds)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <div className="text-xs uppercase tracking-wider text-neutral-400 mb-2">Recent rounds</div>
+                <div className="grid grid-cols-4 gap-2">
+                  {history!.slice(0, RECENT_ROUNDS_SHOWN).map(record => (
+                    <figure key={record.id} className="space-y-1" title={`${record.concept} (${record.style})`}>
+                      <img
+                        src={record.imageUrl}
+                        alt={record.concept}
+                        className={`w-full aspect-square object-cover rounded-md border ${record.outcome === RoundOutcome.WON ? 'border-green-700' : 'border-neutral-800'}`}
+                      />
+                      <figcaption className="text-xs text-neutral-400 truncate">{record.concept}</figcaption>
+                    </figure>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={handleClear}
+                className="h-10 px-4 flex items-center gap-2 bg-transparent border border-neutral-700 text-neutral-400 rounded-md hover:bg-neutral-800 hover:text-white transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Clear history</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsModal;
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Dices, Trash2, X } from 'lucide-react';
+import { ImageStyle } from '../types';
+import { createCustomStyle, CustomStyleInput, filterStyles, getStyleTags, isStyleLabelValid, pickRandomStyle, renderStylePreview } from '../services/styleService';
+
+interface StyleLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  styles: ImageStyle[]; // The library followed by the player's own styles
+  selectedStyleId: string;
+  onSelectStyle: (id: string) => void;
+  rotateStyles: boolean;
+  onRotateStylesChange: (rotateStyles: boolean) => void;
+  customStyles: ImageStyle[];
+  onCustomStylesChange: (styles: ImageStyle[]) => void;
+}
+
+const EMPTY_INPUT: CustomStyleInput = { label: '', guide: '', tags: '' };
+
+const StyleLibraryModal: React.FC<StyleLibraryModalProps> = ({ isOpen, onClose, styles, selectedStyleId, onSelectStyle, rotateStyles, onRotateStylesChange, customStyles, onCustomStylesChange }) => {
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [input, setInput] = useState<CustomStyleInput>(EMPTY_INPUT);
+  const tags = useMemo(() => getStyleTags(styles), [styles]);
+  const shown = useMemo(() => filterStyles(styles, query, tag), [styles, query, tag]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Picking a style settles on it, so rotation stops.
+  const selectStyle = (id: string) => {
+    onSelectStyle(id);
+    onRotateStylesChange(false);
+    onClose();
+  };
+
+  const surprise = () => selectStyle(pickRandomStyle(shown.length > 0 ? shown : styles, selectedStyleId).id);
+
+  const saveCustomStyle = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isStyleLabelValid(input.label)) return;
+    const custom = createCustomStyle(input, styles);
+    onCustomStylesChange([...customStyles, custom]);
+    setInput(EMPTY_INPUT);
+    selectStyle(custom.id);
+  };
+
+  const removeCustomStyle = (style: ImageStyle) => {
+    if (!window.confirm(`Remove the style "${style.label}"?`)) return;
+    onCustomStylesChange(customStyles.filter(s => s.id !== style.id));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="relative bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl max-w-2xl w-full max-h-full overflow-y-auto p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors"
+          aria-label="Close style library"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="text-neutral-300 space-y-5 leading-relaxed">
+          <h2 className="text-sm text-white uppercase tracking-widest">Styles</h2>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="search"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              className="flex-1 min-w-40 bg-neutral-800 border border-neutral-700 text-white text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Search styles..."
+              aria-label="Search styles"
+            />
+            <button
+              onClick={surprise}
+              className="flex items-center gap-2 text-sm bg-neutral-800 border border-neutral-700 rounded-md px-3 py-1.5 text-white hover:border-neutral-500 transition-colors"
+            >
+              <Dices className="w-4 h-4" /> Surprise me
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {[null, ...tags].map(t => (
+              <button
+                key={t ?? 'all'}
+                onClick={() => setTag(t)}
+                className={`text-xs rounded-full px-2.5 py-0.5 border transition-colors ${tag === t ? 'bg-blue-600 border-blue-600 text-white' : 'border-neutral-700 text-neutral-400 hover:text-white'}`}
+              >
+                {t ?? 'all'}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1.5 accent-blue-500"
+              checked={rotateStyles}
+              onChange={e => onRotateStylesChange(e.target.checked)}
+            />
+            <span>
+              <span className="text-white">New style every round</span>
+              <span className="block text-sm text-neutral-500">Each round is drawn in a different style from the library, revealed along with the answer.</span>
+            </span>
+          </label>
+
+          {shown.length === 0 ? (
+            <p className="text-sm text-neutral-500">No styles match.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {shown.map(s => (
+                <div key={s.id} className="relative group">
+                  <button
+                    onClick={() => selectStyle(s.id)}
+                    className={`w-full text-left rounded-md border p-1.5 transition-colors ${s.id === selectedStyleId && !rotateStyles ? 'border-blue-500' : 'border-neutral-700 hover:border-neutral-500'}`}
+                    title={s.guide || s.prompt}
+                  >
+                    <img src={renderStylePreview(s)} alt="" className="w-full aspect-square rounded-sm" />
+                    <span className="block text-xs text-white mt-1 truncate">{s.label}</span>
+                    <span className="block text-[10px] text-neutral-500 truncate">{s.tags.join(', ')}</span>
+                  </button>
+                  {s.isCustom && (
+                    <button
+                      onClick={() => removeCustomStyle(s)}
+                      className="absolute top-2.5 right-2.5 bg-black/60 rounded p-0.5 text-neutral-300 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label={`Remove ${s.label}`}
+                      title="Remove"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={saveCustomStyle} className="space-y-2">
+            <p className="text-xs uppercase tracking-wider text-neutral-400">Save your own style</p>
+            <input
+              type="text"
+              value={input.label}
+              onChange={e => setInput({ ...input, label: e.target.value })}
+              maxLength={40}
+              className="w-full bg-neutral-800 border border-neutral-700 text-white text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Name, e.g. Cross-stitch sampler"
+              aria-label="Style name"
+            />
+            <textarea
+              value={input.guide}
+              onChange={e => setInput({ ...input, guide: e.target.value })}
+              maxLength={300}
+              rows={2}
+              className="w-full bg-neutral-800 border border-neutral-700 text-white text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Optional: what the images should stress, e.g. tiny x-shaped stitches on cream fabric"
+              aria-label="Style guide"
+            />
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={input.tags}
+                onChange={e => setInput({ ...input, tags: e.target.value })}
+                className="flex-1 bg-neutral-800 border border-neutral-700 text-white text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                placeholder="Tags, separated by commas"
+                aria-label="Style tags"
+              />
+              <button
+                type="submit"
+                disabled={!isStyleLabelValid(input.label)}
+                className="text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-md px-4 py-1.5 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleLibraryModal;
@@ -0,0 +1,166 @@
+import { AutoHintSchedule, Category, CategoryDefinition, ChatAnswerMode, ConceptSource, Difficulty, DifficultyDefinition, GameSettings, GuessMode, HintType, ImageReveal, LevelCurveId, MatchStrictness, RoundVariant } from './types';
+
+export const CATEGORIES: CategoryDefinition[] = [
+  {
+    id: Category.MOVIES,
+    label: 'Movies',
+    noun: 'movie',
+    answerNoun: 'movie title',
+    variety: 'iconic, obscure, and cult classic films',
+    example: { title: 'Inception', idea: 'a spinning top on a table' },
+    normalization: {},
+  },
+  {
+    id: Category.TV,
+    label: 'TV Shows',
+    noun: 'TV show',
+    answerNoun: 'TV show title',
+    variety: 'long-running hits, beloved sitcoms, prestige dramas, and cult favourites',
+    example: { title: 'Breaking Bad', idea: 'an RV parked alone in the desert' },
+    normalization: { stripParentheticals: true },
+  },
+  {
+    id: Category.BOOKS,
+    label: 'Books',
+    noun: 'book',
+    answerNoun: 'book title',
+    variety: 'classic literature, modern bestsellers, and well-loved children\'s books',
+    example: { title: 'Moby Dick', idea: 'a giant white whale breaching beside a tiny boat' },
+    normalization: { stripSubtitle: true, stripParentheticals: true },
+  },
+  {
+    id: Category.SONGS,
+    label: 'Songs',
+    noun: 'song',
+    answerNoun: 'song title',
+    variety: 'chart toppers, timeless classics, and well-known anthems from many decades',
+    example: { title: 'Yellow Submarine', idea: 'a bright submarine under the sea' },
+    normalization: { stripParentheticals: true, stripFeaturing: true },
+  },
+  {
+    id: Category.GAMES,
+    label: 'Video Games',
+    noun: 'video game',
+    answerNoun: 'video game title',
+    variety: 'retro classics, blockbuster franchises, and indie darlings',
+    example: { title: 'Tetris', idea: 'falling blocks stacking into neat rows' },
+    normalization: { stripParentheticals: true },
+  },
+  {
+    id: Category.IDIOMS,
+    label: 'Idioms',
+    noun: 'idiom',
+    answerNoun: 'famous idiom or saying',
+    variety: 'well-known English idioms, proverbs, and everyday sayings',
+    example: { title: 'Piece of Cake', idea: 'a single slice of cake on a plate' },
+    normalization: {},
+  },
+];
+
+export const DEFAULT_CATEGORY = Category.MOVIES;
+
+// What the chat persona is told during the daily challenge, whose rounds each come from a different category.
+export const DAILY_CHAT_CATEGORY: CategoryDefinition = {
+  id: Category.CUSTOM,
+  label: 'Daily Challenge',
+  noun: 'title or saying',
+  answerNoun: 'movie, TV show, book, song or video game title, or a famous idiom',
+  variety: 'every category',
+  example: CATEGORIES[0].example,
+  normalization: {},
+};
+
+// The library's styles are in services/styleService.ts.
+export const DEFAULT_STYLE_ID = 'pixel-art';
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  guessMode: GuessMode.BOXES,
+  matchStrictness: MatchStrictness.NORMAL,
+  autoHintSchedule: AutoHintSchedule.STANDARD,
+  levelCurve: LevelCurveId.STEADY,
+  difficulty: 'auto',
+  conceptSource: ConceptSource.AI,
+  enabledPackIds: [],
+  roundVariant: RoundVariant.SINGLE,
+  imageReveal: ImageReveal.OFF,
+  chatAnswerMode: ChatAnswerMode.FILTERED,
+  styleId: DEFAULT_STYLE_ID,
+  rotateStyles: false,
+};
+
+// Images in an escalating round. The next one is revealed each time another equal share of the
+// round time runs out, so with 3 images in a 30 second round they appear at 30, 20 and 10 seconds left.
+export const ESCALATING_IMAGE_COUNT = 3;
+
+// Times a sketch round's code is written again after failing in the browser, before giving up.
+export const MAX_SKETCH_REDRAWS = 2;
+
+// Rounds kept ready ahead of the player for each combination of style, category, difficulty and
+// round variant. They're made one at a time, in the background.
+export const ROUND_QUEUE_SIZE = 3;
+
+// Guesses the model gets at the player's image in reverse mode.
+export const REVERSE_GUESS_LIMIT = 3;
+
+// Seconds left on the round timer at which a letter is revealed for free.
+export const AUTO_HINT_TIMES: Record<AutoHintSchedule, number[]> = {
+  [AutoHintSchedule.OFF]: [],
+  [AutoHintSchedule.LATE]: [10],
+  [AutoHintSchedule.STANDARD]: [20, 10],
+  [AutoHintSchedule.GENEROUS]: [20, 15, 10, 5],
+};
+
+// Points taken off a round's score for each hint the player asks for. Timed hints are free.
+export const HINT_COSTS: Record<HintType, number> = {
+  [HintType.LETTER]: 20,
+  [HintType.WORD_SHAPE]: 10,
+  [HintType.YEAR]: 15,
+};
+
+export const DIFFICULTIES: DifficultyDefinition[] = [
+  {
+    id: Difficulty.EASY,
+    label: 'Easy',
+    description: 'Famous answers and images that show them quite directly. 45 seconds per round.',
+    popularity: 'Only choose hugely popular, instantly recognisable answers that almost everyone would know.',
+    literalness: 'The image should be fairly literal: depict the single most iconic and recognisable element, such as a famous character, object or scene, clearly and directly.',
+    roundTime: 45,
+  },
+  {
+    id: Difficulty.MEDIUM,
+    label: 'Medium',
+    description: 'Well-known answers and images that are guessable but not overly literal. 30 seconds per round.',
+    popularity: 'Choose well-known answers, with the occasional one that only fans would recognise.',
+    literalness: 'The key is to create an interesting and creative image that is guessable but not overly literal.',
+    roundTime: 30,
+  },
+  {
+    id: Difficulty.HARD,
+    label: 'Hard',
+    description: 'Less obvious answers and symbolic images. 25 seconds per round.',
+    popularity: 'Favour lesser-known answers and deeper cuts that enthusiasts would recognise.',
+    literalness: 'The image should be indirect and symbolic: hint at the answer through a secondary motif, setting or theme rather than its most famous element.',
+    roundTime: 25,
+  },
+  {
+    id: Difficulty.EXPERT,
+    label: 'Expert',
+    description: 'Obscure and cult answers with abstract, lateral images. 20 seconds per round.',
+    popularity: 'Choose obscure, cult and niche answers that will challenge true experts.',
+    literalness: 'The image should be abstract and lateral: combine subtle, non-obvious details so that only someone who knows the answer well would make the connection.',
+    roundTime: 20,
+  },
+];
+
+// Seconds. Every difficulty and level falls in between; the servers hold clients to it.
+export const MIN_ROUND_TIME = 5;
+export const MAX_ROUND_TIME = 120;
+
+export const MIN_MATCH_PARTICIPANTS = 2;
+export const MAX_MATCH_PARTICIPANTS = 8;
+export const DEFAULT_MATCH_ROUNDS = 5;
+export const DEFAULT_BUZZ_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8'];
+
+// One entry per daily challenge round, so it gets harder as it goes.
+export const DAILY_DIFFICULTIES = [Difficulty.EASY, Difficulty.EASY, Difficulty.MEDIUM, Difficulty.MEDIUM, Difficulty.HARD];
+export const DAILY_ROUND_COUNT = DAILY_DIFFICULTIES.length;
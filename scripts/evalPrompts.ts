@@ -0,0 +1,122 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { Category, Difficulty, PromptEvalResult, RoundVariant } from '../types';
+import { CATEGORIES, ESCALATING_IMAGE_COUNT } from '../constants';
+import { getDifficulty } from '../services/difficultyService';
+import { findStyle, STYLE_LIBRARY } from '../services/styleService';
+import { getPromptVersions } from '../services/promptService';
+import { evaluatePromptVersion } from '../services/promptEvalService';
+
+// Compares prompt versions over the same batch of seeds. Run it with `npm run eval-prompts`, e.g.
+//   npm run eval-prompts -- --versions v1,v2 --seeds 30 --category books --variant sketch
+// It uses the offline mock unless given --provider gemini, which reads GEMINI_API_KEY like the
+// game server does.
+
+const USAGE = `Options:
+  --versions <ids>     Comma-separated prompt versions to compare (default: all)
+  --seeds <count>      Rounds per version (default: 20)
+  --category <id>      ${CATEGORIES.filter(c => c.id !== Category.CUSTOM).map(c => c.id).join(', ')} (default: movies)
+  --difficulty <id>    ${Object.values(Difficulty).join(', ')} (default: medium)
+  --style <id>         A style from the library (default: pixel-art)
+  --variant <id>       ${Object.values(RoundVariant).join(', ')} (default: single)
+  --provider <name>    mock or gemini (default: mock)
+  --out <file>         Also write the results there as JSON`;
+
+const { values: args } = parseArgs({
+  options: {
+    versions: { type: 'string' },
+    seeds: { type: 'string', default: '20' },
+    category: { type: 'string', default: 'movies' },
+    difficulty: { type: 'string', default: Difficulty.MEDIUM },
+    style: { type: 'string', default: 'pixel-art' },
+    variant: { type: 'string', default: RoundVariant.SINGLE },
+    provider: { type: 'string', default: 'mock' },
+    out: { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const seedCount = Number(args.seeds);
+if (!Number.isInteger(seedCount) || seedCount < 1) fail(`--seeds must be a positive whole number, not "${args.seeds}".`);
+const category = CATEGORIES.find(c => c.id === args.category && c.id !== Category.CUSTOM) ?? fail(`Unknown category "${args.category}".`);
+if (!Object.values<string>(Difficulty).includes(args.difficulty)) fail(`Unknown difficulty "${args.difficulty}".`);
+if (!STYLE_LIBRARY.some(s => s.id === args.style)) fail(`Unknown style "${args.style}".`);
+if (!Object.values<string>(RoundVariant).includes(args.variant)) fail(`Unknown variant "${args.variant}".`);
+const knownVersions = getPromptVersions().map(v => v.id);
+const versionIds = args.versions ? args.versions.split(',').map(id => id.trim()).filter(Boolean) : knownVersions;
+versionIds.filter(id => !knownVersions.includes(id)).forEach(id => fail(`Unknown prompt version "${id}". There are: ${knownVersions.join(', ')}.`));
+
+// The content providers read these, as they do in the browser build.
+if (args.provider === 'gemini') {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No .env.local, so the key has to come from the real environment.
+  }
+  if (!process.env.GEMINI_API_KEY) fail('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.env.API_KEY = process.env.GEMINI_API_KEY;
+} else if (args.provider !== 'mock') {
+  fail(`Unknown provider "${args.provider}".`);
+}
+process.env.CONTENT_PROVIDER = args.provider;
+process.env.MOCK_LATENCY_MS ??= '0';
+
+// The mock loads its canned rounds from /mock/, which only the dev server serves. Here they're
+// read from public/ instead.
+const publicDir = fileURLToPath(new URL('../public', import.meta.url));
+const fetchFromNetwork = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (url.startsWith('/mock/')) {
+    return new Response(await readFile(`${publicDir}${url}`));
+  }
+  return fetchFromNetwork(input, init);
+};
+
+const style = findStyle(STYLE_LIBRARY, args.style);
+const options = {
+  imageStyle: style.prompt,
+  styleGuide: style.guide,
+  category,
+  difficulty: getDifficulty(args.difficulty as Difficulty),
+  imageCount: args.variant === RoundVariant.ESCALATING ? ESCALATING_IMAGE_COUNT : 1,
+  isSketch: args.variant === RoundVariant.SKETCH,
+  seeds: [...Array(seedCount).keys()],
+};
+
+const percent = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+const results: PromptEvalResult[] = [];
+for (const versionId of versionIds) {
+  console.log(`Running ${versionId} over ${seedCount} seeds...`);
+  results.push(await evaluatePromptVersion(versionId, options));
+}
+
+console.table(Object.fromEntries(results.map(r => [r.versionId, {
+  provider: r.provider,
+  rounds: r.rounds,
+  valid: percent(r.validityRate),
+  duplicates: percent(r.duplicateRate),
+  'title leaks': percent(r.titleLeakRate),
+}])));
+results.filter(r => r.failures.length > 0).forEach(r => {
+  console.log(`\n${r.versionId} failures:`);
+  r.failures.forEach(failure => console.log(`  ${failure}`));
+});
+
+if (args.out) {
+  const { help, out, ...settings } = args;
+  await writeFile(out, `${JSON.stringify({ date: new Date().toISOString(), settings, results }, null, 2)}\n`);
+  console.log(`\nWrote ${args.out}`);
+}
@@ -0,0 +1,435 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Category, CategoryDefinition, ChatAnswerMode, Difficulty, DifficultyDefinition, GenerationErrorKind, HintType, MatchStrictness, RoundChatEvent, RoundChatEventKind, SketchError, SketchErrorKind } from '../types';
+import { createRoundKeeper, RoundBackend, RoundChatSession, RoundStateError, UnknownRoundError } from '../services/roundService';
+import { resolveCategory } from '../services/categoryService';
+import { getDifficulty } from '../services/difficultyService';
+import { getDailyRoundData, getDailyKey, isCurrentDailyKey } from '../services/dailyService';
+import { ConceptPackError, parsePackConcept } from '../services/conceptPackService';
+import { ESCALATING_IMAGE_COUNT, MAX_ROUND_TIME, MIN_ROUND_TIME } from '../constants';
+import { MAX_REVERSE_PROMPT_LENGTH, ReverseRoundError } from '../services/reverseService';
+import { classifyError, describeGenerationError, GenerationError } from '../services/resilienceService';
+
+// Game server. Holds the Gemini key and every round's answer so the browser never sees either.
+// Run it with `npm run api-server`; in development Vite forwards /api to it.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local, so the key has to come from the real environment.
+}
+
+if (!process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+// The content providers read these, as they do in the browser build.
+process.env.API_KEY = process.env.GEMINI_API_KEY;
+process.env.CONTENT_PROVIDER = 'gemini';
+
+const PORT = Number(process.env.API_PORT) || 8788;
+const MAX_BODY_BYTES = 64 * 1024;
+const CLIENT_IDLE_MS = 60 * 60 * 1000;
+const CLIENT_ID_PATTERN = /^[\w-]{8,64}$/;
+// Each session keeps its own rounds, so there can only be so many. A reload starts a new one,
+// and the old one lasts until it has been idle for CLIENT_IDLE_MS.
+const MAX_SESSIONS = 1000;
+const MAX_SESSIONS_PER_ADDRESS = 20;
+const MAX_CUSTOM_CATEGORY_LENGTH = 60;
+const MAX_PAST_CONCEPTS = 100;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_PREVIOUS_CLUES = 10;
+const MAX_SKETCH_ERRORS = 10;
+// Proxies whose X-Forwarded-For is believed: the Vite dev server on this machine, and any others
+// listed in TRUSTED_PROXIES, comma-separated.
+const TRUSTED_PROXIES = new Set([
+  '127.0.0.1',
+  '::1',
+  '::ffff:127.0.0.1',
+  ...(process.env.TRUSTED_PROXIES ?? '').split(',').map(address => address.trim()).filter(Boolean),
+]);
+
+// Requests allowed per client address in each window. New rounds are the expensive ones.
+const RATE_LIMITS = {
+  round: { limit: 10, windowMs: 60_000 },
+  chat: { limit: 30, windowMs: 60_000 },
+  play: { limit: 120, windowMs: 60_000 },
+};
+type RateLimitName = keyof typeof RATE_LIMITS;
+
+interface ClientSession {
+  address: string;
+  rounds: RoundBackend;
+  chat: RoundChatSession | null;
+  lastSeen: number;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const GENERATION_ERROR_STATUS: Record<GenerationErrorKind, number> = {
+  [GenerationErrorKind.QUOTA]: 429,
+  [GenerationErrorKind.SAFETY]: 422,
+  [GenerationErrorKind.NETWORK]: 502,
+  [GenerationErrorKind.TIMEOUT]: 504,
+  [GenerationErrorKind.MALFORMED]: 502,
+  [GenerationErrorKind.AUTH]: 502,
+  [GenerationErrorKind.REJECTED]: 502,
+  [GenerationErrorKind.CANCELLED]: 499,
+  [GenerationErrorKind.UNKNOWN]: 502,
+};
+
+const sessions = new Map<string, ClientSession>();
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+// Only called once the request has passed its rate limit, so made-up client ids can't pile up sessions.
+const getSession = (clientId: string, address: string): ClientSession => {
+  let session = sessions.get(clientId);
+  if (!session) {
+    const fromAddress = [...sessions.values()].filter(s => s.address === address).length;
+    if (fromAddress >= MAX_SESSIONS_PER_ADDRESS || sessions.size >= MAX_SESSIONS) {
+      throw new HttpError(429, 'Too many games are open right now. Please try again later.');
+    }
+    session = { address, rounds: createRoundKeeper(), chat: null, lastSeen: Date.now() };
+    sessions.set(clientId, session);
+  }
+  session.lastSeen = Date.now();
+  return session;
+};
+
+// The browser's address. Behind a trusted proxy that's the last one in X-Forwarded-For, which the
+// proxy added itself; anything before it came from the browser and could be made up.
+const getClientAddress = (req: IncomingMessage): string => {
+  const address = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!TRUSTED_PROXIES.has(address) || typeof forwarded !== 'string') return address;
+  return forwarded.split(',').map(entry => entry.trim()).filter(Boolean).pop() ?? address;
+};
+
+// Fixed-window counter per address and route group.
+const checkRateLimit = (address: string, name: RateLimitName) => {
+  const { limit, windowMs } = RATE_LIMITS[name];
+  const key = `${address}:${name}`;
+  const now = Date.now();
+  const window = rateWindows.get(key);
+  if (!window || now - window.startedAt >= windowMs) {
+    rateWindows.set(key, { startedAt: now, count: 1 });
+    return;
+  }
+  window.count += 1;
+  if (window.count > limit) {
+    throw new HttpError(429, 'Too many requests. Please slow down and try again in a minute.');
+  }
+};
+
+setInterval(() => {
+  const now = Date.now();
+  sessions.forEach((session, clientId) => {
+    if (now - session.lastSeen > CLIENT_IDLE_MS) sessions.delete(clientId);
+  });
+  rateWindows.forEach((window, key) => {
+    const { windowMs } = RATE_LIMITS[key.slice(key.lastIndexOf(':') + 1) as RateLimitName];
+    if (now - window.startedAt >= windowMs) rateWindows.delete(key);
+  });
+}, 60_000).unref();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The request body as an object whose fields still have to be checked one by one.
+const readJson = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      let body: unknown;
+      try {
+        body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+      } catch {
+        reject(new HttpError(400, 'Request body must be JSON.'));
+        return;
+      }
+      if (isObject(body)) {
+        resolve(body);
+      } else {
+        reject(new HttpError(400, 'Request body must be a JSON object.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// What the browser is told about a failed generation. Unrecognised errors carry the provider's own
+// text, with model names, quotas and request ids, so they only get the generic message.
+const toClientError = (error: GenerationError) => ({
+  error: error.kind === GenerationErrorKind.UNKNOWN ? describeGenerationError(error.kind) : error.message,
+  kind: error.kind,
+});
+
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+// Lets long calls stop early when the browser gives up on the request.
+const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abort.abort();
+  });
+  return abort.signal;
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" is required.`);
+  return value.slice(0, MAX_TEXT_LENGTH);
+};
+
+const requireEnum = <T extends string>(values: Record<string, T>, value: unknown, field: string): T => {
+  if (!Object.values(values).includes(value as T)) throw new HttpError(400, `"${field}" is not valid.`);
+  return value as T;
+};
+
+// The strings in a list, each cut to length, keeping the last maxItems.
+const readStringList = (value: unknown, maxItems: number): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').map(item => item.slice(0, MAX_TEXT_LENGTH)).slice(-maxItems)
+    : [];
+
+// Categories arrive as a selection and are rebuilt here, the same way the browser builds them.
+const parseCategory = (value: unknown): CategoryDefinition => {
+  const selection = isObject(value) ? value : {};
+  return resolveCategory({
+    id: requireEnum(Category, selection.id, 'category'),
+    customName: typeof selection.customName === 'string' ? selection.customName.slice(0, MAX_CUSTOM_CATEGORY_LENGTH) : '',
+  });
+};
+
+const parseDifficulty = (value: unknown): DifficultyDefinition => getDifficulty(requireEnum(Difficulty, value, 'difficulty'));
+
+// What went wrong with a sketch in the browser, which ends up in a prompt.
+const parseSketchErrors = (value: unknown): SketchError[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError(400, '"errors" must be a non-empty list.');
+  return value.slice(0, MAX_SKETCH_ERRORS).map((item: unknown) => {
+    const error = isObject(item) ? item : {};
+    return {
+      kind: requireEnum(SketchErrorKind, error.kind, 'errors.kind'),
+      message: requireString(error.message, 'errors.message'),
+      ...(Number.isInteger(error.line) && { line: error.line as number }),
+      ...(Number.isInteger(error.column) && { column: error.column as number }),
+    };
+  });
+};
+
+// Every image costs a generation, so rounds can't ask for more than the escalating variant uses.
+const parseImageCount = (value: unknown): number => {
+  if (value === undefined) return 1;
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > ESCALATING_IMAGE_COUNT) {
+    throw new HttpError(400, `"imageCount" must be a whole number from 1 to ${ESCALATING_IMAGE_COUNT}.`);
+  }
+  return value as number;
+};
+
+const parseRoundEvent = (value: unknown): RoundChatEvent | undefined => {
+  if (value === undefined) return undefined;
+  const event = isObject(value) ? value : {};
+  return {
+    roundId: requireString(event.roundId, 'roundEvent.roundId'),
+    kind: requireEnum(RoundChatEventKind, event.kind, 'roundEvent.kind'),
+  };
+};
+
+const parseRoundTime = (value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < MIN_ROUND_TIME || (value as number) > MAX_ROUND_TIME) {
+    throw new HttpError(400, `"roundTime" must be a whole number of seconds from ${MIN_ROUND_TIME} to ${MAX_ROUND_TIME}.`);
+  }
+  return value as number;
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') throw new HttpError(405, 'Only POST is supported.');
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/^\/api/, '');
+  const clientId = req.headers['x-client-id'];
+  if (typeof clientId !== 'string' || !CLIENT_ID_PATTERN.test(clientId)) {
+    throw new HttpError(400, 'Missing or invalid X-Client-Id header.');
+  }
+  const address = getClientAddress(req);
+  // Each route checks its rate limit before it first asks for the session.
+  const session = () => getSession(clientId, address);
+  const body = await readJson(req);
+
+  if (path === '/rounds') {
+    checkRateLimit(address, 'round');
+    const signal = abortOnDisconnect(res);
+    const { pastConcepts, imageStyle, styleGuide, category, difficulty, packConcept, imageCount, isSketch } = body;
+    const round = await session().rounds.createRound({
+      pastConcepts: readStringList(pastConcepts, MAX_PAST_CONCEPTS),
+      imageStyle: requireString(imageStyle, 'imageStyle'),
+      styleGuide: optionalString(styleGuide)?.slice(0, MAX_TEXT_LENGTH),
+      category: parseCategory(category),
+      difficulty: parseDifficulty(difficulty),
+      packConcept: packConcept === undefined ? undefined : parsePackConcept(packConcept),
+      imageCount: parseImageCount(imageCount),
+      isSketch: isSketch === true,
+      signal,
+    });
+    return sendJson(res, 200, round);
+  }
+
+  if (path === '/daily') {
+    checkRateLimit(address, 'round');
+    if (!isCurrentDailyKey(body.date)) throw new HttpError(400, '"date" must be today\'s date, as YYYY-MM-DD.');
+    return sendJson(res, 200, { rounds: await session().rounds.getDailyRounds(body.date) });
+  }
+
+  if (path === '/reverse') {
+    checkRateLimit(address, 'round');
+    const { pastConcepts, imageStyle, category, difficulty } = body;
+    return sendJson(res, 200, await session().rounds.createReverseRound({
+      pastConcepts: readStringList(pastConcepts, MAX_PAST_CONCEPTS),
+      imageStyle: requireString(imageStyle, 'imageStyle'),
+      category: parseCategory(category),
+      difficulty: parseDifficulty(difficulty),
+    }));
+  }
+
+  // Drawing generates an image, so it counts against the same limit as new rounds.
+  const reverseMatch = path.match(/^\/reverse\/([^/]+)\/(draw|guess)$/);
+  if (reverseMatch) {
+    const roundId = decodeURIComponent(reverseMatch[1]);
+    if (reverseMatch[2] === 'draw') {
+      checkRateLimit(address, 'round');
+      const prompt = typeof body.prompt === 'string' ? body.prompt.slice(0, MAX_REVERSE_PROMPT_LENGTH + 1) : '';
+      return sendJson(res, 200, { imageUrl: await session().rounds.drawReverseRound(roundId, prompt, abortOnDisconnect(res)) });
+    }
+    checkRateLimit(address, 'chat');
+    return sendJson(res, 200, await session().rounds.guessReverseRound(roundId, abortOnDisconnect(res)));
+  }
+
+  const roundMatch = path.match(/^\/rounds\/([^/]+)\/(claim|clue|end|guess|hint|reveal|sketch|start)$/);
+  if (roundMatch) {
+    checkRateLimit(address, 'play');
+    const roundId = decodeURIComponent(roundMatch[1]);
+    switch (roundMatch[2]) {
+      case 'clue':
+        // Clues cost a model call, like chat messages.
+        checkRateLimit(address, 'chat');
+        return sendJson(res, 200, {
+          clue: await session().rounds.getClue(roundId, parseCategory(body.category), readStringList(body.previousClues, MAX_PREVIOUS_CLUES)),
+        });
+      case 'sketch':
+        // Writing the sketch again is a concept-sized model call.
+        checkRateLimit(address, 'round');
+        return sendJson(res, 200, {
+          sketchCode: await session().rounds.redrawSketch(roundId, parseCategory(body.category), parseSketchErrors(body.errors)),
+        });
+      case 'claim':
+        return sendJson(res, 200, { isAvailable: await session().rounds.claimRound(roundId) });
+      case 'start':
+        await session().rounds.startRound(roundId, parseRoundTime(body.roundTime));
+        return sendJson(res, 200, { ok: true });
+      case 'end':
+        await session().rounds.endRound(roundId);
+        return sendJson(res, 200, { ok: true });
+      case 'guess':
+        return sendJson(res, 200, {
+          isCorrect: await session().rounds.checkGuess(roundId, requireString(body.guess, 'guess'), requireEnum(MatchStrictness, body.strictness, 'strictness')),
+        });
+      case 'hint':
+        return sendJson(res, 200, {
+          hint: await session().rounds.getHint(roundId, {
+            type: requireEnum(HintType, body.type, 'type'),
+            typed: typeof body.typed === 'string' ? body.typed.slice(0, MAX_TEXT_LENGTH) : '',
+          }),
+        });
+      default:
+        return sendJson(res, 200, await session().rounds.revealRound(roundId));
+    }
+  }
+
+  if (path === '/chat/reset') {
+    checkRateLimit(address, 'chat');
+    const answerMode = body.answerMode === undefined ? ChatAnswerMode.FILTERED : requireEnum(ChatAnswerMode, body.answerMode, 'answerMode');
+    const client = session();
+    client.chat = client.rounds.createChat(parseCategory(body.category), answerMode);
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (path === '/chat') {
+    checkRateLimit(address, 'chat');
+    const { chat } = session();
+    if (!chat) throw new HttpError(409, 'Start a chat first.');
+    const response = await chat.sendMessage({
+      message: requireString(body.message, 'message'),
+      roundEvent: parseRoundEvent(body.roundEvent),
+    });
+    return sendJson(res, 200, { text: response.text });
+  }
+
+  if (path === '/chat/stream') {
+    checkRateLimit(address, 'chat');
+    const { chat } = session();
+    if (!chat) throw new HttpError(409, 'Start a chat first.');
+    const stream = await chat.sendMessageStream({
+      message: requireString(body.message, 'message'),
+      roundEvent: parseRoundEvent(body.roundEvent),
+      config: { abortSignal: abortOnDisconnect(res) },
+    });
+    // Once the reply has started, errors can only be sent as the last line of it.
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    try {
+      for await (const chunk of stream) {
+        if (chunk.text) res.write(`${JSON.stringify({ text: chunk.text })}\n`);
+      }
+    } catch (e) {
+      const error = classifyError(e);
+      if (error.kind !== GenerationErrorKind.CANCELLED) {
+        console.error(e);
+        res.write(`${JSON.stringify(toClientError(error))}\n`);
+      }
+    }
+    return res.end();
+  }
+
+  throw new HttpError(404, 'Not found.');
+};
+
+const server = createServer((req, res) => {
+  handle(req, res).catch(e => {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message });
+    } else if (e instanceof ConceptPackError) {
+      sendJson(res, 400, { error: e.problems.join(' ') });
+    } else if (e instanceof GenerationError) {
+      if (e.kind !== GenerationErrorKind.CANCELLED) console.error(e.cause ?? e);
+      sendJson(res, GENERATION_ERROR_STATUS[e.kind], toClientError(e));
+    } else if (e instanceof ReverseRoundError) {
+      sendJson(res, 400, { error: e.message });
+    } else if (e instanceof UnknownRoundError) {
+      sendJson(res, 404, { error: e.message });
+    } else if (e instanceof RoundStateError) {
+      sendJson(res, 409, { error: e.message });
+    } else {
+      console.error(e);
+      sendJson(res, 500, { error: 'Something went wrong on the game server.' });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Game server listening on http://localhost:${PORT}`);
+  // Generate today's daily challenge up front, so the first player doesn't have to wait for it.
+  getDailyRoundData(getDailyKey()).catch(e => console.error("Failed to generate the daily challenge:", e));
+});
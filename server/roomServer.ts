@@ -0,0 +1,338 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { MatchStrictness, RoomChatMessage, RoomClientMessage, RoomPlayer, RoomRound, RoomRoundReveal, RoomRoundSetup, RoomServerMessage } from '../types';
+import { MAX_ROUND_TIME, MIN_ROUND_TIME } from '../constants';
+import { isGuessCorrect } from '../services/answerMatcher';
+import { scoreRound } from '../services/scoringService';
+import { getWordLengths } from '../services/hintService';
+
+// Relay server for online rooms. Run it with `npm run room-server`.
+// It keeps the answer of the running round to itself, checks guesses against it with
+// its own clock, and keeps the scoreboard, so guessers never have to be trusted.
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024; // Generated images are sent as data URLs.
+const MAX_NAME_LENGTH = 24;
+const MAX_CHAT_LENGTH = 200;
+const MAX_ANSWER_LENGTH = 120;
+const MAX_ALIASES = 10;
+const MAX_ANSWER_NOUN_LENGTH = 40;
+const MAX_EXPLANATION_LENGTH = 1000;
+const CHAT_HISTORY = 50;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read like 1 and 0.
+const CODE_LENGTH = 4;
+
+// A message the server won't act on. Its text is sent back to the player as an error.
+class MessageError extends Error {}
+
+interface Member {
+  player: RoomPlayer;
+  socket: WebSocket;
+  wrongGuesses: number;
+}
+
+interface ActiveRound {
+  round: RoomRound;
+  setup: RoomRoundSetup;
+  solvedBy: string[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface Room {
+  code: string;
+  members: Map<string, Member>;
+  active: ActiveRound | null;
+  reveal: RoomRoundReveal | null;
+  chat: RoomChatMessage[];
+  nextRoundId: number;
+  nextChatId: number;
+}
+
+const rooms = new Map<string, Room>();
+let nextPlayerId = 1;
+
+const send = (socket: WebSocket, message: RoomServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (room: Room, message: RoomServerMessage) => {
+  const data = JSON.stringify(message);
+  room.members.forEach(({ socket }) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(data);
+  });
+};
+
+const listPlayers = (room: Room): RoomPlayer[] => [...room.members.values()].map(m => m.player);
+
+const broadcastPlayers = (room: Room) => broadcast(room, { type: 'players', players: listPlayers(room) });
+
+const postChat = (room: Room, name: string | null, text: string) => {
+  const message: RoomChatMessage = { id: room.nextChatId++, name, text, sentAt: Date.now() };
+  room.chat = [...room.chat, message].slice(-CHAT_HISTORY);
+  broadcast(room, { type: 'chat', message });
+};
+
+const createRoomCode = (): string => {
+  let code: string;
+  do {
+    code = [...Array(CODE_LENGTH)].map(() => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const cleanText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The host's round, checked before anyone else sees it, so a broken one can't stall the room.
+const parseRoundSetup = (value: unknown): RoomRoundSetup => {
+  if (!isObject(value)) throw new MessageError('That round is missing its image or answer.');
+  const answer = cleanText(value.answer, MAX_ANSWER_LENGTH);
+  const answerNoun = cleanText(value.answerNoun, MAX_ANSWER_NOUN_LENGTH);
+  if (!answer || typeof value.imageUrl !== 'string' || !value.imageUrl) {
+    throw new MessageError('That round is missing its image or answer.');
+  }
+  if (!answerNoun) throw new MessageError('That round is missing what to guess.');
+  const aliases = value.aliases ?? [];
+  if (!Array.isArray(aliases) || aliases.length > MAX_ALIASES || !aliases.every(alias => typeof alias === 'string')) {
+    throw new MessageError(`A round can have up to ${MAX_ALIASES} other names for the answer, as text.`);
+  }
+  if (!Object.values<unknown>(MatchStrictness).includes(value.matchStrictness)) {
+    throw new MessageError('That round has no valid match strictness.');
+  }
+  const { roundTime } = value;
+  if (typeof roundTime !== 'number' || !Number.isInteger(roundTime) || roundTime < MIN_ROUND_TIME || roundTime > MAX_ROUND_TIME) {
+    throw new MessageError(`Rounds must last from ${MIN_ROUND_TIME} to ${MAX_ROUND_TIME} seconds.`);
+  }
+  return {
+    imageUrl: value.imageUrl,
+    answerNoun,
+    roundTime,
+    answer,
+    aliases: aliases.map(alias => cleanText(alias, MAX_ANSWER_LENGTH)).filter(Boolean),
+    explanation: cleanText(value.explanation, MAX_EXPLANATION_LENGTH),
+    matchStrictness: value.matchStrictness as MatchStrictness,
+  };
+};
+
+const guessers = (room: Room): Member[] => [...room.members.values()].filter(m => !m.player.isHost);
+
+const endRound = (room: Room) => {
+  const active = room.active;
+  if (!active) return;
+  clearTimeout(active.timer);
+  room.active = null;
+  room.reveal = {
+    roundId: active.round.id,
+    answer: active.setup.answer,
+    explanation: active.setup.explanation,
+    solvedBy: active.solvedBy,
+  };
+  broadcast(room, { type: 'round_ended', reveal: room.reveal });
+  postChat(room, null, `The answer was "${active.setup.answer}".`);
+};
+
+const startRound = (room: Room, member: Member, value: unknown) => {
+  if (!member.player.isHost) {
+    send(member.socket, { type: 'error', message: 'Only the host can start a round.' });
+    return;
+  }
+  if (room.active) {
+    send(member.socket, { type: 'error', message: 'A round is already running.' });
+    return;
+  }
+  const setup = parseRoundSetup(value);
+
+  const startedAt = Date.now();
+  const round: RoomRound = {
+    id: room.nextRoundId++,
+    imageUrl: setup.imageUrl,
+    answerNoun: setup.answerNoun,
+    wordLengths: getWordLengths(setup.answer),
+    roundTime: setup.roundTime,
+    startedAt,
+    endsAt: startedAt + setup.roundTime * 1000,
+  };
+  room.members.forEach(m => {
+    m.player = { ...m.player, hasSolved: false };
+    m.wrongGuesses = 0;
+  });
+  room.reveal = null;
+  room.active = {
+    round,
+    setup,
+    solvedBy: [],
+    timer: setTimeout(() => endRound(room), setup.roundTime * 1000),
+  };
+  broadcast(room, { type: 'round_started', round });
+  broadcastPlayers(room);
+};
+
+const revealsAnswer = ({ setup }: ActiveRound, text: string): boolean =>
+  isGuessCorrect(text, [setup.answer, ...setup.aliases], setup.matchStrictness);
+
+const handleGuess = (room: Room, member: Member, text: string) => {
+  // Timestamp first, so time spent checking the guess doesn't count against the player.
+  const receivedAt = Date.now();
+  const active = room.active;
+  if (!active || member.player.isHost || member.player.hasSolved || !text) return;
+  if (receivedAt > active.round.endsAt) return;
+
+  if (!revealsAnswer(active, text)) {
+    member.wrongGuesses += 1;
+    send(member.socket, { type: 'guess_result', isCorrect: false, points: 0 });
+    // Wrong guesses are shared like chat, which is half the fun.
+    postChat(room, member.player.name, text);
+    return;
+  }
+
+  const { total } = scoreRound({
+    timeLeft: (active.round.endsAt - receivedAt) / 1000,
+    roundTime: active.round.roundTime,
+    paidHints: [],
+    cluesRequested: 0,
+    wrongGuesses: member.wrongGuesses,
+    streak: 0,
+  });
+  member.player = { ...member.player, score: member.player.score + total, hasSolved: true };
+  active.solvedBy.push(member.player.name);
+  send(member.socket, { type: 'guess_result', isCorrect: true, points: total });
+  postChat(room, null, `${member.player.name} got it! +${total}`);
+  broadcastPlayers(room);
+
+  if (guessers(room).every(m => m.player.hasSolved)) {
+    endRound(room);
+  }
+};
+
+const addMember = (room: Room, socket: WebSocket, name: string): Member => {
+  const member: Member = {
+    player: { id: String(nextPlayerId++), name, score: 0, isHost: room.members.size === 0, hasSolved: false },
+    socket,
+    wrongGuesses: 0,
+  };
+  room.members.set(member.player.id, member);
+  send(socket, {
+    type: 'welcome',
+    playerId: member.player.id,
+    code: room.code,
+    players: listPlayers(room),
+    round: room.active?.round ?? null,
+    reveal: room.reveal,
+    chat: room.chat,
+  });
+  broadcastPlayers(room);
+  postChat(room, null, `${name} joined.`);
+  return member;
+};
+
+const removeMember = (room: Room, member: Member) => {
+  room.members.delete(member.player.id);
+  if (room.members.size === 0) {
+    if (room.active) clearTimeout(room.active.timer);
+    rooms.delete(room.code);
+    return;
+  }
+  postChat(room, null, `${member.player.name} left.`);
+  if (member.player.isHost) {
+    // The next player takes over. Hosts don't guess, so a round the new host was playing is ended.
+    const [next] = room.members.values();
+    next.player = { ...next.player, isHost: true };
+    postChat(room, null, `${next.player.name} is now the host.`);
+    endRound(room);
+  } else if (room.active && guessers(room).length > 0 && guessers(room).every(m => m.player.hasSolved)) {
+    endRound(room);
+  }
+  broadcastPlayers(room);
+};
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', socket => {
+  let room: Room | null = null;
+  let member: Member | null = null;
+
+  const handleMessage = (message: RoomClientMessage) => {
+    if (!room || !member) {
+      const name = cleanText((message as { name?: unknown }).name, MAX_NAME_LENGTH);
+      if (!name) {
+        send(socket, { type: 'error', message: 'Pick a name first.' });
+        return;
+      }
+      if (message.type === 'create') {
+        room = { code: createRoomCode(), members: new Map(), active: null, reveal: null, chat: [], nextRoundId: 1, nextChatId: 1 };
+        rooms.set(room.code, room);
+      } else if (message.type === 'join') {
+        room = rooms.get(cleanText(message.code, CODE_LENGTH).toUpperCase()) ?? null;
+        if (!room) {
+          send(socket, { type: 'error', message: `There's no room with that code.` });
+          return;
+        }
+        if (listPlayers(room).some(p => p.name.toLowerCase() === name.toLowerCase())) {
+          room = null;
+          send(socket, { type: 'error', message: 'Someone in that room already has that name.' });
+          return;
+        }
+      } else {
+        send(socket, { type: 'error', message: 'Create or join a room first.' });
+        return;
+      }
+      member = addMember(room, socket, name);
+      return;
+    }
+
+    switch (message.type) {
+      case 'start_round':
+        startRound(room, member, message.setup);
+        break;
+      case 'guess':
+        handleGuess(room, member, cleanText(message.text, MAX_CHAT_LENGTH));
+        break;
+      case 'chat': {
+        const text = cleanText(message.text, MAX_CHAT_LENGTH);
+        if (!text) break;
+        if (room.active && !member.player.isHost && !member.player.hasSolved) {
+          // While guessing, anything typed counts as a guess, so the answer can't slip into chat unchecked.
+          handleGuess(room, member, text);
+        } else if (room.active && revealsAnswer(room.active, text)) {
+          send(socket, { type: 'error', message: `Don't give it away!` });
+        } else {
+          postChat(room, member.player.name, text);
+        }
+        break;
+      }
+      default:
+        send(socket, { type: 'error', message: `You're already in room ${room.code}.` });
+    }
+  };
+
+  socket.on('message', data => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: 'error', message: 'Messages must be JSON.' });
+      return;
+    }
+    if (!isObject(message)) {
+      send(socket, { type: 'error', message: 'Messages must be JSON objects.' });
+      return;
+    }
+    // One player's bad message mustn't take the server, and everyone else's rooms, down with it.
+    try {
+      handleMessage(message as RoomClientMessage);
+    } catch (e) {
+      if (!(e instanceof MessageError)) console.error('Failed to handle a room message:', e);
+      send(socket, { type: 'error', message: e instanceof MessageError ? e.message : 'Something went wrong with that message.' });
+    }
+  });
+
+  socket.on('close', () => {
+    if (room && member) removeMember(room, member);
+  });
+});
+
+console.log(`Room server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,113 @@
+import { MatchStrictness } from '../types';
+import { canonicalForms, isGuessCorrect } from './answerMatcher';
+
+// Finds the answer in text the chat model wrote while the round is still being played. A mention
+// is the title or one of its aliases, spelled with the same typos a guess would get away with,
+// or one of the title's longer words on its own, which gives most titles away just as well.
+
+const REDACTION = '[hidden]';
+const DISTINCTIVE_WORD_LENGTH = 6;
+// Titles like "Up" or "It" can't be told apart from ordinary words.
+const MIN_ANSWER_LENGTH = 3;
+
+interface Word {
+  start: number;
+  end: number;
+}
+
+const findWords = (text: string): Word[] =>
+  [...text.matchAll(/[\p{L}\p{N}]+(?:['’.&][\p{L}\p{N}]+)*/gu)].map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+const countWords = (title: string): number => findWords(title).length;
+
+// Character ranges of every mention, merged where they overlap.
+export const findAnswerMentions = (text: string, answers: string[]): [number, number][] => {
+  const words = findWords(text);
+  const titles = answers.filter(answer => (canonicalForms(answer)[0] ?? '').length >= MIN_ANSWER_LENGTH);
+  const distinctive = new Set(titles.flatMap(title =>
+    findWords(title).map(({ start, end }) => canonicalForms(title.slice(start, end))[0] ?? '')
+      .filter(word => word.length >= DISTINCTIVE_WORD_LENGTH)));
+
+  const ranges: [number, number][] = [];
+  words.forEach((word, i) => {
+    const form = canonicalForms(text.slice(word.start, word.end))[0] ?? '';
+    if (distinctive.has(form) || distinctive.has(form.replace(/s$/, ''))) {
+      ranges.push([word.start, word.end]);
+    }
+    titles.forEach(title => {
+      const length = countWords(title);
+      // One word either way covers a dropped "the" or an "and" written as "&".
+      for (let size = Math.max(1, length - 1); size <= length + 1 && i + size <= words.length; size++) {
+        const end = words[i + size - 1].end;
+        if (isGuessCorrect(text.slice(word.start, end), [title], MatchStrictness.NORMAL)) {
+          ranges.push([word.start, end]);
+          break;
+        }
+      }
+    });
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+export const redactAnswer = (text: string, answers: string[]): string =>
+  findAnswerMentions(text, answers)
+    .reverse()
+    .reduce((redacted, [start, end]) => redacted.slice(0, start) + REDACTION + redacted.slice(end), text);
+
+// Mentions within [from, to), blanked out. Mentions that run over either end are cut to fit.
+const redactBetween = (text: string, mentions: [number, number][], from: number, to: number): string => {
+  let redacted = '';
+  let position = from;
+  mentions.forEach(([start, end]) => {
+    if (end <= from || start >= to) return;
+    redacted += text.slice(position, Math.max(start, from)) + REDACTION;
+    position = Math.min(end, to);
+  });
+  return redacted + text.slice(position, to);
+};
+
+const isWordCharacter = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}'’.&]/u.test(char);
+
+// Longer than the longest answer by enough for an added word and a typo or two, which a
+// mention can still have.
+const HOLD_BACK_SLACK = 12;
+
+// Passes a reply on as it's written, with mentions blanked out. The last stretch of what has
+// arrived is held back in case a mention is only half written, and whatever is left is checked
+// once the reply is done.
+export const redactAnswerStream = async function* (stream: AsyncIterable<{ text?: string }>, answers: string[]): AsyncGenerator<{ text?: string }> {
+  const holdBack = Math.max(0, ...answers.map(answer => answer.length)) + HOLD_BACK_SLACK;
+  let text = '';
+  let sent = 0;
+  const release = (upTo: number): string => {
+    const mentions = findAnswerMentions(text, answers);
+    let end = upTo;
+    // Never stop inside a mention, or a word that could still turn into one.
+    mentions.forEach(([start, stop]) => {
+      if (start < end && stop > end) end = start;
+    });
+    while (end > sent && isWordCharacter(text[end - 1]) && isWordCharacter(text[end])) end--;
+    if (end <= sent) return '';
+    const released = redactBetween(text, mentions, sent, end);
+    sent = end;
+    return released;
+  };
+  for await (const chunk of stream) {
+    text += chunk.text ?? '';
+    const released = release(text.length - holdBack);
+    if (released) yield { text: released };
+  }
+  const rest = release(text.length);
+  if (rest) yield { text: rest };
+};
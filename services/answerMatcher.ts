@@ -0,0 +1,115 @@
+import { MatchStrictness } from '../types';
+
+const LEADING_ARTICLES = ['the', 'a', 'an'];
+
+// Common abbreviations are expanded so either spelling matches.
+const TOKEN_SYNONYMS: Record<string, string> = {
+  dr: 'doctor',
+  mr: 'mister',
+  mrs: 'missus',
+  st: 'saint',
+  vs: 'versus',
+  pt: 'part',
+  n: 'and', // "Rock n Roll"
+};
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Sequel-style roman numerals. "I" is left alone because it is usually the pronoun.
+const ROMAN_NUMERALS: Record<string, number> = {
+  ii: 2, iii: 3, iv: 4, v: 5, vi: 6, vii: 7, viii: 8, ix: 9, x: 10,
+  xi: 11, xii: 12, xiii: 13, xiv: 14, xv: 15,
+};
+
+const numberToWords = (n: number): string | null => {
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ONES[n % 10] : '');
+  return null;
+};
+
+const canonicalToken = (token: string): string => {
+  if (/^\d+$/.test(token)) {
+    return numberToWords(Number(token)) ?? token;
+  }
+  if (token in ROMAN_NUMERALS) {
+    return numberToWords(ROMAN_NUMERALS[token])!;
+  }
+  return TOKEN_SYNONYMS[token] ?? token;
+};
+
+const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Every spelling a title can be compared under: with and without a leading article,
+// compacted so that spacing differences (and the letter boxes, which have no spaces) don't matter.
+export const canonicalForms = (title: string): string[] => {
+  const tokens = tokenize(title).map(canonicalToken);
+  const forms = [tokens.join('')];
+  if (tokens.length > 1 && LEADING_ARTICLES.includes(tokens[0])) {
+    forms.push(tokens.slice(1).join(''));
+  }
+  return forms.filter(Boolean);
+};
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo.
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// How many typos are forgiven for an answer of the given (compacted) length.
+const allowedTypos = (length: number, strictness: MatchStrictness): number => {
+  switch (strictness) {
+    case MatchStrictness.STRICT:
+      return 0;
+    case MatchStrictness.LENIENT:
+      return Math.min(3, Math.floor(length / 4));
+    case MatchStrictness.NORMAL:
+    default:
+      return length < 5 ? 0 : length < 10 ? 1 : 2;
+  }
+};
+
+// Checks a guess against the answer and its accepted aliases.
+export const isGuessCorrect = (guess: string, answers: string[], strictness: MatchStrictness): boolean => {
+  const guessForms = canonicalForms(guess);
+  if (guessForms.length === 0) return false;
+
+  return answers.some(answer =>
+    canonicalForms(answer).some(answerForm =>
+      guessForms.some(guessForm => {
+        if (guessForm === answerForm) return true;
+        const tolerance = allowedTypos(answerForm.length, strictness);
+        return tolerance > 0
+          && Math.abs(guessForm.length - answerForm.length) <= tolerance
+          && editDistance(guessForm, answerForm) <= tolerance;
+      })
+    )
+  );
+};
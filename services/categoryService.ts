@@ -0,0 +1,62 @@
+import { Category, CategoryDefinition, CategorySelection, AnswerNormalization } from '../types';
+import { CATEGORIES, DEFAULT_CATEGORY } from '../constants';
+
+const getPredefinedCategory = (id: Category): CategoryDefinition =>
+  CATEGORIES.find(c => c.id === id) ?? CATEGORIES.find(c => c.id === DEFAULT_CATEGORY)!;
+
+// Turns the selector state into a full definition. Custom categories are built on the fly
+// from whatever the player typed, with generic wording for the prompts and UI.
+export const resolveCategory = (selection: CategorySelection): CategoryDefinition => {
+  if (selection.id !== Category.CUSTOM) {
+    return getPredefinedCategory(selection.id);
+  }
+  const name = selection.customName.trim();
+  if (!name) {
+    return getPredefinedCategory(DEFAULT_CATEGORY);
+  }
+  return {
+    id: Category.CUSTOM,
+    label: name,
+    noun: name,
+    answerNoun: `answer from the category "${name}"`,
+    variety: `a wide mix of well-known and lesser-known ${name}`,
+    example: { title: 'Inception', idea: 'a spinning top on a table' },
+    normalization: { stripParentheticals: true },
+  };
+};
+
+// The reverse of resolveCategory, so a category can be sent to the game server and rebuilt there.
+export const toCategorySelection = (category: CategoryDefinition): CategorySelection => ({
+  id: category.id,
+  customName: category.id === Category.CUSTOM ? category.label : '',
+});
+
+// Reduces an answer to the plain letters, digits and single spaces that the guess boxes can show.
+export const normalizeAnswer = (title: string, rules: AnswerNormalization = {}): string => {
+  let result = title.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  if (rules.stripFeaturing) {
+    result = result.replace(/[([]?\s*\b(feat\.?|ft\.?|featuring)\s.*$/i, '');
+  }
+  if (rules.stripParentheticals) {
+    result = result.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ');
+  }
+  if (rules.stripSubtitle) {
+    result = result.replace(/\s*[:–—].*$/, '');
+  }
+  return result
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '') // "Don't" -> "Dont", "Dr." -> "Dr"
+    .replace(/[^a-zA-Z0-9]+/g, ' ') // Hyphens, colons and the like become word breaks.
+    .trim();
+};
+
+// The answer as a round keeps it: normalized with the category's rules, or without them if they
+// leave nothing, and given capitals if it was written all in lower or upper case. Short words in
+// capitals, like "ET", are left alone, as they're usually meant that way.
+export const normalizeTitle = (title: string, rules: AnswerNormalization = {}): string => {
+  const answer = normalizeAnswer(title, rules) || normalizeAnswer(title);
+  const isLowerCase = answer === answer.toLowerCase();
+  const isUpperCase = answer === answer.toUpperCase() && /[A-Z]{5}/.test(answer);
+  if (!/[a-zA-Z]/.test(answer) || !(isLowerCase || isUpperCase)) return answer;
+  return answer.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+};
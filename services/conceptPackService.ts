@@ -0,0 +1,223 @@
+import { Category, ConceptPack, ConceptSource, Difficulty, PackConcept } from '../types';
+import { normalizeAnswer } from './categoryService';
+import { loadJson, saveJson } from './storageService';
+
+// Concept packs are shared as JSON files:
+// { "format": "image-pictionary-pack", "version": 1, "id", "name", "description", "author", "concepts": [...] }
+// Packs come from other players, so they are validated on import and again by the game server.
+
+export const PACK_FORMAT = 'image-pictionary-pack';
+export const PACK_VERSION = 1;
+
+const PACKS_KEY = 'concept-packs';
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_CONCEPTS = 1000;
+const MAX_NAME_LENGTH = 60;
+const MAX_TITLE_LENGTH = 100;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_ALIASES = 10;
+const MIXED_PACK_SHARE = 0.5;
+
+const PACK_CATEGORIES: Category[] = Object.values(Category).filter(c => c !== Category.CUSTOM);
+const DIFFICULTIES = Object.values(Difficulty);
+
+export class ConceptPackError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `This pack has ${problems.length} problems.`);
+    this.name = 'ConceptPackError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const toPackId = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, MAX_NAME_LENGTH);
+
+// Each reader returns the cleaned-up value, or records what's wrong with it in problems.
+const readText = (value: unknown, label: string, maxLength: number, problems: string[]): string | undefined => {
+  if (isMissing(value)) return undefined;
+  if (typeof value !== 'string' || value.length > maxLength) {
+    problems.push(`${label} must be text of at most ${maxLength} characters.`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+};
+
+const readConcept = (value: unknown, where: string, problems: string[]): PackConcept | null => {
+  if (!isObject(value)) {
+    problems.push(`${where} must be an object.`);
+    return null;
+  }
+  const found = problems.length;
+
+  const title = readText(value.title, `${where}: "title"`, MAX_TITLE_LENGTH, problems);
+  if (!title || !normalizeAnswer(title)) {
+    problems.push(`${where} needs a "title" with at least one letter or digit.`);
+  }
+
+  const category = value.category as Category;
+  if (!PACK_CATEGORIES.includes(category)) {
+    problems.push(`${where}: "category" must be one of ${PACK_CATEGORIES.join(', ')}.`);
+  }
+
+  const difficulty = isMissing(value.difficulty) ? undefined : value.difficulty as Difficulty;
+  if (difficulty !== undefined && !DIFFICULTIES.includes(difficulty)) {
+    problems.push(`${where}: "difficulty" must be one of ${DIFFICULTIES.join(', ')}.`);
+  }
+
+  const year = isMissing(value.year) ? undefined : value.year as number;
+  if (year !== undefined && (!Number.isInteger(year) || year < 0 || year > 9999)) {
+    problems.push(`${where}: "year" must be a whole number.`);
+  }
+
+  let aliases: string[] = [];
+  if (!isMissing(value.aliases)) {
+    if (!Array.isArray(value.aliases) || value.aliases.length > MAX_ALIASES) {
+      problems.push(`${where}: "aliases" must be a list of at most ${MAX_ALIASES} titles.`);
+    } else {
+      aliases = value.aliases
+        .map((alias, i) => readText(alias, `${where}: alias ${i + 1}`, MAX_TITLE_LENGTH, problems))
+        .filter((alias): alias is string => !!alias);
+    }
+  }
+
+  const imagePrompt = readText(value.imagePrompt, `${where}: "imagePrompt"`, MAX_TEXT_LENGTH, problems);
+  const explanation = readText(value.explanation, `${where}: "explanation"`, MAX_TEXT_LENGTH, problems);
+
+  if (problems.length > found) return null;
+  return {
+    title: title!,
+    category,
+    ...(aliases.length > 0 && { aliases }),
+    ...(year !== undefined && { year }),
+    ...(difficulty && { difficulty }),
+    ...(imagePrompt && { imagePrompt }),
+    ...(explanation && { explanation }),
+  };
+};
+
+// A single concept, as sent to the game server with a round request.
+export const parsePackConcept = (value: unknown): PackConcept => {
+  const problems: string[] = [];
+  const concept = readConcept(value, 'The concept', problems);
+  if (!concept) throw new ConceptPackError(problems);
+  return concept;
+};
+
+export const parseConceptPack = (value: unknown): ConceptPack => {
+  if (!isObject(value)) {
+    throw new ConceptPackError(['A concept pack must be a JSON object.']);
+  }
+  const problems: string[] = [];
+  if (value.format !== PACK_FORMAT) {
+    problems.push(`"format" must be "${PACK_FORMAT}".`);
+  }
+  if (value.version !== PACK_VERSION) {
+    problems.push(`"version" must be ${PACK_VERSION}.`);
+  }
+
+  const name = readText(value.name, '"name"', MAX_NAME_LENGTH, problems);
+  if (!name) {
+    problems.push('The pack needs a "name".');
+  }
+  const id = toPackId(readText(value.id, '"id"', MAX_NAME_LENGTH, problems) ?? '') || toPackId(name ?? '');
+  const description = readText(value.description, '"description"', MAX_TEXT_LENGTH, problems);
+  const author = readText(value.author, '"author"', MAX_NAME_LENGTH, problems);
+
+  const concepts: PackConcept[] = [];
+  if (!Array.isArray(value.concepts) || value.concepts.length === 0 || value.concepts.length > MAX_CONCEPTS) {
+    problems.push(`"concepts" must be a list of 1 to ${MAX_CONCEPTS} concepts.`);
+  } else {
+    const titles = new Set<string>();
+    value.concepts.forEach((item, i) => {
+      const concept = readConcept(item, `Concept ${i + 1}`, problems);
+      if (!concept) return;
+      const key = normalizeAnswer(concept.title).toLowerCase();
+      if (titles.has(key)) {
+        problems.push(`Concept ${i + 1}: "${concept.title}" is already in the pack.`);
+        return;
+      }
+      titles.add(key);
+      concepts.push(concept);
+    });
+  }
+
+  if (problems.length > 0 || !id || !name) {
+    throw new ConceptPackError(problems.length > 0 ? problems : ['The pack needs an "id" or a "name".']);
+  }
+  return {
+    id,
+    name,
+    ...(description && { description }),
+    ...(author && { author }),
+    concepts,
+  };
+};
+
+export const readConceptPackFile = async (file: File): Promise<ConceptPack> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new ConceptPackError(['The file is too large to be a concept pack.']);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new ConceptPackError(["The file isn't valid JSON."]);
+  }
+  return parseConceptPack(json);
+};
+
+export const serializeConceptPack = (pack: ConceptPack): string =>
+  JSON.stringify({ format: PACK_FORMAT, version: PACK_VERSION, ...pack }, null, 2);
+
+// Saved packs are checked like imported ones, skipping any that no longer pass.
+export const loadConceptPacks = (): ConceptPack[] => {
+  const stored = loadJson<unknown>(PACKS_KEY, []);
+  return (Array.isArray(stored) ? stored : []).flatMap(value => {
+    if (!isObject(value)) return [];
+    try {
+      return [parseConceptPack({ format: PACK_FORMAT, version: PACK_VERSION, ...value })];
+    } catch (e) {
+      console.warn("Skipping a saved concept pack that can't be used:", e);
+      return [];
+    }
+  });
+};
+
+export const saveConceptPacks = (packs: ConceptPack[]): void => saveJson(PACKS_KEY, packs);
+
+// Importing a pack again, e.g. a newer version of it, replaces the old copy.
+export const addConceptPack = (packs: ConceptPack[], pack: ConceptPack): ConceptPack[] =>
+  packs.some(p => p.id === pack.id) ? packs.map(p => (p.id === pack.id ? pack : p)) : [...packs, pack];
+
+// A random unplayed concept for the category, preferring ones marked with the wanted difficulty,
+// then ones with no difficulty, then any.
+export const pickPackConcept = (
+  packs: ConceptPack[],
+  { category, difficulty, pastConcepts }: { category: Category; difficulty: Difficulty; pastConcepts: string[] },
+): PackConcept | null => {
+  const played = new Set(pastConcepts.map(c => normalizeAnswer(c).toLowerCase()));
+  const candidates = packs
+    .flatMap(pack => pack.concepts)
+    .filter(c => c.category === category && !played.has(normalizeAnswer(c.title).toLowerCase()));
+  const preferred = [
+    candidates.filter(c => c.difficulty === difficulty),
+    candidates.filter(c => !c.difficulty),
+    candidates,
+  ].find(group => group.length > 0);
+  return preferred ? preferred[Math.floor(Math.random() * preferred.length)] : null;
+};
+
+// Decides where the next round's answer comes from. Undefined means the model chooses.
+export const choosePackConcept = (
+  source: ConceptSource,
+  packs: ConceptPack[],
+  options: { category: Category; difficulty: Difficulty; pastConcepts: string[] },
+): PackConcept | undefined => {
+  if (source === ConceptSource.AI || packs.length === 0) return undefined;
+  if (source === ConceptSource.MIXED && Math.random() >= MIXED_PACK_SHARE) return undefined;
+  return pickPackConcept(packs, options) ?? undefined;
+};
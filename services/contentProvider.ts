@@ -0,0 +1,103 @@
+import type { Category, ImageCheck } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+// The minimal chat surface the game relies on. The Gemini `Chat` class satisfies
+// this structurally, so the real backend can hand its chats straight through.
+export interface ChatSession {
+  sendMessage: (params: { message: string }) => Promise<{ text?: string }>;
+  // Resolves once the reply starts, then yields it piece by piece as the model writes it.
+  sendMessageStream: (params: { message: string; config?: { abortSignal?: AbortSignal } }) => Promise<AsyncIterable<{ text?: string }>>;
+}
+
+export interface ConceptRequest {
+  // The fully-built prompt and response schema, used by model-backed providers.
+  prompt: string;
+  schema: object;
+  // The raw game inputs, used by providers that don't understand prompts.
+  pastConcepts: string[];
+  imageStyle: string;
+  category: Category;
+  seed?: number; // Set for daily rounds, which should come out the same for everyone
+  concept?: string; // Set when the answer was chosen in advance, e.g. from a concept pack
+  imageCount?: number; // Images wanted for the round. More than one asks for escalating image prompts.
+  isSketch?: boolean; // Asks for sketchCode in place of the image prompt
+  signal?: AbortSignal; // Providers that can cancel a call in flight should do so when this aborts
+}
+
+// Reverse mode: the model looks at an image the player had drawn and names what it shows.
+export interface ImageGuessRequest {
+  prompt: string; // The fully-built instructions, used by model-backed providers
+  imageUrl: string; // As returned by generateImage
+  category: Category;
+  previousGuesses: string[]; // Wrong guesses so far, which shouldn't be repeated
+  signal?: AbortSignal;
+}
+
+// Looks at a generated image for anything that gives the answer away.
+export interface ImageCheckRequest {
+  prompt: string;
+  schema: object;
+  imageUrl: string;
+  signal?: AbortSignal;
+}
+
+// A clue for a round the chat persona doesn't know the answer to.
+export interface ClueRequest {
+  prompt: string;
+  schema: object;
+  concept: string; // Used by providers that don't understand prompts
+  previousClues: string[];
+  signal?: AbortSignal;
+}
+
+// A new p5.js sketch for a round whose sketch failed to run.
+export interface SketchRequest {
+  prompt: string;
+  schema: object;
+  concept: string; // Used by providers that don't understand prompts
+  signal?: AbortSignal;
+}
+
+export interface ContentProvider {
+  name: string;
+  // Resolves to the concept as the model wrote it, which the caller checks with parseConceptData.
+  generateConcept: (request: ConceptRequest) => Promise<unknown>;
+  // Resolves to something that can be used directly as an <img> src.
+  generateImage: (imagePrompt: string, signal?: AbortSignal) => Promise<string>;
+  // Resolves to the guessed title only.
+  guessImage: (request: ImageGuessRequest) => Promise<string>;
+  checkImage: (request: ImageCheckRequest) => Promise<ImageCheck>;
+  generateClue: (request: ClueRequest) => Promise<string>;
+  // Resolves to the sketch's code.
+  generateSketch: (request: SketchRequest) => Promise<string>;
+  createChat: (systemInstruction: string) => ChatSession;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+let provider: ContentProvider | null = null;
+
+const resolveProviderName = (): ProviderName => {
+  const requested = process.env.CONTENT_PROVIDER?.trim().toLowerCase();
+  if (requested === 'gemini' || requested === 'mock') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`Unknown CONTENT_PROVIDER "${requested}", falling back to the default.`);
+  }
+  // Without a key there is no way to reach Gemini, so default to the offline backend.
+  if (!process.env.API_KEY) {
+    console.warn('API_KEY is not set. Using the offline mock content provider.');
+    return 'mock';
+  }
+  return 'gemini';
+};
+
+// Providers are created lazily so that a missing key only fails when Gemini is actually used.
+export const getContentProvider = (): ContentProvider => {
+  if (!provider) {
+    provider = resolveProviderName() === 'mock' ? createMockProvider() : createGeminiProvider();
+  }
+  return provider;
+};
@@ -0,0 +1,155 @@
+import { DailyAttempt, DailyRoundPlan, DailyRoundResult, Round, RoundOutcome, RoundProvenance } from '../types';
+import { CATEGORIES, DAILY_DIFFICULTIES, DAILY_ROUND_COUNT } from '../constants';
+import { getNewRound } from './geminiService';
+import { resolveCategory } from './categoryService';
+import { getDifficulty } from './difficultyService';
+import { findStyleByPrompt, STYLE_LIBRARY } from './styleService';
+import { parseRound } from './roundValidationService';
+import { STORES, clearStore, getRecord, loadJson, putRecord, saveJson } from './storageService';
+
+// The daily challenge. Its rounds are planned from a seed made from the date, so every player gets
+// the same categories, styles and difficulties, and the offline backend picks the same rounds.
+// Generated rounds are cached per date in memory, which the game server shares between players,
+// and in the browser also in IndexedDB, so a reload doesn't generate them again.
+
+const ATTEMPT_KEY = 'daily-attempt';
+const MAX_CACHED_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CachedDailyRounds {
+  date: string;
+  rounds: Round[];
+}
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+// The player's local date, so the daily changes over at their midnight.
+export const getDailyKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Time zones put players up to a day either side of the server's date.
+export const isCurrentDailyKey = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const distance = Math.abs(Date.parse(value) - Date.parse(getDailyKey()));
+  return distance <= DAY_MS;
+};
+
+// FNV-1a, to turn the date into a 32-bit seed.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32. Returns a generator of unsigned 32-bit integers.
+const createSeededRandom = (seed: number) => (): number => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+// Every round gets a different category, so no two rounds in a day can share an answer.
+export const getDailyPlan = (date: string): DailyRoundPlan[] => {
+  const next = createSeededRandom(hashString(date));
+  const categories = CATEGORIES.map(c => c.id);
+  for (let i = categories.length - 1; i > 0; i--) {
+    const j = next() % (i + 1);
+    [categories[i], categories[j]] = [categories[j], categories[i]];
+  }
+  return DAILY_DIFFICULTIES.map((difficulty, i) => ({
+    category: categories[i % categories.length],
+    style: STYLE_LIBRARY[next() % STYLE_LIBRARY.length].prompt,
+    difficulty,
+    seed: next() >>> 1, // Gemini takes the seed as a signed 32-bit integer
+  }));
+};
+
+const canPersist = (): boolean => typeof indexedDB !== 'undefined';
+
+// Every player's daily rounds have the same ids.
+const getDailyRoundId = (date: string, index: number): string => `daily-${date}-${index + 1}`;
+
+const generateDailyRounds = (date: string): Promise<Round[]> =>
+  Promise.all(getDailyPlan(date).map(async ({ category, style, difficulty, seed }, i) => ({
+    ...await getNewRound(getDailyRoundId(date, i), {
+      pastConcepts: [],
+      imageStyle: style,
+      styleGuide: findStyleByPrompt(STYLE_LIBRARY, style)?.guide,
+      category: resolveCategory({ id: category, customName: '' }),
+      difficulty: getDifficulty(difficulty),
+      seed,
+    }),
+    provenance: RoundProvenance.DAILY,
+  })));
+
+const loadDailyRounds = async (date: string): Promise<Round[]> => {
+  if (canPersist()) {
+    try {
+      const cached = await getRecord<CachedDailyRounds>(STORES.DAILY_ROUNDS, date);
+      // Rounds cached by an older version of the game may not have their ids.
+      if (cached) return cached.rounds.map((round, i) => parseRound({ id: getDailyRoundId(date, i), ...round }));
+    } catch (e) {
+      console.warn("Failed to read the cached daily rounds:", e);
+    }
+  }
+  const rounds = await generateDailyRounds(date);
+  if (canPersist()) {
+    // Only the current day's rounds are worth keeping.
+    clearStore(STORES.DAILY_ROUNDS)
+      .then(() => putRecord<CachedDailyRounds>(STORES.DAILY_ROUNDS, { date, rounds }))
+      .catch(e => console.warn("Failed to cache the daily rounds:", e));
+  }
+  return rounds;
+};
+
+const dailyRounds = new Map<string, Promise<Round[]>>();
+
+export const getDailyRoundData = (date: string): Promise<Round[]> => {
+  let rounds = dailyRounds.get(date);
+  if (!rounds) {
+    const loading = loadDailyRounds(date);
+    // Allow a later call to retry instead of caching the failure.
+    loading.catch(() => {
+      if (dailyRounds.get(date) === loading) dailyRounds.delete(date);
+    });
+    dailyRounds.set(date, loading);
+    if (dailyRounds.size > MAX_CACHED_DAYS) {
+      dailyRounds.delete(dailyRounds.keys().next().value!);
+    }
+    rounds = loading;
+  }
+  return rounds;
+};
+
+// Only the latest attempt is kept. An attempt for an earlier date means today hasn't been played.
+export const loadDailyAttempt = (date: string): DailyAttempt => {
+  const attempt = loadJson<DailyAttempt | null>(ATTEMPT_KEY, null);
+  return attempt?.date === date ? attempt : { date, results: [] };
+};
+
+export const saveDailyAttempt = (attempt: DailyAttempt): void => saveJson(ATTEMPT_KEY, attempt);
+
+export const isDailyFinished = (attempt: DailyAttempt): boolean => attempt.results.length >= DAILY_ROUND_COUNT;
+
+const resultSquare = ({ outcome, hintsUsed }: DailyRoundResult): string => {
+  if (outcome !== RoundOutcome.WON) return '🟥';
+  return hintsUsed > 0 ? '🟨' : '🟩';
+};
+
+// A Wordle-style summary that can be shared without giving any answers away.
+export const buildDailyShareText = ({ date, results }: DailyAttempt): string => {
+  const solved = results.filter(r => r.outcome === RoundOutcome.WON).length;
+  const hints = results.reduce((sum, r) => sum + r.hintsUsed, 0);
+  const points = results.reduce((sum, r) => sum + r.points, 0);
+  const times = results.map(r => r.outcome === RoundOutcome.WON ? `${r.timeTakenSeconds}s` : '–');
+  return [
+    `Image Pictionary Daily ${date} ${solved}/${DAILY_ROUND_COUNT}`,
+    results.map(resultSquare).join(''),
+    `⏱️ ${times.join(' · ')}`,
+    `💡 ${hints} ${hints === 1 ? 'hint' : 'hints'} · ${points} points`,
+  ].join('\n');
+};
@@ -0,0 +1,31 @@
+import { Difficulty, DifficultyDefinition, DifficultySetting } from '../types';
+import { DIFFICULTIES } from '../constants';
+import type { LevelCurve } from './scoringService';
+
+export const getDifficulty = (id: Difficulty): DifficultyDefinition =>
+  DIFFICULTIES.find(d => d.id === id) ?? DIFFICULTIES[1];
+
+const difficultyForObscurity = (obscurity: number): Difficulty => {
+  if (obscurity < 0.25) return Difficulty.EASY;
+  if (obscurity < 0.5) return Difficulty.MEDIUM;
+  if (obscurity < 0.8) return Difficulty.HARD;
+  return Difficulty.EXPERT;
+};
+
+export interface ResolvedDifficulty {
+  difficulty: DifficultyDefinition;
+  roundTime: number;
+}
+
+// An explicit choice fixes both the difficulty and the timer. On 'auto', the level curve decides:
+// its obscurity picks the difficulty and its round time is used as-is.
+export const resolveDifficulty = (setting: DifficultySetting, levelCurve: LevelCurve, level: number): ResolvedDifficulty => {
+  if (setting !== 'auto') {
+    const difficulty = getDifficulty(setting);
+    return { difficulty, roundTime: difficulty.roundTime };
+  }
+  return {
+    difficulty: getDifficulty(difficultyForObscurity(levelCurve.obscurityForLevel(level))),
+    roundTime: levelCurve.roundTimeForLevel(level),
+  };
+};
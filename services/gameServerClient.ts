@@ -0,0 +1,136 @@
+import type { CategoryDefinition, ChatAnswerMode, HintRequest, MatchStrictness, PublicRound, ReverseGuess, ReverseRound, RoundHint, RoundReveal, SketchError } from '../types';
+import type { NewGameOptions } from './geminiService';
+import { toCategorySelection } from './categoryService';
+import { GenerationError, isGenerationErrorKind } from './resilienceService';
+import type { RoundBackend, RoundChatSession } from './roundService';
+import type { ReverseRoundOptions } from './reverseService';
+
+// Talks to the game server (server/apiServer.ts). Every request carries an id for this
+// page load, which the server uses to keep this player's rounds and chat apart from everyone else's.
+// Categories and difficulties are sent by id and rebuilt on the server, so clients can't rewrite the prompts.
+
+const CLIENT_ID_HEADER = 'X-Client-Id';
+
+export class GameServerError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GameServerError';
+  }
+}
+
+// Chat replies stream back as one JSON object per line: a piece of the reply, or the error that cut it short.
+const parseReplyLine = (line: string): { text?: string } => {
+  const chunk = JSON.parse(line);
+  if (typeof chunk.error === 'string') {
+    throw isGenerationErrorKind(chunk.kind) ? new GenerationError(chunk.kind, chunk.error) : new GameServerError(chunk.error, 502);
+  }
+  return { text: typeof chunk.text === 'string' ? chunk.text : undefined };
+};
+
+const readReplyStream = async function* (response: Response): AsyncGenerator<{ text?: string }> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const lines = (buffered + value).split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield parseReplyLine(line);
+    }
+  }
+  if (buffered.trim()) yield parseReplyLine(buffered);
+};
+
+export const createRemoteRoundBackend = (baseUrl: string): RoundBackend => {
+  const clientId = crypto.randomUUID();
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const send = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: clientId },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`Request to ${path} failed:`, e);
+      throw new GameServerError("Couldn't reach the game server. Is it running?", 0);
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      const message = typeof payload.error === 'string' ? payload.error : `The game server returned an error (${response.status}).`;
+      // Generation failures keep their category, so the message can be tailored here too.
+      if (isGenerationErrorKind(payload.kind)) throw new GenerationError(payload.kind, message);
+      throw new GameServerError(message, response.status);
+    }
+    return response;
+  };
+
+  const post = async <T>(path: string, body: object = {}, signal?: AbortSignal): Promise<T> => {
+    const response = await send(path, body, signal);
+    return await response.json().catch(() => ({})) as T;
+  };
+
+  const roundPath = (roundId: string, action: string) => `/rounds/${encodeURIComponent(roundId)}/${action}`;
+  const reversePath = (roundId: string, action: string) => `/reverse/${encodeURIComponent(roundId)}/${action}`;
+
+  return {
+    createRound: ({ pastConcepts, imageStyle, styleGuide, category, difficulty, packConcept, imageCount, isSketch, signal }: NewGameOptions) => post<PublicRound>('/rounds', {
+      pastConcepts,
+      imageStyle,
+      styleGuide,
+      category: toCategorySelection(category),
+      difficulty: difficulty.id,
+      packConcept,
+      imageCount,
+      isSketch,
+    }, signal),
+    claimRound: async (roundId: string) =>
+      (await post<{ isAvailable: boolean }>(roundPath(roundId, 'claim'))).isAvailable,
+    getDailyRounds: async (date: string) => (await post<{ rounds: PublicRound[] }>('/daily', { date })).rounds,
+    startRound: async (roundId: string, roundTime: number) => {
+      await post(roundPath(roundId, 'start'), { roundTime });
+    },
+    endRound: async (roundId: string) => {
+      await post(roundPath(roundId, 'end'));
+    },
+    checkGuess: async (roundId: string, guess: string, strictness: MatchStrictness) =>
+      (await post<{ isCorrect: boolean }>(roundPath(roundId, 'guess'), { guess, strictness })).isCorrect,
+    getHint: async (roundId: string, request: HintRequest) =>
+      (await post<{ hint: RoundHint | null }>(roundPath(roundId, 'hint'), request)).hint,
+    revealRound: (roundId: string) => post<RoundReveal>(roundPath(roundId, 'reveal')),
+    getClue: async (roundId: string, category: CategoryDefinition, previousClues: string[]) =>
+      (await post<{ clue: string }>(roundPath(roundId, 'clue'), { category: toCategorySelection(category), previousClues })).clue,
+    redrawSketch: async (roundId: string, category: CategoryDefinition, errors: SketchError[]) =>
+      (await post<{ sketchCode: string }>(roundPath(roundId, 'sketch'), { category: toCategorySelection(category), errors })).sketchCode,
+    createChat: (category: CategoryDefinition, answerMode: ChatAnswerMode): RoundChatSession => {
+      // Starting the conversation is asynchronous, so messages wait for it.
+      const ready = post<{ ok: true }>('/chat/reset', { category: toCategorySelection(category), answerMode });
+      ready.catch(e => console.error("Failed to start a chat on the game server:", e));
+      return {
+        sendMessage: async ({ message, roundEvent }) => {
+          await ready;
+          return post<{ text?: string }>('/chat', { message, roundEvent });
+        },
+        sendMessageStream: async ({ message, roundEvent, config }) => {
+          await ready;
+          return readReplyStream(await send('/chat/stream', { message, roundEvent }, config?.abortSignal));
+        },
+      };
+    },
+    createReverseRound: ({ pastConcepts, imageStyle, category, difficulty }: ReverseRoundOptions) => post<ReverseRound>('/reverse', {
+      pastConcepts,
+      imageStyle,
+      category: toCategorySelection(category),
+      difficulty: difficulty.id,
+    }),
+    drawReverseRound: async (roundId: string, prompt: string, signal?: AbortSignal) =>
+      (await post<{ imageUrl: string }>(reversePath(roundId, 'draw'), { prompt }, signal)).imageUrl,
+    guessReverseRound: (roundId: string, signal?: AbortSignal) => post<ReverseGuess>(reversePath(roundId, 'guess'), {}, signal),
+  };
+};
@@ -0,0 +1,192 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerationErrorKind, ImageCheck } from '../types';
+import type { ClueRequest, ContentProvider, ConceptRequest, ImageCheckRequest, ImageGuessRequest, SketchRequest } from './contentProvider';
+import { classifyError, GenerationError } from './resilienceService';
+
+const CONCEPT_MODEL = 'gemini-2.5-flash';
+const CHAT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-fast-generate-001';
+// Tried when the main image model fails for any reason other than a safety block, a bad key or a turned-down request.
+const FALLBACK_IMAGE_MODEL = 'imagen-4.0-generate-001';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Generated images arrive as data URLs, which is the only kind the model can be shown here.
+const toInlineImage = (imageUrl: string) => {
+  const [, mimeType, data] = imageUrl.match(/^data:([^;,]+);base64,(.+)$/) ?? [];
+  if (!data) {
+    throw new Error("The AI can only look at images it generated itself.");
+  }
+  return { inlineData: { mimeType, data } };
+};
+
+export const createGeminiProvider = (): ContentProvider => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API_KEY environment variable not set");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateConcept = async ({ prompt, schema, seed, signal }: ConceptRequest): Promise<unknown> => {
+    const conceptResponse = await ai.models.generateContent({
+        model: CONCEPT_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          seed,
+          abortSignal: signal,
+        },
+    });
+
+    if (conceptResponse.promptFeedback?.blockReason) {
+        throw new GenerationError(GenerationErrorKind.SAFETY);
+    }
+    const conceptJsonText = conceptResponse.text?.trim() ?? '';
+    try {
+        return JSON.parse(conceptJsonText);
+    } catch (e) {
+        console.error("Failed to parse concept data JSON:", e);
+        console.error("Received text:", conceptJsonText);
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI returned an invalid concept. Please try again.");
+    }
+  };
+
+  const generateImageWith = async (model: string, imagePrompt: string, signal?: AbortSignal): Promise<string> => {
+    const imageResponse = await ai.models.generateImages({
+        model,
+        prompt: imagePrompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: '1:1',
+          includeRaiReason: true,
+          abortSignal: signal,
+        },
+    });
+
+    const [image] = imageResponse.generatedImages ?? [];
+    if (image?.raiFilteredReason) {
+        throw new GenerationError(GenerationErrorKind.SAFETY);
+    }
+    const base64ImageBytes = image?.image?.imageBytes;
+    if (!base64ImageBytes) {
+        throw new Error("The AI failed to generate an image. Please try again.");
+    }
+    return `data:image/jpeg;base64,${base64ImageBytes}`;
+  };
+
+  const generateImage = async (imagePrompt: string, signal?: AbortSignal): Promise<string> => {
+    try {
+        return await generateImageWith(IMAGE_MODEL, imagePrompt, signal);
+    } catch (e) {
+        const { kind } = classifyError(e);
+        // The other model uses the same key and gets the same request, so neither would fare better there.
+        if (kind === GenerationErrorKind.SAFETY || kind === GenerationErrorKind.AUTH || kind === GenerationErrorKind.REJECTED || kind === GenerationErrorKind.CANCELLED || signal?.aborted) {
+            throw e;
+        }
+        console.warn(`${IMAGE_MODEL} failed (${kind}), trying ${FALLBACK_IMAGE_MODEL}.`, e);
+        return generateImageWith(FALLBACK_IMAGE_MODEL, imagePrompt, signal);
+    }
+  };
+
+  const guessImage = async ({ prompt, imageUrl, signal }: ImageGuessRequest): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: CONCEPT_MODEL,
+        contents: [{ role: 'user', parts: [toInlineImage(imageUrl), { text: prompt }] }],
+        config: {
+          abortSignal: signal,
+        },
+    });
+    if (response.promptFeedback?.blockReason) {
+        throw new GenerationError(GenerationErrorKind.SAFETY);
+    }
+    const guess = response.text?.trim().split('\n')[0].replace(/^["'“]+|["'”.]+$/g, '').trim();
+    if (!guess) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI couldn't come up with a guess. Please try again.");
+    }
+    return guess;
+  };
+
+  const checkImage = async ({ prompt, schema, imageUrl, signal }: ImageCheckRequest): Promise<ImageCheck> => {
+    const response = await ai.models.generateContent({
+        model: CONCEPT_MODEL,
+        contents: [{ role: 'user', parts: [toInlineImage(imageUrl), { text: prompt }] }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+    });
+    let check: unknown;
+    try {
+        check = JSON.parse(response.text?.trim() || '{}');
+    } catch {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI returned an invalid image check.");
+    }
+    if (!isObject(check) || typeof check.hasText !== 'boolean' || typeof check.showsTitle !== 'boolean') {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI returned an invalid image check.");
+    }
+    return { hasText: check.hasText, showsTitle: check.showsTitle, reason: typeof check.reason === 'string' ? check.reason : '' };
+  };
+
+  const generateClue = async ({ prompt, schema, signal }: ClueRequest): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: CONCEPT_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+    });
+    if (response.promptFeedback?.blockReason) {
+        throw new GenerationError(GenerationErrorKind.SAFETY);
+    }
+    const { clue } = JSON.parse(response.text?.trim() || '{}');
+    if (typeof clue !== 'string' || !clue.trim()) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI returned an invalid clue.");
+    }
+    return clue.trim();
+  };
+
+  const generateSketch = async ({ prompt, schema, signal }: SketchRequest): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: CONCEPT_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+    });
+    if (response.promptFeedback?.blockReason) {
+        throw new GenerationError(GenerationErrorKind.SAFETY);
+    }
+    const { sketchCode } = JSON.parse(response.text?.trim() || '{}');
+    if (typeof sketchCode !== 'string' || !sketchCode.trim()) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI returned an invalid sketch.");
+    }
+    return sketchCode;
+  };
+
+  const createChat = (systemInstruction: string) => ai.chats.create({
+    model: CHAT_MODEL,
+    config: {
+      systemInstruction,
+    },
+  });
+
+  return {
+    name: 'gemini',
+    generateConcept,
+    generateImage,
+    guessImage,
+    checkImage,
+    generateClue,
+    generateSketch,
+    createChat,
+  };
+};
@@ -1,153 +1,381 @@
 
-import { GoogleGenAI, Chat, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { CategoryDefinition, ChatAnswerMode, ConceptData, DifficultyDefinition, GenerationErrorKind, ImageCheck, PackConcept, PromptTemplateId, PromptVariables, Round, RoundProvenance, SketchError } from '../types';
+import { getContentProvider, ChatSession } from './contentProvider';
+import { normalizeTitle } from './categoryService';
+import { classifyError, GenerationError, withRetry } from './resilienceService';
+import { findAnswerMentions, redactAnswer } from './answerGuardService';
+import { checkSketchCode, describeSketchErrors } from './sketchGuardService';
+import { renderPrompt } from './promptService';
+import { parseConceptData, RoundValidationError } from './roundValidationService';
+import { buildImageGuessPrompt, buildReverseImagePrompt } from './reverseService';
 
-const API_KEY = process.env.API_KEY;
+// Variables every prompt template can use, from the category.
+const buildCategoryVariables = ({ noun, answerNoun, variety, example }: CategoryDefinition): PromptVariables => ({
+  noun,
+  answerNoun,
+  variety,
+  exampleTitle: example.title,
+  exampleTitleLower: example.title.toLowerCase(),
+  exampleIdea: example.idea,
+});
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+export const createChat = (category: CategoryDefinition, answerMode: ChatAnswerMode = ChatAnswerMode.FILTERED): ChatSession => {
+  const systemInstruction = renderPrompt(PromptTemplateId.CHAT_SYSTEM, {
+    ...buildCategoryVariables(category),
+    isAnswerHidden: answerMode === ChatAnswerMode.HIDDEN,
+  });
+  return getContentProvider().createChat(systemInstruction);
+};
+
+// Sent when a reply during the round named the answer, to get one that doesn't.
+export const buildRewriteRequest = ({ noun, answerNoun }: CategoryDefinition): string =>
+  `Game Event: Your last message gave away the ${answerNoun}, and the user hasn't seen it. Write it again without naming the ${noun} or any word of its title. Reply with the new message only.`;
+
+const CLUE_TIMEOUT_MS = 20_000;
+
+const clueSchema = {
+  type: Type.OBJECT,
+  properties: {
+    clue: {
+      type: Type.STRING,
+      description: "One short sentence hinting at the answer without naming it or any word of it.",
+    },
+  },
+  required: ["clue"],
+};
+
+// For chats that don't know the answer. The clue is asked for on its own, with nothing to chat
+// about, and anything in it that still names the answer is blanked out.
+export const generateClue = async ({ concept, aliases, explanation }: Pick<Round, 'concept' | 'aliases' | 'explanation'>, category: CategoryDefinition, previousClues: string[], signal?: AbortSignal): Promise<string> => {
+  const { answerNoun } = category;
+  const earlier = previousClues.length > 0
+    ? `\nThe user already has these clues, so give a new one that adds to them: ${previousClues.join(' ')}`
+    : '';
+  const prompt = `You are giving a clue in a guessing game. The user is trying to guess the ${answerNoun} "${concept}" from an image. ${explanation}
+Write one short clue that helps without giving it away. Do NOT use the ${answerNoun}, any word of it${aliases.length > 0 ? `, or any of these other names for it: ${aliases.join(', ')}` : ''}. Do not describe the image itself.${earlier}
+Return the result as a JSON object matching the provided schema.`;
+  const clue = await withRetry(
+    attemptSignal => getContentProvider().generateClue({ prompt, schema: clueSchema, concept, previousClues, signal: attemptSignal }),
+    { label: 'clue', timeoutMs: CLUE_TIMEOUT_MS, signal },
+  );
+  return redactAnswer(clue, [concept, ...aliases]);
+};
+
+
+export interface NewGameOptions {
+    pastConcepts: string[];
+    imageStyle: string;
+    styleGuide?: string; // What to stress when describing an image in the style, from the style library
+    category: CategoryDefinition;
+    difficulty: DifficultyDefinition;
+    seed?: number;
+    packConcept?: PackConcept; // Set when the answer comes from a concept pack instead of the model
+    imageCount?: number; // More than one makes an escalating round, with images from abstract to obvious
+    isSketch?: boolean; // Draws the round with a p5.js sketch instead of images. Ignores imageCount.
+    signal?: AbortSignal; // Aborting gives up on the round, e.g. because the player moved on
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-export const createChat = (): Chat => {
-  const systemInstruction = `You are an AI assistant playing "Image Pictionary" with a user. Your persona is fun and engaging.
-
-You will receive special "Game Event" messages from the system to guide you. This is the ONLY way you know the game's state has changed. Here's how you respond to events and user chat:
-
-**CRITICAL RULE: HANDLING USER GUESSES IN CHAT**
-- The user is supposed to guess by typing into the letter boxes, NOT by chatting with you.
-- If a user types a message that looks like a guess (e.g., "is it inception?", "the answer is titanic"), you MUST NOT confirm or deny it. You do not know if they are right or wrong. Only the game system knows.
-- Your ONLY response in this case is to gently redirect them to use the letter boxes.
-- **Example Redirects:** "That's an interesting idea! Try typing your guess in the boxes above.", or "Looks like you have an answer in mind. Please enter it in the guess area above."
-- **This is the most important rule. Do NOT reveal the answer or congratulate them. You only react to a win or loss when you receive a "Game Event" from the system.**
-
-You will follow a strict flow based on "Game Event" messages:
-
-1.  **New Round Thinking:**
-    -   **Game Event:** You will get a message telling you to think of a new movie.
-    -   **Your Task:** Respond with a short, conversational message (3-6 words) acknowledging this.
-    -   **Examples:** "Okay, thinking of a good one...", "Let me see what to create...", "Alright, picking a new movie."
-
-2.  **New Round Kick-off:**
-    -   **Game Event:** You will get the movie title and your image idea.
-    -   **Your Task:** Provide a short, enthusiastic kick-off message (5-8 words) to the user to start guessing.
-    -   **Examples:** "My new image is ready!", "Alright, what do you think?", "Here's my latest creation."
-
-3.  **End of Round Reaction:**
-    -   **Game Event:** You will get a message stating the round has ended (win, loss, or skip) along with the answer and the original image explanation.
-    -   **Your Task:** You MUST wait for this event before reacting. Your response must be conversational and ALWAYS incorporate the explanation from the event. Start by stating the outcome (e.g., "You got it!"), then the answer, then the explanation starting with "My idea was...".
-    -   **Crucially, you MUST reveal the answer AND the explanation provided in the game event. This is not optional.**
-    -   **Example (User Wins):** "You got it! The answer was 'Inception'. My idea was to create an image of a spinning top on a table."
-    -   **Example (User Loses):** "So close! The answer was 'Inception'. My idea was to create an image of a spinning top on a table."
-
-4.  **Level Up Celebration:**
-    -   **Game Event:** The end-of-round event may also indicate the user reached a new level.
-    -   **Your Task:** If so, you MUST congratulate them after your end-of-round reaction.
-    -   **Example:** "You got it! The answer was 'Inception'. My idea was to create an image of a spinning top. Also, congrats on reaching Level 2! You're on a roll!"
-
-5.  **Score & Level Awareness:**
-    - **Game Context Update:** You will receive invisible updates with the user's current score and level.
-    - **Your Task:** If the user asks about their score or level (e.g., "what's my score?", "what level am I on?"), use this information to answer them accurately.
-
-General Chat Rules:
--   For any other user chat message (like asking for a clue), you can respond naturally, but never reveal the answer during a round. Give subtle, concise hints only.
--   Always respond in plain text. Do not use markdown (like **bold** or *italics*).
--   Your kick-off messages and hints should be very short. Your end-of-round messages should be more conversational and always include the explanation provided in the game event.`;
-
-  return ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction,
+// Escalating rounds ask for the earlier, more abstract images on top of the usual prompt.
+const buildEscalationPrompt = (imageCount: number, { noun }: CategoryDefinition): string => `
+This round shows ${imageCount} images one after another, so the user gets more help the longer they take.
+The image prompt is for the last and most obvious image, and follows the guidance above. Also write ${imageCount - 1} earlier image prompts (imagePrompts), most abstract first: the first should only hint at the ${noun} through a mood, a color scheme or an oblique detail, and each one after it should be easier to recognize than the one before. All of them use the same style.`;
+
+const SKETCH_TIMEOUT_MS = 30_000;
+const MAX_SKETCH_LENGTH = 20_000;
+
+// What every sketch has to stick to, so it runs in the game's sandbox and builds up over the round.
+const buildSketchRules = ({ noun }: CategoryDefinition): string => `The sketch is plain JavaScript for p5.js 1.x in global mode: define setup() and draw(), and call createCanvas(400, 400) in setup(). Don't load any files, images, fonts or sounds, and don't touch the page outside the canvas.
+It runs in a sandbox without the network, storage, eval or the page around the canvas, and code that uses any of them is rejected before it runs. Loops that run for more than a second are stopped, so keep every frame quick.
+A global variable roundProgress goes from 0 when the round starts to 1 when time runs out. Redraw the whole picture in draw() every frame and use roundProgress to build it up: at 0 show only the background and a few vague shapes, add the recognizable details as it rises, and show the full picture at 1. Gentle movement is welcome.
+The drawing must not contain any text, letters, or numbers, so don't use text(). Don't name the ${noun} anywhere in the code, including comments, variable names and strings.`;
+
+// The code is sent to the browser, where anyone can read it, so it mustn't name the answer.
+const checkSketch = (code: string, answers: string[]): string => {
+    if (code.length > MAX_SKETCH_LENGTH) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI wrote a sketch that was too long. Please try again.");
+    }
+    if (findAnswerMentions(code, answers).length > 0) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI's sketch gave the answer away. Please try again.");
+    }
+    return code;
+};
+
+// Code the browser would refuse to run is no use either.
+const checkSketchRuns = (code: string): string => {
+    const errors = checkSketchCode(code);
+    if (errors.length > 0) {
+        throw new GenerationError(GenerationErrorKind.MALFORMED, `The AI wrote a sketch the game couldn't run:\n${describeSketchErrors(errors)}`);
+    }
+    return code;
+};
+
+const sketchSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sketchCode: {
+      type: Type.STRING,
+      description: "The complete p5.js sketch, as plain JavaScript.",
     },
-  });
+  },
+  required: ["sketchCode"],
+};
+
+// Sketches that fail the checks or break in the browser are written again, with what went wrong.
+export const redrawSketch = async ({ concept, aliases, explanation, sketchCode }: Pick<Round, 'concept' | 'aliases' | 'explanation' | 'sketchCode'>, category: CategoryDefinition, errors: SketchError[], signal?: AbortSignal): Promise<string> => {
+  const prompt = `You wrote a p5.js sketch of the ${category.answerNoun} "${concept}" for a guessing game. ${explanation}
+It failed with these problems, with line numbers counted from the sketch's first line:
+${describeSketchErrors(errors)}
+
+${sketchCode ?? ''}
+
+Write the sketch again so that it works, keeping the same picture.
+${buildSketchRules(category)}
+Return the result as a JSON object matching the provided schema.`;
+  return withRetry(
+    async attemptSignal => checkSketchRuns(checkSketch(
+      await getContentProvider().generateSketch({ prompt, schema: sketchSchema, concept, signal: attemptSignal }),
+      [concept, ...aliases],
+    )),
+    { label: 'sketch', timeoutMs: SKETCH_TIMEOUT_MS, signal },
+  );
 };
 
+// The style's guide, if it has one, follows the rule that every image is in the style.
+const buildStyleRule = (imageStyle: string, styleGuide = ''): string =>
+    `The style for all images MUST be that of a detailed ${imageStyle}.${styleGuide.trim() ? ` ${styleGuide.trim()}` : ''}`;
+
+// Variables for the concept prompts and the concept schema's descriptions.
+const buildRoundVariables = ({ pastConcepts, imageStyle, styleGuide, category, difficulty, packConcept }: NewGameOptions, imageCount: number, isSketch: boolean): PromptVariables => ({
+    ...buildCategoryVariables(category),
+    imageStyle,
+    styleRule: buildStyleRule(imageStyle, styleGuide),
+    literalness: difficulty.literalness,
+    popularity: difficulty.popularity,
+    exclusions: pastConcepts.join(', '),
+    isSketch,
+    imageCount,
+    earlierImageCount: imageCount - 1,
+    escalation: imageCount > 1 ? buildEscalationPrompt(imageCount, category) : '',
+    sketchRules: isSketch ? buildSketchRules(category) : '',
+    // For answers chosen in advance: the model only has to come up with the image.
+    title: packConcept?.title ?? '',
+    givenImagePrompt: packConcept?.imagePrompt ?? '',
+});
 
-export const getNewGameData = async (pastConcepts: string[], imageStyle: string) => {
-    // Step 1: Generate the concept, explanation, and a detailed image prompt.
-    const conceptSchema = {
-        type: Type.OBJECT,
-        properties: {
-          concept: {
-            type: Type.STRING,
-            description: "The exact title of a movie to represent, with any punctuation like colons or periods removed.",
-          },
-          explanation: {
-            type: Type.STRING,
-            description: `A casual, concise, short, first-person sentence explaining your visual idea. For example: 'My idea was to focus on the iconic [object/theme] from the movie by depicting it in a ${imageStyle} style.'`,
-          },
-          imagePrompt: {
-            type: Type.STRING,
-            description: `A detailed, descriptive prompt for an AI image generator. The prompt MUST describe the image in a detailed ${imageStyle} style. It should focus on the notable and recognizable aspects of the movie (e.g., key objects, motifs, or symbolic themes). For example, if the style is 'wood carving', describe intricate details like wood grain and chisel marks. If it's 'pixel art', specify a bit-depth like '16-bit'. Do NOT include any text, letters, or numbers in the image prompt.`,
-          },
-        },
-        required: ["concept", "explanation", "imagePrompt"],
+const buildConceptSchema = (variables: PromptVariables, imageCount: number, isSketch: boolean) => {
+    const describe = (id: PromptTemplateId) => renderPrompt(id, variables);
+    const properties: Record<string, object> = {
+      concept: { type: Type.STRING, description: describe(PromptTemplateId.SCHEMA_CONCEPT) },
+      aliases: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe(PromptTemplateId.SCHEMA_ALIASES) },
+      year: { type: Type.INTEGER, description: describe(PromptTemplateId.SCHEMA_YEAR) },
+      explanation: { type: Type.STRING, description: describe(PromptTemplateId.SCHEMA_EXPLANATION) },
     };
-    
-    let exclusionPrompt = "";
-    if (pastConcepts && pastConcepts.length > 0) {
-      exclusionPrompt = `\n\nIMPORTANT: Do not choose any of the following movie titles that have already been used: ${pastConcepts.join(', ')}.`;
+    // Sketch rounds get code in place of the image prompt.
+    const drawing = isSketch ? 'sketchCode' : 'imagePrompt';
+    properties[drawing] = { type: Type.STRING, description: describe(isSketch ? PromptTemplateId.SCHEMA_SKETCH_CODE : PromptTemplateId.SCHEMA_IMAGE_PROMPT) };
+    const required = ["concept", "explanation", drawing];
+    if (imageCount > 1) {
+        properties.imagePrompts = { type: Type.ARRAY, items: { type: Type.STRING }, description: describe(PromptTemplateId.SCHEMA_IMAGE_PROMPTS) };
+        required.push("imagePrompts");
     }
+    return { type: Type.OBJECT, properties, required };
+};
+
+const MAX_IMAGE_ATTEMPTS = 3;
+// Per attempt. Calls that fail or time out are retried with backoff by withRetry.
+const CONCEPT_TIMEOUT_MS = 30_000;
+const IMAGE_TIMEOUT_MS = 60_000;
+const IMAGE_CHECK_TIMEOUT_MS = 20_000;
+// Image check failures that a new image, and so a new check, might get past.
+const REDRAW_ON_CHECK_FAILURE = [GenerationErrorKind.NETWORK, GenerationErrorKind.TIMEOUT, GenerationErrorKind.MALFORMED];
+
+const imageCheckSchema = {
+    type: Type.OBJECT,
+    properties: {
+      hasText: {
+        type: Type.BOOLEAN,
+        description: 'Whether any text, letters, numbers or writing can be seen anywhere in the image, including on signs, books, screens, clothing and packaging.',
+      },
+      showsTitle: {
+        type: Type.BOOLEAN,
+        description: 'Whether the answer, or any of its other names, is written or spelled out anywhere in the image.',
+      },
+      reason: {
+        type: Type.STRING,
+        description: 'If either is true, a short description of what can be read and where. Otherwise an empty string.',
+      },
+    },
+    required: ["hasText", "showsTitle", "reason"],
+};
 
-    const conceptPrompt = `You are running a game called Image Pictionary, where the user has to guess a movie title based on an AI-generated image you create.
-Your task is to generate a new round for the user.
-
-The key is to create an interesting and creative image that is guessable but not overly literal. The style for all images MUST be that of a detailed ${imageStyle}.
-
-1.  Choose a movie.
-2.  Identify its most notable and recognizable visual aspects. This could be anything from a key object, a symbolic motif, or a famous setting.
-3.  Create a detailed prompt for an image generator that captures one or more of these aspects in a detailed ${imageStyle} style.
-4.  Provide the movie title (concept), a brief explanation of your visual idea, and the detailed image prompt.
-
-IMPORTANT: For the 'concept' (the movie title), you MUST remove punctuation like colons (:) or periods (.). For example, a movie like "Dr. Strangelove" should be provided as "Dr Strangelove".
-Be varied in your choices, picking from iconic, obscure, and cult classic films.${exclusionPrompt}
-Return the result as a JSON object matching the provided schema.
-`;
-
-    const conceptResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: conceptPrompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: conceptSchema,
-        },
-    });
-
-    const conceptJsonText = conceptResponse.text.trim();
-    let conceptData: { concept: string, explanation: string, imagePrompt: string };
-    try {
-        conceptData = JSON.parse(conceptJsonText);
-        if (!conceptData.concept || !conceptData.explanation || !conceptData.imagePrompt) {
-             throw new Error("Invalid data structure for concept from API");
+const buildImageCheckPrompt = ([answer, ...aliases]: string[], { answerNoun }: CategoryDefinition): string => {
+    const otherNames = aliases.length > 0 ? ` (also known as ${aliases.map(alias => `"${alias}"`).join(', ')})` : '';
+    return `This image is used in a guessing game where players have to name the ${answerNoun} "${answer}"${otherNames} from the picture alone.
+Check it carefully for anything that would give the answer away: any visible text, letters, numbers or writing, and above all the ${answerNoun} itself written anywhere.
+Return the result as a JSON object matching the provided schema.`;
+};
+
+// Imagen often draws lettering despite being told not to, which can give the answer away. Each image
+// is checked by a vision model and drawn again with a firmer prompt if it shows any. The rejection
+// reasons can quote the answer, so they only go into the retry as a generic warning. An image that
+// can't be checked is drawn again too, rather than shown unchecked.
+const generateCheckedImage = async (imagePrompt: string, answers: string[], category: CategoryDefinition, rejections: string[], signal?: AbortSignal): Promise<string> => {
+    const provider = getContentProvider();
+    let prompt = imagePrompt;
+    for (let attempt = 1; ; attempt++) {
+        const imageUrl = await withRetry(
+            attemptSignal => provider.generateImage(prompt, attemptSignal),
+            { label: 'image', timeoutMs: IMAGE_TIMEOUT_MS, signal },
+        );
+        let check: ImageCheck;
+        try {
+            check = await withRetry(
+                attemptSignal => provider.checkImage({ prompt: buildImageCheckPrompt(answers, category), schema: imageCheckSchema, imageUrl, signal: attemptSignal }),
+                { label: 'image check', timeoutMs: IMAGE_CHECK_TIMEOUT_MS, attempts: 2, signal },
+            );
+        } catch (e) {
+            // A bad key, a spent quota or a turned-down request would fail the next check too.
+            if (signal?.aborted || !REDRAW_ON_CHECK_FAILURE.includes(classifyError(e).kind)) throw e;
+            rejections.push('The image could not be checked.');
+            console.error(`Failed to check the image (attempt ${attempt} of ${MAX_IMAGE_ATTEMPTS}):`, e);
+            if (attempt >= MAX_IMAGE_ATTEMPTS) throw e;
+            continue;
+        }
+        if (!check.hasText && !check.showsTitle) {
+            return imageUrl;
         }
-    } catch (e) {
-        console.error("Failed to parse concept data JSON:", e);
-        console.error("Received text:", conceptJsonText);
-        throw new Error("The AI returned an invalid concept. Please try again.");
+        const reason = check.reason || (check.showsTitle ? 'The image shows the answer.' : 'The image contains text.');
+        rejections.push(reason);
+        console.warn(`Rejected image (attempt ${attempt} of ${MAX_IMAGE_ATTEMPTS}): ${reason}`);
+        if (attempt >= MAX_IMAGE_ATTEMPTS) {
+            throw new GenerationError(GenerationErrorKind.MALFORMED, "The AI kept putting writing in the image. Please try again.");
+        }
+        prompt = `${imagePrompt}\n\nIMPORTANT: An earlier version of this image was rejected because it contained writing. The image must contain absolutely no text, letters, numbers, signs, labels, logos, or captions of any kind.`;
     }
+};
+
+// Reverse mode: draws the player's prompt, and has the model name what the image shows. The image
+// is checked like a round's, so a prompt can't get the title written into it for the model to read.
+export const drawReverseImage = (prompt: string, imageStyle: string, answers: string[], category: CategoryDefinition, signal?: AbortSignal): Promise<string> =>
+    generateCheckedImage(buildReverseImagePrompt(prompt, imageStyle), answers, category, [], signal);
 
-    // Step 2: Generate the image using the prompt from Step 1.
-    const imageResponse = await ai.models.generateImages({
-        model: 'imagen-4.0-fast-generate-001',
-        prompt: conceptData.imagePrompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/jpeg',
-          aspectRatio: '1:1',
-        },
-    });
-
-    if (!imageResponse.generatedImages || imageResponse.generatedImages.length === 0) {
-        throw new Error("The AI failed to generate an image. Please try again.");
+export const guessReverseImage = (imageUrl: string, category: CategoryDefinition, previousGuesses: string[], signal?: AbortSignal): Promise<string> =>
+    withRetry(
+        attemptSignal => getContentProvider().guessImage({
+            prompt: buildImageGuessPrompt(category, previousGuesses),
+            imageUrl,
+            category: category.id,
+            previousGuesses,
+            signal: attemptSignal,
+        }),
+        { label: 'image guess', timeoutMs: CONCEPT_TIMEOUT_MS, signal },
+    );
+
+// A fully hand-written round doesn't need the model at all, and only has the one image.
+const isHandwritten = ({ packConcept, isSketch = false }: NewGameOptions): boolean =>
+    !isSketch && !!packConcept?.imagePrompt && !!packConcept.explanation;
+
+// Step 1 of a new round: the answer, the explanation, and the image prompts or sketch. Also used on
+// its own to evaluate prompt versions, which don't need the images.
+export const getNewConcept = async (options: NewGameOptions): Promise<ConceptData> => {
+    const { pastConcepts, imageStyle, category, seed, packConcept, imageCount: requestedImageCount = 1, isSketch = false, signal } = options;
+    const provider = getContentProvider();
+    const imageCount = isSketch ? 1 : requestedImageCount;
+    const { normalization } = category;
+
+    let conceptData: ConceptData;
+    if (packConcept && isHandwritten(options)) {
+        const { title, aliases = [], year, explanation = '', imagePrompt = '' } = packConcept;
+        conceptData = { concept: title, aliases, year, explanation, imagePrompt };
+    } else {
+        const variables = buildRoundVariables(options, imageCount, isSketch);
+        const prompt = renderPrompt(packConcept ? PromptTemplateId.PACK_CONCEPT : PromptTemplateId.CONCEPT, variables);
+        const schema = buildConceptSchema(variables, imageCount, isSketch);
+        const generated = await withRetry(async attemptSignal => {
+          const data = parseConceptData(await provider.generateConcept({
+            prompt,
+            schema,
+            pastConcepts,
+            imageStyle,
+            category: category.id,
+            seed,
+            concept: packConcept?.title,
+            imageCount,
+            isSketch,
+            signal: attemptSignal,
+          }), { normalization, isSketch, imageCount });
+          if (isSketch) {
+            checkSketch(data.sketchCode ?? '', [packConcept?.title ?? data.concept, ...(packConcept?.aliases ?? data.aliases ?? [])]);
+          }
+          return data;
+        }, { label: 'concept', timeoutMs: CONCEPT_TIMEOUT_MS, signal });
+        // Whatever the pack says wins over what the model came back with.
+        conceptData = packConcept ? {
+            concept: packConcept.title,
+            aliases: packConcept.aliases ?? [],
+            year: packConcept.year,
+            explanation: packConcept.explanation ?? generated.explanation,
+            imagePrompt: packConcept.imagePrompt ?? generated.imagePrompt,
+            imagePrompts: generated.imagePrompts,
+            sketchCode: generated.sketchCode,
+        } : generated;
+    }
+
+    // The model's answer is already normalized. A pack's title still has to be, with the category's rules.
+    const concept = normalizeTitle(conceptData.concept, normalization);
+    if (!concept) {
+        throw new RoundValidationError(['"concept" must be a title with at least one letter or digit.']);
+    }
+
+    // A sketch that wouldn't run gets one go at fixing it before the round counts as failed.
+    let { sketchCode } = conceptData;
+    const sketchErrors = isSketch ? checkSketchCode(sketchCode ?? '') : [];
+    if (sketchErrors.length > 0) {
+        console.warn("The sketch failed its checks, asking for a fix:", sketchErrors);
+        sketchCode = await redrawSketch({ concept, aliases: conceptData.aliases ?? [], explanation: conceptData.explanation, sketchCode }, category, sketchErrors, signal);
     }
 
-    const base64ImageBytes: string = imageResponse.generatedImages[0].image.imageBytes;
-    const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
+    return {
+        ...conceptData,
+        concept,
+        ...(isSketch && { sketchCode }),
+    };
+};
+
+// Makes a whole round, which the round backend keeps under the given id.
+export const getNewRound = async (id: string, options: NewGameOptions): Promise<Round> => {
+    const { imageStyle, category, difficulty, packConcept, isSketch = false, signal } = options;
+    const startedAt = Date.now();
+    const conceptData = await getNewConcept(options);
+    const { concept, aliases = [], imagePrompts = [], sketchCode } = conceptData;
+    const conceptMs = Date.now() - startedAt;
+
+    // Step 2: Generate the images using the prompts from Step 1. Escalating rounds generate all of
+    // them up front, so revealing the next one during the round is instant.
+    const imageRejections: string[] = [];
+    // Sketches are drawn in the browser, so there are no images to make.
+    const imageUrls = isSketch ? [] : await Promise.all([...imagePrompts, conceptData.imagePrompt].map(prompt =>
+        generateCheckedImage(prompt, [concept, ...aliases], category, imageRejections, signal)));
 
     // Step 3: Return all the data together.
+    const finishedAt = Date.now();
     return {
-        concept: conceptData.concept,
+        id,
+        concept,
+        aliases,
+        year: conceptData.year,
         explanation: conceptData.explanation,
-        imageUrl: imageUrl,
+        imagePrompt: conceptData.imagePrompt,
+        imagePrompts,
+        imageUrl: imageUrls[0] ?? '',
+        imageUrls,
+        ...(isSketch && { sketchCode }),
+        imageStyle,
+        category: category.id,
+        difficulty: packConcept?.difficulty ?? difficulty.id,
+        provenance: !packConcept ? RoundProvenance.GENERATED : isHandwritten(options) ? RoundProvenance.HANDWRITTEN : RoundProvenance.PACK,
+        timings: { createdAt: finishedAt, conceptMs, imagesMs: finishedAt - startedAt - conceptMs },
+        ...(imageRejections.length > 0 && { imageRejections }),
     };
 };
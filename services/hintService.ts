@@ -0,0 +1,85 @@
+import { HintRequest, HintType, RoundHint } from '../types';
+
+// Helpers for structured hints. Letter positions always refer to the answer with its
+// spaces removed, which is how the letter boxes and the typed guess are indexed.
+
+export const sanitizeAnswer = (answer: string): string => answer.replace(/\s/g, '');
+
+// The positions the player types into, in order, skipping letters that have been revealed.
+const unlockedPositions = (answerLength: number, revealed: number[]): number[] =>
+  [...Array(answerLength).keys()].filter(i => !revealed.includes(i));
+
+// Lays the typed characters over the unlocked positions and fills the rest from the answer.
+export const composeGuess = (answer: string, typed: string, revealed: number[]): string => {
+  const sanitized = sanitizeAnswer(answer);
+  const chars = [...Array(sanitized.length)].map((_, i) => revealed.includes(i) ? sanitized[i] : '');
+  unlockedPositions(sanitized.length, revealed).forEach((position, i) => {
+    chars[position] = typed[i] ?? '';
+  });
+  return chars.join('');
+};
+
+// Maps each box to the index of the typed character shown in it, or -1 for revealed boxes.
+export const typedIndexByPosition = (answerLength: number, revealed: number[]): number[] => {
+  let typedIndex = 0;
+  return [...Array(answerLength).keys()].map(i => revealed.includes(i) ? -1 : typedIndex++);
+};
+
+// Chooses a letter to reveal. Only boxes the player hasn't typed into yet are considered,
+// so revealing never shifts what they've already entered, and the last hidden letter is never given away.
+export const pickLetterToReveal = (answer: string, typed: string, revealed: number[]): number | null => {
+  const candidates = unlockedPositions(sanitizeAnswer(answer).length, revealed).slice(typed.length);
+  const hiddenCount = sanitizeAnswer(answer).length - revealed.length;
+  if (candidates.length === 0 || hiddenCount <= 1) {
+    return null;
+  }
+  return candidates[Math.floor(Math.random() * candidates.length)];
+};
+
+const joinList = (items: string[]): string =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+export const describeWordShape = (answer: string): string => {
+  const words = answer.split(/\s+/).filter(Boolean);
+  const initials = words.map(word => word[0].toUpperCase());
+  if (words.length === 1) {
+    return `One word, starting with ${initials[0]}.`;
+  }
+  return `${words.length} words, starting with ${joinList(initials)}.`;
+};
+
+export const describeLetter = (answer: string, position: number): string =>
+  `Letter ${position + 1} is ${sanitizeAnswer(answer)[position].toUpperCase()}.`;
+
+export const describeYear = (year: number): string => `It came out in ${year}.`;
+
+// Letters per word. This is all online guessers are told about the answer until the round ends.
+export const getWordLengths = (answer: string): number[] =>
+  answer.split(/\s+/).filter(Boolean).map(word => word.length);
+
+// Builds a hint from the full answer. Runs wherever the answer is kept, which may be the game server,
+// and so does the list of letter positions already revealed.
+export const buildHint = (answer: string, year: number | undefined, { type, typed }: HintRequest, revealed: number[]): RoundHint | null => {
+  if (type === HintType.LETTER) {
+    const position = pickLetterToReveal(answer, typed, revealed);
+    if (position === null) return null;
+    return { type, message: describeLetter(answer, position), position, letter: sanitizeAnswer(answer)[position] };
+  }
+  if (type === HintType.WORD_SHAPE) {
+    return { type, message: describeWordShape(answer) };
+  }
+  return year ? { type, message: describeYear(year) } : null;
+};
+
+// The answer with its letters hidden, which is enough to lay out the letter boxes.
+export const getAnswerShape = (answer: string): string => answer.replace(/\S/g, '_');
+
+// Writes a revealed letter into an answer shape.
+export const fillLetter = (shape: string, position: number, letter: string): string => {
+  let letterIndex = -1;
+  return [...shape].map(char => {
+    if (/\s/.test(char)) return char;
+    letterIndex += 1;
+    return letterIndex === position ? letter : char;
+  }).join('');
+};
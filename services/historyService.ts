@@ -0,0 +1,88 @@
+import { PlayerProfile, PlayerStats, RoundOutcome, RoundRecord, StyleStats } from '../types';
+import { STORES, clearStore, getAllRecords, loadJson, putRecord, saveJson } from './storageService';
+
+const PROFILE_KEY = 'profile';
+
+// Only the most recent answers are sent back to the model as exclusions, to keep the prompt short.
+const MAX_EXCLUDED_FROM_HISTORY = 50;
+
+export const createRoundId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const loadProfile = (): PlayerProfile =>
+  loadJson<PlayerProfile>(PROFILE_KEY, { name: '', createdAt: Date.now() });
+
+export const saveProfile = (profile: PlayerProfile): void => saveJson(PROFILE_KEY, profile);
+
+export const recordRound = (record: RoundRecord): Promise<void> => putRecord(STORES.ROUNDS, record);
+
+// Every recorded round, newest first.
+export const getRoundHistory = async (): Promise<RoundRecord[]> => {
+  const records = await getAllRecords<RoundRecord>(STORES.ROUNDS);
+  return records.sort((a, b) => b.playedAt - a.playedAt);
+};
+
+export const clearRoundHistory = (): Promise<void> => clearStore(STORES.ROUNDS);
+
+// Answers from earlier sessions that shouldn't come up again, newest first and without repeats.
+export const getRecentConcepts = (history: RoundRecord[]): string[] => {
+  const seen = new Set<string>();
+  const concepts: string[] = [];
+  for (const record of history) {
+    const key = record.concept.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      concepts.push(record.concept);
+    }
+    if (concepts.length >= MAX_EXCLUDED_FROM_HISTORY) break;
+  }
+  return concepts;
+};
+
+const averageSolveSeconds = (records: RoundRecord[]): number | null => {
+  const wins = records.filter(r => r.outcome === RoundOutcome.WON);
+  if (wins.length === 0) return null;
+  return wins.reduce((sum, r) => sum + r.timeTakenSeconds, 0) / wins.length;
+};
+
+// Expects history newest first, as returned by getRoundHistory.
+export const computeStats = (history: RoundRecord[]): PlayerStats => {
+  const won = history.filter(r => r.outcome === RoundOutcome.WON).length;
+
+  let currentStreak = 0;
+  while (currentStreak < history.length && history[currentStreak].outcome === RoundOutcome.WON) {
+    currentStreak++;
+  }
+
+  let bestStreak = 0;
+  let run = 0;
+  for (const record of history) {
+    run = record.outcome === RoundOutcome.WON ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  }
+
+  const styles = new Map<string, RoundRecord[]>();
+  for (const record of history) {
+    styles.set(record.style, [...(styles.get(record.style) ?? []), record]);
+  }
+  const byStyle: StyleStats[] = [...styles.entries()]
+    .map(([style, records]) => ({
+      style,
+      played: records.length,
+      won: records.filter(r => r.outcome === RoundOutcome.WON).length,
+      averageSolveSeconds: averageSolveSeconds(records),
+    }))
+    .sort((a, b) => b.played - a.played);
+
+  return {
+    played: history.length,
+    won,
+    winRate: history.length > 0 ? won / history.length : 0,
+    averageSolveSeconds: averageSolveSeconds(history),
+    currentStreak,
+    bestStreak,
+    byStyle,
+  };
+};
@@ -0,0 +1,86 @@
+import { MatchConfig, MatchMode, MatchParticipant, MatchState } from '../types';
+
+// Pure state transitions for local multiplayer matches. App owns the state and the
+// round lifecycle; these helpers only work out who scores, who plays next, and when it ends.
+
+export const createMatch = (config: MatchConfig): MatchState => ({
+  config,
+  participants: config.participants.map((participant, index) => ({
+    ...participant,
+    id: `p${index}`,
+    score: 0,
+    roundsWon: 0,
+    streak: 0,
+  })),
+  roundsPlayed: 0,
+  activeIndex: 0,
+  buzzedId: null,
+  lockedOutIds: [],
+});
+
+export const participantNoun = (match: MatchState, plural = false): string =>
+  match.config.isTeams ? (plural ? 'teams' : 'team') : (plural ? 'players' : 'player');
+
+// The participant allowed to type a guess right now, if any.
+export const getAnsweringParticipant = (match: MatchState): MatchParticipant | null => {
+  if (match.config.mode === MatchMode.TURNS) {
+    return match.participants[match.activeIndex];
+  }
+  return match.participants.find(p => p.id === match.buzzedId) ?? null;
+};
+
+export const isMatchOver = (match: MatchState): boolean => match.roundsPlayed >= match.config.rounds;
+
+// Clears per-round state and, in turns mode, hands the next image to the next participant.
+export const startMatchRound = (match: MatchState): MatchState => ({
+  ...match,
+  activeIndex: match.config.mode === MatchMode.TURNS && match.roundsPlayed > 0
+    ? match.roundsPlayed % match.participants.length
+    : match.activeIndex,
+  buzzedId: null,
+  lockedOutIds: [],
+});
+
+export const findByBuzzKey = (match: MatchState, key: string): MatchParticipant | null =>
+  match.participants.find(p => p.buzzKey.toLowerCase() === key.toLowerCase()) ?? null;
+
+// Returns the same state object when the buzz isn't allowed, so callers can tell nothing changed.
+export const buzzIn = (match: MatchState, participantId: string): MatchState => {
+  if (match.config.mode !== MatchMode.BUZZ_IN || match.buzzedId) return match;
+  if (match.lockedOutIds.includes(participantId)) return match;
+  return { ...match, buzzedId: participantId };
+};
+
+// A wrong buzz-in answer locks that participant out for the rest of the round.
+export const lockOutBuzzed = (match: MatchState): MatchState => {
+  if (!match.buzzedId) return match;
+  return { ...match, lockedOutIds: [...match.lockedOutIds, match.buzzedId], buzzedId: null };
+};
+
+export const isEveryoneLockedOut = (match: MatchState): boolean =>
+  match.lockedOutIds.length >= match.participants.length;
+
+export const awardRound = (match: MatchState, winnerId: string, points: number): MatchState => ({
+  ...match,
+  roundsPlayed: match.roundsPlayed + 1,
+  buzzedId: null,
+  participants: match.participants.map(p => p.id === winnerId
+    ? { ...p, score: p.score + points, roundsWon: p.roundsWon + 1, streak: p.streak + 1 }
+    : (match.config.mode === MatchMode.BUZZ_IN ? { ...p, streak: 0 } : p)),
+});
+
+// Nobody solved it. In turns mode only the player whose turn it was loses their streak.
+export const missRound = (match: MatchState): MatchState => {
+  const active = match.participants[match.activeIndex];
+  return {
+    ...match,
+    roundsPlayed: match.roundsPlayed + 1,
+    buzzedId: null,
+    participants: match.participants.map(p =>
+      (match.config.mode === MatchMode.BUZZ_IN || p.id === active.id) ? { ...p, streak: 0 } : p),
+  };
+};
+
+// Highest score first; ties go to whoever won more rounds.
+export const getStandings = (match: MatchState): MatchParticipant[] =>
+  [...match.participants].sort((a, b) => b.score - a.score || b.roundsWon - a.roundsWon);
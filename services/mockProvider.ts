@@ -0,0 +1,255 @@
+import { Category, ConceptData, ImageCheck } from '../types';
+import type { ChatSession, ClueRequest, ContentProvider, ConceptRequest, ImageGuessRequest, SketchRequest } from './contentProvider';
+
+// Canned rounds are served from public/mock so they can be edited without touching code.
+const MOCK_BASE_URL = '/mock/';
+const DEFAULT_LATENCY_MS = 400;
+const STREAM_WORD_MS = 40;
+
+interface MockRound extends ConceptData {
+  category: Category;
+  image: string;
+}
+
+const latencyMs = (): number => {
+  const value = Number(process.env.MOCK_LATENCY_MS);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_LATENCY_MS;
+};
+
+// A small artificial delay keeps the loading states visible during development.
+const delay = () => new Promise<void>(resolve => setTimeout(resolve, latencyMs()));
+
+let roundsPromise: Promise<MockRound[]> | null = null;
+
+const loadRounds = (): Promise<MockRound[]> => {
+  if (!roundsPromise) {
+    roundsPromise = fetch(`${MOCK_BASE_URL}rounds.json`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load mock rounds (${response.status}).`);
+        }
+        return response.json() as Promise<MockRound[]>;
+      })
+      .catch(e => {
+        // Allow a later call to retry instead of caching the failure.
+        roundsPromise = null;
+        throw e;
+      });
+  }
+  return roundsPromise;
+};
+
+// Picks the first round in the category that hasn't been played yet, or with a seed, the seed's
+// pick of those. Once every round has been used it cycles through them in order, so the sequence is
+// always the same for a given history. Custom categories can't be matched offline, so they draw
+// from every canned round.
+const pickRound = (allRounds: MockRound[], pastConcepts: string[], category: Category, seed?: number): MockRound => {
+  const rounds = category === Category.CUSTOM ? allRounds : allRounds.filter(r => r.category === category);
+  if (rounds.length === 0) {
+    throw new Error("There are no offline rounds for this category yet.");
+  }
+  const used = new Set(pastConcepts.map(c => c.toLowerCase()));
+  const unused = rounds.filter(round => !used.has(round.concept.toLowerCase()));
+  if (unused.length === 0) {
+    return rounds[pastConcepts.length % rounds.length];
+  }
+  return unused[seed === undefined ? 0 : seed % unused.length];
+};
+
+// Answers from concept packs usually have no canned round, and the mock can't draw them.
+// It shows an abstract placeholder instead, varied by the prompt so rounds don't all look alike.
+const hashText = (text: string): number => {
+  let hash = 0;
+  for (const char of text) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash;
+};
+
+const createPlaceholderImage = (imagePrompt: string): string => {
+  const hash = hashText(imagePrompt);
+  const shapes = [0, 1, 2, 3, 4].map(i => {
+    const value = (hash >>> (i * 5)) & 0x3ff;
+    const x = 20 + (value % 60);
+    const y = 20 + ((value >> 3) % 60);
+    return `<circle cx="${x}" cy="${y}" r="${10 + (value % 14)}" fill="hsl(${(value * 37) % 360} 60% 55%)" fill-opacity="0.8"/>`;
+  });
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="100" height="100" fill="#171717"/>${shapes.join('')}</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+// The sketch version of the placeholder: drifting circles that appear one by one as the round goes on.
+const createPlaceholderSketch = (concept: string): string => {
+  const hash = hashText(concept);
+  const circles = [...Array(12)].map((_, i) => {
+    const value = ((hash >>> ((i % 6) * 5)) * (i + 1)) & 0x3ff;
+    return [80 + (value % 240), 80 + ((value >> 2) % 240), 20 + (value % 50), (value * 37) % 360];
+  });
+  return `const circles = ${JSON.stringify(circles)};
+function setup() {
+  createCanvas(400, 400);
+  colorMode(HSB, 360, 100, 100, 1);
+  noStroke();
+}
+function draw() {
+  background(0, 0, 9);
+  const shown = Math.ceil(circles.length * (0.25 + 0.75 * roundProgress));
+  circles.slice(0, shown).forEach(([x, y, r, hue], i) => {
+    fill(hue, 60, 75, 0.8);
+    circle(x + 6 * sin(frameCount / 40 + i), y + 6 * cos(frameCount / 50 + i), r * 2);
+  });
+}`;
+};
+
+const toWords = (text: string): Set<string> => new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+
+// The mock can't look at images, so it remembers the prompt behind each one and guesses the
+// canned round whose own prompt and explanation share the most words with it.
+const guessFromPrompt = (rounds: MockRound[], imagePrompt: string, category: Category, previousGuesses: string[]): string => {
+  const words = toWords(imagePrompt);
+  const wrong = new Set(previousGuesses.map(g => g.toLowerCase()));
+  const candidates = (category === Category.CUSTOM ? rounds : rounds.filter(r => r.category === category))
+    .filter(r => !wrong.has(r.concept.toLowerCase()));
+  if (candidates.length === 0) {
+    return 'I have no idea';
+  }
+  const overlap = (round: MockRound) => [...toWords(`${round.imagePrompt} ${round.explanation}`)].filter(w => words.has(w)).length;
+  return candidates.reduce((best, round) => (overlap(round) > overlap(best) ? round : best)).concept;
+};
+
+const extract = (message: string, pattern: RegExp): string => message.match(pattern)?.[1]?.trim() ?? '';
+
+// A scripted stand-in for the chat persona. It recognises the game events sent by App
+// and answers with fixed lines, which is enough to drive a full round without a model.
+const createMockChat = (): ChatSession => {
+  let currentConcept = '';
+
+  const reply = (message: string): string => {
+    if (message.startsWith('Game Context Update:')) {
+      return 'Noted.';
+    }
+    if (message.startsWith('Game Event:')) {
+      if (/thinking of a new/i.test(message)) {
+        return 'Okay, thinking of a good one...';
+      }
+      if (/kick off the guessing round/i.test(message)) {
+        currentConcept = extract(message, /The concept is "(.+?)"/);
+        return 'My new image is ready!';
+      }
+      const answer = extract(message, /The answer was "(.+?)"/);
+      const explanation = extract(message, /explanation for the image: (.*)$/s);
+      const outcome = /guessed correctly/i.test(message) ? 'You got it!' : 'So close!';
+      const levelMatch = message.match(/reached Level (\d+)/);
+      const levelUp = levelMatch ? ` Also, congrats on reaching Level ${levelMatch[1]}!` : '';
+      currentConcept = '';
+      return `${outcome} The answer was '${answer}'. ${explanation}${levelUp}`;
+    }
+    if (/clue|hint/i.test(message) && currentConcept) {
+      const words = currentConcept.split(/\s+/).filter(Boolean);
+      return `Here's a hint: it's ${words.length} ${words.length === 1 ? 'word' : 'words'} long.`;
+    }
+    return "That's an interesting idea! Try typing your guess in the boxes above.";
+  };
+
+  return {
+    sendMessage: async ({ message }) => {
+      await delay();
+      return { text: reply(message) };
+    },
+    // Word by word, so the streaming display can be seen working offline.
+    sendMessageStream: async ({ message, config }) => {
+      await delay();
+      const words = reply(message).split(/(?<=\s)/);
+      const signal = config?.abortSignal;
+      return (async function* () {
+        for (const word of words) {
+          if (signal?.aborted) throw new DOMException('The reply was cancelled.', 'AbortError');
+          yield { text: word };
+          await new Promise(resolve => setTimeout(resolve, STREAM_WORD_MS));
+        }
+      })();
+    },
+  };
+};
+
+export const createMockProvider = (): ContentProvider => {
+  const chooseConcept = async ({ pastConcepts, imageStyle, category, seed, concept: chosen }: ConceptRequest): Promise<ConceptData> => {
+    const [rounds] = await Promise.all([loadRounds(), delay()]);
+    if (chosen) {
+      const canned = rounds.find(r => r.concept.toLowerCase() === chosen.toLowerCase());
+      if (!canned) {
+        return {
+          concept: chosen,
+          explanation: `My idea was to capture ${chosen} in a ${imageStyle} style.`,
+          imagePrompt: `A detailed ${imageStyle} image inspired by ${chosen}.`,
+        };
+      }
+      const { concept, aliases, year, explanation, imagePrompt } = canned;
+      return { concept, aliases, year, explanation, imagePrompt };
+    }
+    const { concept, aliases, year, explanation, imagePrompt } = pickRound(rounds, pastConcepts, category, seed);
+    return { concept, aliases, year, explanation, imagePrompt };
+  };
+
+  // Canned rounds only have one image, so the earlier images of an escalating round are placeholders,
+  // as are sketches.
+  const generateConcept = async (request: ConceptRequest): Promise<ConceptData> => {
+    const data = await chooseConcept(request);
+    if (request.isSketch) {
+      return { ...data, imagePrompt: '', sketchCode: createPlaceholderSketch(data.concept) };
+    }
+    const earlierCount = (request.imageCount ?? 1) - 1;
+    if (earlierCount <= 0) return data;
+    const imagePrompts = [...Array(earlierCount)].map((_, i) => `An abstract hint ${i + 1} of ${earlierCount} for ${data.concept}.`);
+    return { ...data, imagePrompts };
+  };
+
+  const promptsByImage = new Map<string, string>();
+
+  const generateImage = async (imagePrompt: string): Promise<string> => {
+    const [rounds] = await Promise.all([loadRounds(), delay()]);
+    const round = rounds.find(r => r.imagePrompt === imagePrompt);
+    const imageUrl = round ? `${MOCK_BASE_URL}${round.image}` : createPlaceholderImage(imagePrompt);
+    promptsByImage.set(imageUrl, imagePrompt);
+    return imageUrl;
+  };
+
+  const guessImage = async ({ imageUrl, category, previousGuesses }: ImageGuessRequest): Promise<string> => {
+    const [rounds] = await Promise.all([loadRounds(), delay()]);
+    return guessFromPrompt(rounds, promptsByImage.get(imageUrl) ?? '', category, previousGuesses);
+  };
+
+  // Canned images are known to be clean, and placeholders are only shapes.
+  const checkImage = async (): Promise<ImageCheck> => ({ hasText: false, showsTitle: false, reason: '' });
+
+  // Works through a fixed list of giveaways about the title's shape.
+  const generateClue = async ({ concept, previousClues }: ClueRequest): Promise<string> => {
+    await delay();
+    const words = concept.split(/\s+/).filter(Boolean);
+    const letters = concept.replace(/[^\p{L}\p{N}]/gu, '');
+    const clues = [
+      `It's ${words.length} ${words.length === 1 ? 'word' : 'words'} long.`,
+      `It starts with the letter ${letters[0]?.toUpperCase()}.`,
+      `It has ${letters.length} letters in all.`,
+      `It ends with the letter ${letters[letters.length - 1]?.toUpperCase()}.`,
+    ];
+    return clues[previousClues.length % clues.length];
+  };
+
+  // Placeholder sketches don't break, so there's nothing to fix.
+  const generateSketch = async ({ concept }: SketchRequest): Promise<string> => {
+    await delay();
+    return createPlaceholderSketch(concept);
+  };
+
+  return {
+    name: 'mock',
+    generateConcept,
+    generateImage,
+    guessImage,
+    checkImage,
+    generateClue,
+    generateSketch,
+    createChat: () => createMockChat(),
+  };
+};
@@ -0,0 +1,65 @@
+import { ConceptData, PromptEvalResult } from '../types';
+import { getContentProvider } from './contentProvider';
+import { getNewConcept, NewGameOptions } from './geminiService';
+import { findAnswerMentions } from './answerGuardService';
+import { getActivePromptVersion, setActivePromptVersion } from './promptService';
+import { RoundValidationError } from './roundValidationService';
+
+// Runs a prompt version over a batch of seeds and measures what comes back, so two versions can be
+// compared on the same rounds. Only the first step of each round is made: the images cost a lot
+// and don't depend on the wording being compared.
+//
+// Every round starts with no past answers, so the duplicate rate shows how often the prompt lands
+// on the same answer by itself. The offline mock doesn't read prompts, so on it every version
+// scores the same; it shows the harness works, and gives the baseline to compare a model against.
+
+export type PromptEvalOptions = Omit<NewGameOptions, 'pastConcepts' | 'seed' | 'signal'> & {
+  seeds: number[];
+};
+
+// The image prompts and sketch are what the image generator and the browser get, so naming the
+// answer in them can give it away. The explanation is only shown once the round is over.
+const leaksTitle = ({ concept, aliases = [], imagePrompt, imagePrompts = [], sketchCode = '' }: ConceptData): boolean =>
+  [imagePrompt, ...imagePrompts, sketchCode].some(text => findAnswerMentions(text, [concept, ...aliases]).length > 0);
+
+const toRate = (count: number, total: number): number => (total > 0 ? count / total : 0);
+
+export const evaluatePromptVersion = async (versionId: string, options: PromptEvalOptions): Promise<PromptEvalResult> => {
+  const { seeds, ...gameOptions } = options;
+  const previousVersionId = getActivePromptVersion();
+  setActivePromptVersion(versionId);
+  const failures: string[] = [];
+  const seen = new Set<string>();
+  let valid = 0;
+  let duplicates = 0;
+  let leaks = 0;
+  try {
+    // One at a time, so a batch doesn't run into the model's rate limit.
+    for (const seed of seeds) {
+      let data: ConceptData;
+      try {
+        data = await getNewConcept({ ...gameOptions, pastConcepts: [], seed });
+      } catch (e) {
+        const reason = e instanceof RoundValidationError ? e.problems.join(' ') : e instanceof Error ? e.message : String(e);
+        failures.push(`Seed ${seed}: ${reason}`);
+        continue;
+      }
+      valid++;
+      const key = data.concept.toLowerCase();
+      if (seen.has(key)) duplicates++;
+      seen.add(key);
+      if (leaksTitle(data)) leaks++;
+    }
+  } finally {
+    setActivePromptVersion(previousVersionId);
+  }
+  return {
+    versionId,
+    provider: getContentProvider().name,
+    rounds: seeds.length,
+    validityRate: toRate(valid, seeds.length),
+    duplicateRate: toRate(duplicates, seeds.length),
+    titleLeakRate: toRate(leaks, seeds.length),
+    failures,
+  };
+};
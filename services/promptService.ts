@@ -0,0 +1,82 @@
+import { PromptTemplateId, PromptVariables, PromptVersion } from '../types';
+import { DEFAULT_PROMPT_VERSION, PROMPT_VERSIONS } from './promptTemplates';
+
+// Renders the model's prompts from the active prompt version. The version starts out as the one
+// named by PROMPT_VERSION, if any, and can be switched while the game runs, e.g. to compare two.
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const versions = new Map<string, PromptVersion>(PROMPT_VERSIONS.map(version => [version.id, version]));
+let activeVersionId: string | null = null;
+
+// Adds a version, or replaces the one with the same id.
+export const registerPromptVersion = (version: PromptVersion) => {
+  if (version.basedOn !== undefined && !versions.has(version.basedOn)) {
+    throw new PromptTemplateError(`Prompt version "${version.id}" is based on "${version.basedOn}", which doesn't exist.`);
+  }
+  versions.set(version.id, version);
+};
+
+export const getPromptVersions = (): PromptVersion[] => [...versions.values()];
+
+export const getActivePromptVersion = (): string => {
+  if (activeVersionId === null) {
+    const requested = process.env.PROMPT_VERSION?.trim();
+    if (requested && !versions.has(requested)) {
+      console.warn(`Unknown PROMPT_VERSION "${requested}", using ${DEFAULT_PROMPT_VERSION}.`);
+    }
+    activeVersionId = requested && versions.has(requested) ? requested : DEFAULT_PROMPT_VERSION;
+  }
+  return activeVersionId;
+};
+
+export const setActivePromptVersion = (id: string) => {
+  if (!versions.has(id)) {
+    throw new PromptTemplateError(`There is no prompt version "${id}".`);
+  }
+  activeVersionId = id;
+};
+
+// The template's text in the version, or in the version it's based on if it doesn't have its own.
+export const getTemplate = (id: PromptTemplateId, versionId = getActivePromptVersion()): string => {
+  const seen = new Set<string>();
+  for (let version = versions.get(versionId); version; version = version.basedOn ? versions.get(version.basedOn) : undefined) {
+    if (seen.has(version.id)) break;
+    seen.add(version.id);
+    const text = version.templates[id];
+    if (text !== undefined) return text;
+  }
+  throw new PromptTemplateError(`Prompt version "${versionId}" has no "${id}" template.`);
+};
+
+// A section with its body, a variable, or anything else in braces, which is a mistake. Sections
+// can hold other sections, but not one with the same name.
+const TAG = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{(\w+)\}\}|(\{\{[^}]*\}\})/g;
+
+// One pass from left to right, so braces inside a variable's value are left as they are.
+export const renderTemplate = (text: string, variables: PromptVariables, label = 'The template'): string => {
+  const lookup = (name: string) => {
+    if (!Object.hasOwn(variables, name)) {
+      throw new PromptTemplateError(`${label} uses {{${name}}}, which isn't set.`);
+    }
+    return variables[name];
+  };
+  const render = (part: string): string => part.replace(TAG, (_, mark?: string, sectionName?: string, body?: string, name?: string, stray?: string) => {
+    if (stray) {
+      throw new PromptTemplateError(`${label} has ${stray}, which doesn't match anything.`);
+    }
+    if (name) {
+      return String(lookup(name));
+    }
+    return Boolean(lookup(sectionName!)) === (mark === '#') ? render(body!) : '';
+  });
+  return render(text);
+};
+
+export const renderPrompt = (id: PromptTemplateId, variables: PromptVariables, versionId = getActivePromptVersion()): string =>
+  renderTemplate(getTemplate(id, versionId), variables, `The "${id}" template of prompt version "${versionId}"`);
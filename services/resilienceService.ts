@@ -0,0 +1,141 @@
+import { GenerationErrorKind } from '../types';
+
+// Retries, timeouts and cancellation for calls to the content provider, and the error
+// categories the UI uses to tell the player what went wrong.
+
+export class GenerationError extends Error {
+  constructor(public readonly kind: GenerationErrorKind, message: string = describeGenerationError(kind)) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+const MESSAGES: Record<GenerationErrorKind, string> = {
+  [GenerationErrorKind.QUOTA]: "The AI is getting too many requests right now. Wait a minute, then try again.",
+  [GenerationErrorKind.SAFETY]: "The AI's safety filter blocked this round. Try again, or pick another category or style.",
+  [GenerationErrorKind.NETWORK]: "Couldn't reach the AI. Check your connection and try again.",
+  [GenerationErrorKind.TIMEOUT]: "The AI took too long to respond. Please try again.",
+  [GenerationErrorKind.MALFORMED]: "The AI returned something the game couldn't use. Please try again.",
+  [GenerationErrorKind.AUTH]: "The AI didn't accept the game's API key. Check that GEMINI_API_KEY is set to a valid key.",
+  [GenerationErrorKind.REJECTED]: "The AI turned down the request for this round. Try another category or style.",
+  [GenerationErrorKind.CANCELLED]: "The round was cancelled.",
+  [GenerationErrorKind.UNKNOWN]: "Something went wrong while creating the round. Please try again.",
+};
+
+export const describeGenerationError = (kind: GenerationErrorKind): string => MESSAGES[kind];
+
+const KINDS = Object.values(GenerationErrorKind);
+
+export const isGenerationErrorKind = (value: unknown): value is GenerationErrorKind =>
+  KINDS.includes(value as GenerationErrorKind);
+
+// Sorts any error from a provider, the game server or fetch into one of the categories.
+export const classifyError = (e: unknown): GenerationError => {
+  if (e instanceof GenerationError) return e;
+  const name = e instanceof Error ? e.name : '';
+  const message = e instanceof Error ? e.message : String(e);
+  const status = typeof e === 'object' && e !== null && typeof (e as { status?: unknown }).status === 'number'
+    ? (e as { status: number }).status
+    : undefined;
+
+  // The status comes first: a 400 says "invalid" about the request, not about the model's answer.
+  // Only parsers decide an answer is malformed, by throwing a SyntaxError or a GenerationError.
+  let kind = GenerationErrorKind.UNKNOWN;
+  if (name === 'AbortError') {
+    kind = GenerationErrorKind.CANCELLED;
+  } else if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    kind = GenerationErrorKind.AUTH;
+  } else if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    kind = GenerationErrorKind.QUOTA;
+  } else if (/safety|blocked|prohibited|responsible ai/i.test(message)) {
+    kind = GenerationErrorKind.SAFETY;
+  } else if (status === 400) {
+    kind = GenerationErrorKind.REJECTED;
+  } else if (status === 0 || e instanceof TypeError || /network|failed to fetch|ECONNRESET|ENOTFOUND|ETIMEDOUT|socket/i.test(message)) {
+    kind = GenerationErrorKind.NETWORK;
+  } else if (e instanceof SyntaxError) {
+    kind = GenerationErrorKind.MALFORMED;
+  } else if (status !== undefined && status >= 500) {
+    kind = GenerationErrorKind.NETWORK;
+  }
+  // Unrecognised errors keep their own message, which is more use than a generic one.
+  const error = new GenerationError(kind, kind === GenerationErrorKind.UNKNOWN && message ? message : undefined);
+  error.cause = e;
+  return error;
+};
+
+// Safety blocks, bad keys and turned-down requests come back the same way every time, and
+// cancelled rounds are no longer wanted.
+const NOT_RETRYABLE = [GenerationErrorKind.SAFETY, GenerationErrorKind.AUTH, GenerationErrorKind.REJECTED, GenerationErrorKind.CANCELLED];
+
+const isRetryable = (kind: GenerationErrorKind): boolean => !NOT_RETRYABLE.includes(kind);
+
+const cancelled = () => new GenerationError(GenerationErrorKind.CANCELLED);
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelled());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own signal, which aborts when the caller's does or when time runs out.
+// The race covers providers that don't support aborting.
+const withTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(cancelled());
+  const controller = new AbortController();
+  let onAbort = () => {};
+  const stopped = new Promise<never>((_, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new GenerationError(GenerationErrorKind.TIMEOUT));
+    }, timeoutMs);
+    onAbort = () => {
+      clearTimeout(timer);
+      controller.abort();
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    controller.signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  });
+  return Promise.race([call(controller.signal), stopped]).finally(() => {
+    signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  });
+};
+
+export interface RetryOptions {
+  label: string; // For the logs, e.g. "concept"
+  timeoutMs: number; // Per attempt
+  attempts?: number;
+  baseDelayMs?: number; // Doubled after each failed attempt, with some jitter
+  signal?: AbortSignal;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const QUOTA_DELAY_FACTOR = 4; // Rate limits need longer to clear
+
+export const withRetry = async <T>(call: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { label, timeoutMs, attempts = DEFAULT_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS, signal } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withTimeout(call, timeoutMs, signal);
+    } catch (e) {
+      const error = signal?.aborted ? cancelled() : classifyError(e);
+      if (attempt >= attempts || !isRetryable(error.kind)) {
+        throw error;
+      }
+      const factor = error.kind === GenerationErrorKind.QUOTA ? QUOTA_DELAY_FACTOR : 1;
+      const delay = baseDelayMs * factor * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`The ${label} call failed (${error.kind}), retrying in ${Math.round(delay)} ms.`, e);
+      await sleep(delay, signal);
+    }
+  }
+};
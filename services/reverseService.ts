@@ -0,0 +1,123 @@
+import { Type } from "@google/genai";
+import type { CategoryDefinition, ConceptData, DifficultyDefinition } from '../types';
+import { getContentProvider } from './contentProvider';
+import { parseConceptData } from './roundValidationService';
+
+// Reverse mode: the player is given a title and writes the image prompt, and the model
+// has to name the title from the generated image alone.
+
+export const MAX_REVERSE_PROMPT_LENGTH = 500;
+
+// Too common to give a title away, unless the title is made of nothing else.
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'and', 'or', 'in', 'on', 'at', 'to', 'for', 'with', 'from', 'by', 'is', 'it', 's']);
+
+export class ReverseRoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReverseRoundError';
+  }
+}
+
+export interface ReverseRoundOptions {
+  pastConcepts: string[];
+  imageStyle: string;
+  category: CategoryDefinition;
+  difficulty: DifficultyDefinition;
+}
+
+const toWords = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Every word of the title and its other names, leaving out filler like "the" and "of".
+export const getBannedWords = (titles: string[]): string[] => {
+  const words = [...new Set(titles.flatMap(toWords))];
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return meaningful.length > 0 ? meaningful : words;
+};
+
+// Runs of words joined back together, which catches titles spelled out like "J-A-W-S" or "ja ws".
+// Only whole words are joined, so a title word inside a longer word still doesn't count.
+const joinWordRuns = (words: string[], maxLength: number): string[] =>
+  words.flatMap((word, start) => {
+    const runs: string[] = [];
+    let text = word;
+    for (let end = start + 1; end < words.length && text.length < maxLength; end++) {
+      text += words[end];
+      runs.push(text);
+    }
+    return runs;
+  });
+
+// The banned words a prompt uses, counting simple plurals as the same word.
+export const findBannedWords = (prompt: string, bannedWords: string[]): string[] => {
+  const words = toWords(prompt);
+  const longest = Math.max(0, ...bannedWords.map(word => word.length));
+  const used = new Set([...words, ...joinWordRuns(words, longest + 1)]);
+  return bannedWords.filter(word => used.has(word) || used.has(`${word}s`) || (word.endsWith('s') && used.has(word.slice(0, -1))));
+};
+
+export const checkReversePrompt = (prompt: string, bannedWords: string[]): string => {
+  const trimmed = prompt.trim();
+  if (!trimmed) {
+    throw new ReverseRoundError('Write a prompt for the image first.');
+  }
+  if (trimmed.length > MAX_REVERSE_PROMPT_LENGTH) {
+    throw new ReverseRoundError(`Keep the prompt to ${MAX_REVERSE_PROMPT_LENGTH} characters.`);
+  }
+  const found = findBannedWords(trimmed, bannedWords);
+  if (found.length > 0) {
+    throw new ReverseRoundError(`The prompt can't use words from the title: ${found.join(', ')}.`);
+  }
+  return trimmed;
+};
+
+export const buildReverseImagePrompt = (prompt: string, imageStyle: string): string =>
+  `${prompt}\n\nThe image MUST be in a detailed ${imageStyle} style. Do NOT include any text, letters, or numbers in the image.`;
+
+export const buildImageGuessPrompt = ({ answerNoun }: CategoryDefinition, previousGuesses: string[]): string => {
+  const exclusion = previousGuesses.length > 0
+    ? `\nIt is NOT any of these, which were already guessed: ${previousGuesses.join(', ')}.`
+    : '';
+  return `This image was made to depict a ${answerNoun}. Which ${answerNoun} is it?${exclusion}
+Answer with the ${answerNoun} only, without quotes or any other words.`;
+};
+
+// Picks the title the player has to draw, along with a short description of it and the prompt
+// the model would have written itself, which is shown once the round is over.
+export const chooseReverseTitle = async ({ pastConcepts, imageStyle, category, difficulty }: ReverseRoundOptions): Promise<ConceptData> => {
+  const { noun, answerNoun } = category;
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      concept: {
+        type: Type.STRING,
+        description: `The exact ${answerNoun}, with any punctuation like colons or periods removed.`,
+      },
+      aliases: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: `Other names that should also count as correct. Use an empty list if there are none.`,
+      },
+      explanation: {
+        type: Type.STRING,
+        description: `One short sentence describing the ${noun} for a player who may not know it, without naming it.`,
+      },
+      imagePrompt: {
+        type: Type.STRING,
+        description: `The prompt you would give an image generator to depict the ${noun} in a detailed ${imageStyle} style, without any text, letters, or numbers.`,
+      },
+    },
+    required: ["concept", "explanation", "imagePrompt"],
+  };
+  const exclusion = pastConcepts.length > 0
+    ? `\n\nIMPORTANT: Do not choose any of the following answers that have already been used: ${pastConcepts.join(', ')}.`
+    : '';
+  const prompt = `You are running a game called Image Pictionary in reverse: the user is shown a ${answerNoun} and has to write an image prompt that lets an AI recognize it from the picture alone.
+
+Choose one ${noun} that has distinctive visual elements the user could describe. Be varied in your choices, picking from ${category.variety}. ${difficulty.popularity}${exclusion}
+
+IMPORTANT: For the 'concept' (the ${answerNoun}), you MUST remove punctuation like colons (:) or periods (.).
+Return the result as a JSON object matching the provided schema.
+`;
+  const data = await getContentProvider().generateConcept({ prompt, schema, pastConcepts, imageStyle, category: category.id });
+  return parseConceptData(data, { normalization: category.normalization });
+};
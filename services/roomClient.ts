@@ -0,0 +1,94 @@
+import { RoomClientMessage, RoomServerMessage, RoomState } from '../types';
+
+// Browser side of online rooms: a thin wrapper over the socket plus a reducer that
+// folds server messages into the room state the UI renders.
+
+const DEFAULT_PORT = 8787;
+
+export const getRoomServerUrl = (): string =>
+  process.env.ROOM_SERVER_URL || `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname}:${DEFAULT_PORT}`;
+
+export interface RoomJoinRequest {
+  name: string;
+  code: string | null; // null creates a new room
+}
+
+export interface RoomConnection {
+  send: (message: RoomClientMessage) => void;
+  close: () => void;
+}
+
+export interface RoomConnectionHandlers {
+  onMessage: (message: RoomServerMessage) => void;
+  onClose: (reason: string) => void;
+}
+
+export const connectToRoom = (url: string, request: RoomJoinRequest, handlers: RoomConnectionHandlers): RoomConnection => {
+  const socket = new WebSocket(url);
+  let isClosedByUs = false;
+
+  const send = (message: RoomClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  socket.addEventListener('open', () => {
+    send(request.code
+      ? { type: 'join', code: request.code, name: request.name }
+      : { type: 'create', name: request.name });
+  });
+
+  socket.addEventListener('message', event => {
+    try {
+      handlers.onMessage(JSON.parse(event.data));
+    } catch (e) {
+      console.error("Ignoring malformed room message:", e);
+    }
+  });
+
+  socket.addEventListener('close', () => {
+    if (!isClosedByUs) {
+      handlers.onClose("Lost the connection to the room server.");
+    }
+  });
+
+  return {
+    send,
+    close: () => {
+      isClosedByUs = true;
+      socket.close();
+    },
+  };
+};
+
+// Returns null until the server has welcomed us into a room.
+export const applyRoomMessage = (state: RoomState | null, message: RoomServerMessage): RoomState | null => {
+  if (message.type === 'welcome') {
+    return {
+      playerId: message.playerId,
+      code: message.code,
+      players: message.players,
+      round: message.round,
+      reveal: message.reveal,
+      chat: message.chat,
+      lastGuess: null,
+    };
+  }
+  if (!state) return state;
+
+  switch (message.type) {
+    case 'players':
+      return { ...state, players: message.players };
+    case 'round_started':
+      return { ...state, round: message.round, reveal: null, lastGuess: null };
+    case 'round_ended':
+      return { ...state, reveal: message.reveal };
+    case 'chat':
+      return { ...state, chat: [...state.chat, message.message] };
+    case 'guess_result':
+      return { ...state, lastGuess: { isCorrect: message.isCorrect, points: message.points } };
+    default:
+      return state;
+  }
+};
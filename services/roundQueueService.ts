@@ -0,0 +1,146 @@
+import { GenerationErrorKind, PublicRound, Round } from '../types';
+import { ROUND_QUEUE_SIZE } from '../constants';
+import type { ArchivedRound, RoundArchive } from './roundService';
+import { classifyError } from './resilienceService';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './storageService';
+
+// Keeps rounds ready ahead of the player, a few for each combination of style, category,
+// difficulty and round variant, so switching style and back doesn't throw made rounds away.
+// Rounds are made one at a time so the queue doesn't compete with the round being played
+// for the rate limit. Before a queued round is handed out, the backend confirms it still
+// has it and hasn't served the same answer since.
+
+const MAX_QUEUED_ROUNDS = 8; // Across every key. The oldest rounds of other keys go first.
+
+export interface RoundQueueStatus {
+  ready: number;
+  isFilling: boolean;
+  lastError: string | null; // Why the last round made for the key failed, until one succeeds.
+}
+
+export interface RoundQueue {
+  // Makes rounds for the key until it has enough. Only the key from the latest call is filled.
+  fill: (key: string, create: (signal: AbortSignal) => Promise<PublicRound>) => void;
+  // The next queued round for the key, waiting for the one being made if there are none.
+  // Resolves to null when there's nothing to hand out, so the caller should make one itself.
+  take: (key: string, claim: (roundId: string) => Promise<boolean>) => Promise<PublicRound | null>;
+  getStatus: (key: string) => RoundQueueStatus;
+  subscribe: (listener: () => void) => () => void;
+  // Stops filling and cancels the round being made. Queued rounds are kept.
+  stop: () => void;
+}
+
+export const createRoundQueue = (size: number = ROUND_QUEUE_SIZE): RoundQueue => {
+  const queued = new Map<string, PublicRound[]>();
+  const errors = new Map<string, string>();
+  const listeners = new Set<() => void>();
+  let target: { key: string; create: (signal: AbortSignal) => Promise<PublicRound> } | null = null;
+  let filling: { key: string; promise: Promise<PublicRound | null>; controller: AbortController } | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const countQueued = (): number => [...queued.values()].reduce((sum, rounds) => sum + rounds.length, 0);
+
+  const dropOldest = (keep: string) => {
+    for (const [key, rounds] of queued) {
+      if (key === keep) continue;
+      rounds.shift();
+      if (rounds.length === 0) queued.delete(key);
+      return;
+    }
+  };
+
+  const pump = () => {
+    if (filling || !target || (queued.get(target.key)?.length ?? 0) >= size) return;
+    const { key, create } = target;
+    const controller = new AbortController();
+    const promise = create(controller.signal).then(round => {
+      queued.set(key, [...(queued.get(key) ?? []), round]);
+      errors.delete(key);
+      while (countQueued() > MAX_QUEUED_ROUNDS) dropOldest(key);
+      return round;
+    }, e => {
+      const { kind, message } = classifyError(e);
+      if (kind !== GenerationErrorKind.CANCELLED) {
+        console.error("Failed to queue a round:", e);
+        errors.set(key, message);
+      }
+      return null;
+    });
+    filling = { key, promise, controller };
+    notify();
+    promise.then(round => {
+      filling = null;
+      notify();
+      // After a failure, wait for the next fill() instead of retrying straight away.
+      if (round) pump();
+    });
+  };
+
+  return {
+    fill: (key, create) => {
+      target = { key, create };
+      pump();
+    },
+    take: async (key, claim) => {
+      for (;;) {
+        const rounds = queued.get(key);
+        const round = rounds?.shift();
+        if (rounds && round) {
+          if (rounds.length === 0) queued.delete(key);
+          notify();
+          if (await claim(round.id)) return round;
+          continue;
+        }
+        if (filling?.key !== key || !(await filling.promise)) return null;
+      }
+    },
+    getStatus: key => ({ ready: queued.get(key)?.length ?? 0, isFilling: filling?.key === key, lastError: errors.get(key) ?? null }),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    stop: () => {
+      target = null;
+      filling?.controller.abort();
+    },
+  };
+};
+
+// The offline backend's unplayed rounds, kept in IndexedDB so a session can carry on after a
+// reload without a connection. Images are stored as bytes and come back as data URLs, which
+// round history can keep using after the page is gone.
+
+interface StoredRound extends Omit<ArchivedRound, 'data'> {
+  data: Omit<Round, 'imageUrl' | 'imageUrls'>;
+  images: Blob[];
+}
+
+const toBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const toDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const canArchiveRounds = (): boolean => typeof indexedDB !== 'undefined';
+
+export const createBrowserRoundArchive = (): RoundArchive => ({
+  load: async () => {
+    const stored = await getAllRecords<StoredRound>(STORES.QUEUED_ROUNDS);
+    return Promise.all(stored.sort((a, b) => a.savedAt - b.savedAt).map(async ({ images, data, ...round }) => {
+      const imageUrls = await Promise.all(images.map(toDataUrl));
+      return { ...round, data: { ...data, imageUrl: imageUrls[0] ?? '', imageUrls } };
+    }));
+  },
+  save: async ({ data, ...round }) => {
+    const { imageUrl, imageUrls = [imageUrl], ...rest } = data;
+    const images = await Promise.all(imageUrls.map(toBlob));
+    await putRecord<StoredRound>(STORES.QUEUED_ROUNDS, { ...round, data: rest, images });
+  },
+  remove: roundId => deleteRecord(STORES.QUEUED_ROUNDS, roundId),
+});
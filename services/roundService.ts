@@ -0,0 +1,447 @@
+import { Category, CategoryDefinition, ChatAnswerMode, ConceptData, GenerationErrorKind, HintRequest, MatchStrictness, PublicRound, ReverseGuess, ReverseRound, Round, RoundChatEvent, RoundChatEventKind, RoundEnding, RoundHint, RoundReveal, SketchError } from '../types';
+import { REVERSE_GUESS_LIMIT } from '../constants';
+import { ChatSession } from './contentProvider';
+import { buildRewriteRequest, createChat, drawReverseImage, generateClue, getNewRound, guessReverseImage, NewGameOptions, redrawSketch } from './geminiService';
+import { findAnswerMentions, redactAnswer, redactAnswerStream } from './answerGuardService';
+import { isGuessCorrect } from './answerMatcher';
+import { buildHint, getAnswerShape } from './hintService';
+import { createRemoteRoundBackend } from './gameServerClient';
+import { getDailyRoundData } from './dailyService';
+import { classifyError } from './resilienceService';
+import { parseRound } from './roundValidationService';
+import { canArchiveRounds, createBrowserRoundArchive } from './roundQueueService';
+import { checkReversePrompt, chooseReverseTitle, getBannedWords, ReverseRoundError, ReverseRoundOptions } from './reverseService';
+
+// Rounds are played through a backend that keeps the answer to itself: the client gets the
+// image and the answer's shape, and asks the backend to check guesses, give hints and reveal.
+// In production that backend is the game server (server/apiServer.ts), so neither the answer
+// nor the API key reaches the browser. Without a server the same logic runs locally.
+
+// The answer only reaches the chat through roundEvent, which the backend turns into words itself.
+// Replies are checked for the answer of the round being played, whatever the message.
+interface RoundChatParams {
+  message: string;
+  roundEvent?: RoundChatEvent;
+}
+
+export interface RoundChatSession extends ChatSession {
+  sendMessage: (params: RoundChatParams) => Promise<{ text?: string }>;
+  sendMessageStream: (params: RoundChatParams & { config?: { abortSignal?: AbortSignal } }) => Promise<AsyncIterable<{ text?: string }>>;
+}
+
+export interface RoundBackend {
+  createRound: (options: NewGameOptions) => Promise<PublicRound>;
+  // Whether a round made earlier is still worth playing: the backend still has it, and hasn't
+  // served a round with the same answer since.
+  claimRound: (roundId: string) => Promise<boolean>;
+  // The daily challenge's rounds for a date, in order. The same for every player.
+  getDailyRounds: (date: string) => Promise<PublicRound[]>;
+  // Starts the round's timer once it's on screen. Guesses and hints are only taken while it runs.
+  startRound: (roundId: string, roundTime: number) => Promise<void>;
+  // Ends the round without a winner, when the player gives up or the client's timer runs out.
+  endRound: (roundId: string) => Promise<void>;
+  checkGuess: (roundId: string, guess: string, strictness: MatchStrictness) => Promise<boolean>;
+  getHint: (roundId: string, request: HintRequest) => Promise<RoundHint | null>;
+  // Only once the round is over: solved, given up or out of time.
+  revealRound: (roundId: string) => Promise<RoundReveal>;
+  createChat: (category: CategoryDefinition, answerMode: ChatAnswerMode) => RoundChatSession;
+  // For chats that aren't told the answer. Clues already given are passed so the next one adds to them.
+  getClue: (roundId: string, category: CategoryDefinition, previousClues: string[]) => Promise<string>;
+  // Sketch rounds. Writes the round's sketch again after it failed in the browser, and resolves to the new code.
+  redrawSketch: (roundId: string, category: CategoryDefinition, errors: SketchError[]) => Promise<string>;
+  // Reverse mode. The title isn't secret there, but the image and the model's guesses still need the key.
+  createReverseRound: (options: ReverseRoundOptions) => Promise<ReverseRound>;
+  drawReverseRound: (roundId: string, prompt: string, signal?: AbortSignal) => Promise<string>; // Resolves to the image URL
+  guessReverseRound: (roundId: string, signal?: AbortSignal) => Promise<ReverseGuess>;
+}
+
+const MAX_KEPT_ROUNDS = 12; // The round being played plus the client's queue, with room to spare.
+// Guesses sent just as the timer runs out still count, as they take a moment to arrive.
+const LATE_GUESS_GRACE_MS = 5000;
+
+// Somewhere to keep rounds nobody has played yet between sessions, so the offline backend can
+// carry on after a reload. Rounds made for a concept pack aren't kept, as the client picks those.
+export interface ArchivedRound {
+  id: string;
+  key: string; // What the round was made for, from getArchiveKey
+  category: Category;
+  data: Round;
+  savedAt: number;
+}
+
+export interface RoundArchive {
+  load: () => Promise<ArchivedRound[]>; // Oldest first
+  save: (round: ArchivedRound) => Promise<void>;
+  remove: (roundId: string) => Promise<void>;
+}
+
+export class UnknownRoundError extends Error {
+  constructor(roundId: string) {
+    super(`Round ${roundId} has expired. Please start a new round.`);
+    this.name = 'UnknownRoundError';
+  }
+}
+
+// Asked for something the round isn't ready for, such as the answer while it's still being played.
+export class RoundStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoundStateError';
+  }
+}
+
+const ENDING_MESSAGES: Record<RoundEnding, string> = {
+  [RoundEnding.SOLVED]: 'This round has already been solved.',
+  [RoundEnding.TIMED_OUT]: 'Time ran out for this round.',
+  [RoundEnding.GAVE_UP]: 'This round is over.',
+};
+
+// A round from the moment it's started. The backend keeps its own clock, so a client can't
+// reveal the answer and then go on guessing.
+interface RoundPlay {
+  endsAt: number;
+  ending: RoundEnding | null;
+  revealedLetters: number[]; // Positions given away by letter hints
+}
+
+let nextRoundNumber = 1;
+
+// Archived rounds outlive the page, so their ids can't restart from 1.
+const createKeptRoundId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${nextRoundNumber++}`;
+
+const getArchiveKey = ({ imageStyle, styleGuide = '', category, difficulty, imageCount = 1, isSketch = false }: NewGameOptions): string =>
+  JSON.stringify([imageStyle, styleGuide, category.id, category.label, difficulty.id, imageCount, isSketch]);
+
+interface ReverseRoundState {
+  data: ConceptData;
+  category: CategoryDefinition;
+  imageStyle: string;
+  bannedWords: string[];
+  imageUrl: string | null;
+  guesses: string[];
+  isSolved: boolean;
+  // Set while a call for the round is out, so a second request can't start another one.
+  isDrawing: boolean;
+  isGuessing: boolean;
+}
+
+const toPublicRound = ({ id, imageUrl, imageUrls, sketchCode, imageStyle, difficulty, concept, year }: Round): PublicRound => ({
+  id,
+  imageUrl,
+  imageUrls,
+  ...(sketchCode && { sketchCode }),
+  ...(imageStyle && { imageStyle }),
+  difficulty,
+  answerShape: getAnswerShape(concept),
+  hasYear: !!year,
+});
+
+// Holds rounds in memory. Used directly in the browser when there's no game server,
+// and on the server once per client.
+export const createRoundKeeper = (archive?: RoundArchive): RoundBackend => {
+  const rounds = new Map<string, Round>();
+  // Rounds nobody has looked at yet, such as prefetched ones the player never got to, by category.
+  // They are handed out instead when generating a new round fails.
+  const spareRounds = new Map<string, Category>();
+  // Kept apart so prefetched rounds can't push them out while the daily is being played.
+  const dailyRounds = new Map<string, Round>();
+  // Everything this keeper has served, so prefetched rounds can't repeat an answer the client hasn't seen yet.
+  const servedConcepts: string[] = [];
+  const reverseRounds = new Map<string, ReverseRoundState>();
+  // Answers of rounds that have been opened, so queued rounds with the same answer aren't played again.
+  const openedConcepts = new Set<string>();
+  // Archived rounds from earlier sessions, by what they were made for. Handed out before making new ones.
+  const restoredRounds = new Map<string, Pick<ArchivedRound, 'key' | 'category'>>();
+  // Rounds in the archive, which leave it once they're opened or pushed out.
+  const archivedIds = new Set<string>();
+  const plays = new Map<string, RoundPlay>();
+  // The round started last, whose answer the chat mustn't give away until it's over.
+  let liveRoundId: string | null = null;
+
+  const unarchive = (roundId: string) => {
+    if (archive && archivedIds.delete(roundId)) {
+      archive.remove(roundId).catch(e => console.warn("Failed to remove an archived round:", e));
+    }
+  };
+
+  const forgetRound = (roundId: string) => {
+    rounds.delete(roundId);
+    spareRounds.delete(roundId);
+    restoredRounds.delete(roundId);
+    plays.delete(roundId);
+    unarchive(roundId);
+  };
+
+  const restoring = (archive?.load() ?? Promise.resolve([]))
+    .then(archived => archived.forEach(({ id, key, category, data }) => {
+      let round: Round;
+      try {
+        // Saved by an earlier session, maybe by an older version of the game.
+        round = parseRound({ category, ...data, id });
+      } catch (e) {
+        console.warn(`Dropping archived round ${id}, which can't be played:`, e);
+        archive?.remove(id).catch(removeError => console.warn("Failed to remove an archived round:", removeError));
+        return;
+      }
+      rounds.set(id, round);
+      restoredRounds.set(id, { key, category });
+      archivedIds.add(id);
+      servedConcepts.push(round.concept);
+    }))
+    .catch(e => console.warn("Failed to load archived rounds:", e));
+
+  const getRound = (roundId: string): Round => {
+    const data = rounds.get(roundId) ?? dailyRounds.get(roundId);
+    if (!data) throw new UnknownRoundError(roundId);
+    spareRounds.delete(roundId);
+    restoredRounds.delete(roundId);
+    unarchive(roundId);
+    openedConcepts.add(data.concept.toLowerCase());
+    return data;
+  };
+
+  // How the round ended, if it has. Running out of time ends it without anyone saying so.
+  const getEnding = (play: RoundPlay, graceMs = 0): RoundEnding | null => {
+    if (!play.ending && Date.now() > play.endsAt + graceMs) {
+      play.ending = RoundEnding.TIMED_OUT;
+    }
+    return play.ending;
+  };
+
+  const getLiveRound = (): Round | null => {
+    const play = liveRoundId ? plays.get(liveRoundId) : undefined;
+    if (!liveRoundId || !play || getEnding(play)) return null;
+    return rounds.get(liveRoundId) ?? dailyRounds.get(liveRoundId) ?? null;
+  };
+
+  const getLivePlay = (roundId: string): RoundPlay => {
+    const play = plays.get(roundId);
+    if (!play) throw new RoundStateError("This round hasn't started yet.");
+    const ending = getEnding(play, LATE_GUESS_GRACE_MS);
+    if (ending) throw new RoundStateError(ENDING_MESSAGES[ending]);
+    return play;
+  };
+
+  const takeRestoredRound = (key: string, pastConcepts: string[]): string | null => {
+    const played = new Set(pastConcepts.map(c => c.toLowerCase()));
+    for (const [id, restored] of restoredRounds) {
+      const concept = rounds.get(id)?.concept.toLowerCase();
+      if (concept && restored.key === key && !played.has(concept) && !openedConcepts.has(concept)) {
+        // From here on it's like any round the client holds but hasn't opened yet.
+        restoredRounds.delete(id);
+        spareRounds.set(id, restored.category);
+        return id;
+      }
+    }
+    return null;
+  };
+
+  const takeSpareRound = (category: Category, pastConcepts: string[]): string | null => {
+    const played = new Set(pastConcepts.map(c => c.toLowerCase()));
+    for (const [id, spareCategory] of spareRounds) {
+      const data = rounds.get(id);
+      if (data && spareCategory === category && !played.has(data.concept.toLowerCase())) {
+        spareRounds.delete(id);
+        return id;
+      }
+    }
+    return null;
+  };
+
+  const getReverseRound = (roundId: string): ReverseRoundState => {
+    const round = reverseRounds.get(roundId);
+    if (!round) throw new UnknownRoundError(roundId);
+    return round;
+  };
+
+  // A reply that gives away the answer of a round still being played is asked for again once,
+  // and anything in the new one that still gives it away is blanked out.
+  const guardReply = async (chat: ChatSession, category: CategoryDefinition, text: string): Promise<string> => {
+    const live = getLiveRound();
+    if (!live || !text) return text;
+    const answers = [live.concept, ...live.aliases];
+    if (findAnswerMentions(text, answers).length === 0) return text;
+    console.warn('A chat reply gave the answer away, asking for another.');
+    const rewritten = (await chat.sendMessage({ message: buildRewriteRequest(category) })).text?.trim();
+    return redactAnswer(rewritten || text, answers);
+  };
+
+  // Adds the round to a game event. Chats that are told the answer hear it when the round starts,
+  // and every chat hears it with the explanation once the round is over. It's never put into
+  // the client's words, only next to them.
+  const describeRoundEvent = (message: string, answerMode: ChatAnswerMode, event?: RoundChatEvent): string => {
+    if (!event) return message;
+    const { concept, explanation } = getRound(event.roundId);
+    const play = plays.get(event.roundId);
+    if (event.kind === RoundChatEventKind.ENDED) {
+      if (!play || !getEnding(play)) throw new RoundStateError('The answer is only revealed once the round is over.');
+      return `${message} The answer was "${concept}". Here's the explanation for the image: ${explanation}`;
+    }
+    if (!play || getEnding(play)) throw new RoundStateError("This round isn't being played.");
+    if (answerMode === ChatAnswerMode.HIDDEN) return message;
+    return `Game Event: I have just created an image. The concept is "${concept}". My idea for creating it was: ${explanation}. ${message}`;
+  };
+
+  return {
+    createRound: async options => {
+      await restoring;
+      const key = getArchiveKey(options);
+      const restoredId = options.packConcept ? null : takeRestoredRound(key, options.pastConcepts);
+      if (restoredId) return toPublicRound(rounds.get(restoredId)!);
+      const id = createKeptRoundId('round');
+      let data: Round;
+      try {
+        data = await getNewRound(id, { ...options, pastConcepts: [...options.pastConcepts, ...servedConcepts] });
+      } catch (e) {
+        const error = classifyError(e);
+        const spareId = error.kind === GenerationErrorKind.CANCELLED ? null : takeSpareRound(options.category.id, options.pastConcepts);
+        if (!spareId) throw error;
+        console.warn(`Generating a round failed (${error.kind}), handing out one made earlier.`, e);
+        return { ...toPublicRound(rounds.get(spareId)!), isFallback: true };
+      }
+      servedConcepts.push(data.concept);
+      rounds.set(id, data);
+      spareRounds.set(id, options.category.id);
+      if (archive && !options.packConcept) {
+        archivedIds.add(id);
+        archive.save({ id, key, category: options.category.id, data, savedAt: Date.now() })
+          .catch(e => console.warn("Failed to archive a round:", e));
+      }
+      if (rounds.size > MAX_KEPT_ROUNDS) {
+        forgetRound(rounds.keys().next().value!);
+      }
+      return toPublicRound(data);
+    },
+    claimRound: async roundId => {
+      const data = rounds.get(roundId);
+      return !!data && spareRounds.has(roundId) && !plays.has(roundId) && !openedConcepts.has(data.concept.toLowerCase());
+    },
+    getDailyRounds: async date => {
+      const daily = await getDailyRoundData(date);
+      dailyRounds.clear();
+      return daily.map(round => {
+        dailyRounds.set(round.id, round);
+        return toPublicRound(round);
+      });
+    },
+    startRound: async (roundId, roundTime) => {
+      getRound(roundId);
+      // Starting again doesn't put the clock back.
+      if (!plays.has(roundId)) {
+        plays.set(roundId, { endsAt: Date.now() + roundTime * 1000, ending: null, revealedLetters: [] });
+        liveRoundId = roundId;
+      }
+    },
+    endRound: async roundId => {
+      getRound(roundId);
+      const play = plays.get(roundId) ?? { endsAt: Date.now(), ending: null, revealedLetters: [] };
+      plays.set(roundId, play);
+      if (!getEnding(play)) {
+        play.ending = RoundEnding.GAVE_UP;
+      }
+    },
+    checkGuess: async (roundId, guess, strictness) => {
+      const { concept, aliases } = getRound(roundId);
+      const play = getLivePlay(roundId);
+      const isCorrect = isGuessCorrect(guess, [concept, ...aliases], strictness);
+      if (isCorrect) {
+        play.ending = RoundEnding.SOLVED;
+      }
+      return isCorrect;
+    },
+    getHint: async (roundId, request) => {
+      const { concept, year } = getRound(roundId);
+      const play = getLivePlay(roundId);
+      // Letters are counted here rather than by the client, so the last one is never given away.
+      const hint = buildHint(concept, year, request, play.revealedLetters);
+      if (hint?.position !== undefined) {
+        play.revealedLetters.push(hint.position);
+      }
+      return hint;
+    },
+    revealRound: async roundId => {
+      const { concept, aliases, year, explanation } = getRound(roundId);
+      const play = plays.get(roundId);
+      if (!play || !getEnding(play)) {
+        throw new RoundStateError('The answer is only revealed once the round is over.');
+      }
+      return { concept, aliases, year, explanation };
+    },
+    createChat: (category, answerMode) => {
+      const chat = createChat(category, answerMode);
+      return {
+        sendMessage: async ({ message, roundEvent }) => {
+          const response = await chat.sendMessage({ message: describeRoundEvent(message, answerMode, roundEvent) });
+          return { text: await guardReply(chat, category, response.text ?? '') };
+        },
+        sendMessageStream: async ({ message, roundEvent, config }) => {
+          const stream = await chat.sendMessageStream({ message: describeRoundEvent(message, answerMode, roundEvent), config });
+          const live = getLiveRound();
+          // Part of the reply is out before a mention turns up, so it's blanked out rather than asked for again.
+          return live ? redactAnswerStream(stream, [live.concept, ...live.aliases]) : stream;
+        },
+      };
+    },
+    getClue: async (roundId, category, previousClues) => generateClue(getRound(roundId), category, previousClues),
+    redrawSketch: async (roundId, category, errors) => {
+      const data = getRound(roundId);
+      if (!data.sketchCode) throw new Error("This round isn't drawn by a sketch.");
+      data.sketchCode = await redrawSketch(data, category, errors);
+      return data.sketchCode;
+    },
+    createReverseRound: async options => {
+      const data = await chooseReverseTitle({ ...options, pastConcepts: [...options.pastConcepts, ...servedConcepts] });
+      const id = createKeptRoundId('reverse');
+      const bannedWords = getBannedWords([data.concept, ...(data.aliases ?? [])]);
+      servedConcepts.push(data.concept);
+      reverseRounds.set(id, { data, category: options.category, imageStyle: options.imageStyle, bannedWords, imageUrl: null, guesses: [], isSolved: false, isDrawing: false, isGuessing: false });
+      if (reverseRounds.size > MAX_KEPT_ROUNDS) {
+        reverseRounds.delete(reverseRounds.keys().next().value!);
+      }
+      return { id, title: data.concept, description: data.explanation, bannedWords };
+    },
+    drawReverseRound: async (roundId, prompt, signal) => {
+      const round = getReverseRound(roundId);
+      if (round.imageUrl || round.isDrawing) throw new ReverseRoundError('This round has already been drawn.');
+      const checked = checkReversePrompt(prompt, round.bannedWords);
+      round.isDrawing = true;
+      try {
+        round.imageUrl = await drawReverseImage(checked, round.imageStyle, [round.data.concept, ...(round.data.aliases ?? [])], round.category, signal);
+      } finally {
+        round.isDrawing = false;
+      }
+      return round.imageUrl;
+    },
+    guessReverseRound: async (roundId, signal) => {
+      const round = getReverseRound(roundId);
+      const { data, category, guesses, imageUrl } = round;
+      if (!imageUrl) throw new ReverseRoundError('Draw the image first.');
+      if (round.isGuessing) throw new ReverseRoundError('The AI is still guessing.');
+      if (round.isSolved || guesses.length >= REVERSE_GUESS_LIMIT) throw new ReverseRoundError('The AI has no guesses left.');
+      round.isGuessing = true;
+      let guess: string;
+      try {
+        guess = await guessReverseImage(imageUrl, category, guesses, signal);
+      } finally {
+        round.isGuessing = false;
+      }
+      guesses.push(guess);
+      round.isSolved = isGuessCorrect(guess, [data.concept, ...(data.aliases ?? [])], MatchStrictness.NORMAL);
+      const attemptsLeft = round.isSolved ? 0 : REVERSE_GUESS_LIMIT - guesses.length;
+      return { guess, isCorrect: round.isSolved, attemptsLeft, ...(attemptsLeft === 0 && { examplePrompt: data.imagePrompt }) };
+    },
+  };
+};
+
+let backend: RoundBackend | null = null;
+
+export const getRoundBackend = (): RoundBackend => {
+  if (!backend) {
+    const serverUrl = process.env.GAME_SERVER_URL?.trim();
+    // Only the local keeper archives rounds: a server keeps its answers, so its rounds can't be played offline.
+    backend = serverUrl
+      ? createRemoteRoundBackend(serverUrl)
+      : createRoundKeeper(canArchiveRounds() ? createBrowserRoundArchive() : undefined);
+  }
+  return backend;
+};
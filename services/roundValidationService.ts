@@ -0,0 +1,156 @@
+import { AnswerNormalization, Category, ConceptData, Difficulty, GenerationErrorKind, Round, RoundProvenance, RoundTimings } from '../types';
+import { normalizeTitle } from './categoryService';
+import { GenerationError } from './resilienceService';
+
+// Checks round data the code didn't make itself: the model's JSON for a new round, and rounds saved
+// by an earlier session. Whatever doesn't fit is listed field by field, and the player gets the
+// usual message for a malformed response, so the round is tried again.
+
+export class RoundValidationError extends GenerationError {
+  constructor(public readonly problems: string[]) {
+    super(GenerationErrorKind.MALFORMED);
+    this.name = 'RoundValidationError';
+  }
+}
+
+const CATEGORIES = Object.values(Category);
+const DIFFICULTIES = Object.values(Difficulty);
+const PROVENANCES = Object.values(RoundProvenance);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null;
+
+// The non-empty strings of a list, trimmed. Anything else in it is dropped.
+const readTextList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isText).map(text => text.trim()) : [];
+
+// Other names for the answer, without repeats or the answer itself.
+const readAliases = (value: unknown, concept: string): string[] => {
+  const seen = new Set([concept.toLowerCase()]);
+  return readTextList(value).filter(alias => {
+    const key = alias.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const readYear = (value: unknown): number | undefined => (Number.isInteger(value) ? value as number : undefined);
+
+export interface ConceptExpectations {
+  normalization?: AnswerNormalization; // The category's rules for the answer
+  isSketch?: boolean; // Wants sketchCode instead of an image prompt
+  imageCount?: number; // More than one wants that many earlier image prompts, less one
+}
+
+// The model's answer to a concept prompt. Problems with the answer, the explanation or the image
+// prompts reject it; stray aliases and a year that isn't a whole number are only dropped.
+export const parseConceptData = (value: unknown, { normalization, isSketch = false, imageCount = 1 }: ConceptExpectations = {}): ConceptData => {
+  if (!isObject(value)) {
+    throw new RoundValidationError(['The response must be a JSON object.']);
+  }
+  const problems: string[] = [];
+  const concept = typeof value.concept === 'string' ? normalizeTitle(value.concept, normalization) : '';
+  if (!concept) {
+    problems.push('"concept" must be a title with at least one letter or digit.');
+  }
+  if (!isText(value.explanation)) {
+    problems.push('"explanation" must be a sentence.');
+  }
+  if (!isMissing(value.aliases) && !Array.isArray(value.aliases)) {
+    problems.push('"aliases" must be a list.');
+  }
+  const imagePrompt = isText(value.imagePrompt) ? value.imagePrompt.trim() : '';
+  if (!isSketch && !imagePrompt) {
+    problems.push('"imagePrompt" must describe the image.');
+  }
+  if (isSketch && !isText(value.sketchCode)) {
+    problems.push('"sketchCode" must be the p5.js sketch.');
+  }
+  const imagePrompts = readTextList(value.imagePrompts).slice(0, Math.max(0, imageCount - 1));
+  if (imagePrompts.length < imageCount - 1) {
+    const wanted = imageCount - 1;
+    problems.push(`"imagePrompts" must have ${wanted} image ${wanted === 1 ? 'prompt' : 'prompts'}, not ${imagePrompts.length}.`);
+  }
+  if (problems.length > 0) {
+    throw new RoundValidationError(problems);
+  }
+
+  const year = readYear(value.year);
+  return {
+    concept,
+    aliases: readAliases(value.aliases, concept),
+    ...(year !== undefined && { year }),
+    explanation: (value.explanation as string).trim(),
+    imagePrompt,
+    ...(imagePrompts.length > 0 && { imagePrompts }),
+    ...(isSketch && { sketchCode: value.sketchCode as string }),
+  };
+};
+
+const readTimings = (value: unknown): RoundTimings => {
+  const read = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) && field >= 0 ? field : 0);
+  const timings = isObject(value) ? value : {};
+  return { createdAt: read(timings.createdAt), conceptMs: read(timings.conceptMs), imagesMs: read(timings.imagesMs) };
+};
+
+// A round saved by an earlier session, which may have been an older version of the game. What's
+// needed to play it has to be there; what only says how it was made falls back to a default.
+export const parseRound = (value: unknown): Round => {
+  if (!isObject(value)) {
+    throw new RoundValidationError(['A round must be an object.']);
+  }
+  const problems: string[] = [];
+  if (!isText(value.id)) {
+    problems.push('"id" is missing.');
+  }
+  if (!isText(value.concept)) {
+    problems.push('"concept" is missing.');
+  }
+  if (typeof value.explanation !== 'string') {
+    problems.push('"explanation" is missing.');
+  }
+  const category = value.category as Category;
+  if (!CATEGORIES.includes(category)) {
+    problems.push(`"category" must be one of ${CATEGORIES.join(', ')}.`);
+  }
+  const difficulty = value.difficulty as Difficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    problems.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')}.`);
+  }
+  // Rounds saved before escalating rounds existed only have the one image.
+  const imageUrls = Array.isArray(value.imageUrls) ? readTextList(value.imageUrls) : isText(value.imageUrl) ? [value.imageUrl] : [];
+  const sketchCode = isText(value.sketchCode) ? value.sketchCode : undefined;
+  if (imageUrls.length === 0 && !sketchCode) {
+    problems.push('The round has neither images nor a sketch.');
+  }
+  if (problems.length > 0) {
+    throw new RoundValidationError(problems);
+  }
+
+  const concept = value.concept as string;
+  const year = readYear(value.year);
+  const imageRejections = readTextList(value.imageRejections);
+  return {
+    id: value.id as string,
+    concept,
+    aliases: readAliases(value.aliases, concept),
+    ...(year !== undefined && { year }),
+    explanation: value.explanation as string,
+    imagePrompt: typeof value.imagePrompt === 'string' ? value.imagePrompt : '',
+    imagePrompts: readTextList(value.imagePrompts),
+    imageUrl: imageUrls[0] ?? '',
+    imageUrls,
+    ...(sketchCode && { sketchCode }),
+    ...(isText(value.imageStyle) && { imageStyle: value.imageStyle }),
+    category,
+    difficulty,
+    provenance: PROVENANCES.includes(value.provenance as RoundProvenance) ? value.provenance as RoundProvenance : RoundProvenance.GENERATED,
+    timings: readTimings(value.timings),
+    ...(imageRejections.length > 0 && { imageRejections }),
+  };
+};
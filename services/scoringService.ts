@@ -0,0 +1,104 @@
+import { HintType, LevelCurveId, ScoreBreakdown } from '../types';
+import { HINT_COSTS } from '../constants';
+
+const BASE_POINTS = 50;
+const MAX_TIME_BONUS = 100;
+const MIN_POINTS = 10; // A correct answer is always worth something, however many hints it took.
+const CLUE_PENALTY = 10;
+const WRONG_GUESS_PENALTY = 5;
+const STREAK_STEP = 0.25;
+const MAX_STREAK_MULTIPLIER = 2;
+const EARLY_IMAGE_BONUS = 40; // For each image of an escalating round that was still hidden
+const MAX_OBSCURITY_BONUS = 100; // For solving a reveal-mode image before any of it has cleared
+
+export interface RoundScoreInput {
+  timeLeft: number;
+  roundTime: number;
+  paidHints: HintType[];
+  cluesRequested: number;
+  wrongGuesses: number;
+  streak: number; // Consecutive wins before this one
+  imagesShown?: number; // Escalating rounds only
+  imageCount?: number;
+  obscurity?: number; // Reveal mode only: how hidden the image still was, from 0 to 1
+}
+
+export const scoreRound = ({ timeLeft, roundTime, paidHints, cluesRequested, wrongGuesses, streak, imagesShown = 1, imageCount = 1, obscurity = 0 }: RoundScoreInput): ScoreBreakdown => {
+  const timeBonus = Math.round(MAX_TIME_BONUS * Math.max(0, timeLeft) / roundTime);
+  const earlyImageBonus = Math.max(0, imageCount - imagesShown) * EARLY_IMAGE_BONUS;
+  const obscurityBonus = Math.round(MAX_OBSCURITY_BONUS * Math.min(1, Math.max(0, obscurity)));
+  const hintPenalty = paidHints.reduce((sum, type) => sum + HINT_COSTS[type], 0) + cluesRequested * CLUE_PENALTY;
+  const wrongGuessPenalty = wrongGuesses * WRONG_GUESS_PENALTY;
+  const streakMultiplier = Math.min(MAX_STREAK_MULTIPLIER, 1 + streak * STREAK_STEP);
+  const subtotal = Math.max(MIN_POINTS, BASE_POINTS + timeBonus + earlyImageBonus + obscurityBonus - hintPenalty - wrongGuessPenalty);
+  return {
+    base: BASE_POINTS,
+    timeBonus,
+    earlyImageBonus,
+    obscurityBonus,
+    hintPenalty,
+    wrongGuessPenalty,
+    streakMultiplier,
+    total: Math.round(subtotal * streakMultiplier),
+  };
+};
+
+export const describeBreakdown = (breakdown: ScoreBreakdown): string => {
+  const parts = [`${breakdown.base} base`, `+${breakdown.timeBonus} time`];
+  if (breakdown.earlyImageBonus > 0) parts.push(`+${breakdown.earlyImageBonus} early image`);
+  if (breakdown.obscurityBonus > 0) parts.push(`+${breakdown.obscurityBonus} obscured`);
+  if (breakdown.hintPenalty > 0) parts.push(`-${breakdown.hintPenalty} hints`);
+  if (breakdown.wrongGuessPenalty > 0) parts.push(`-${breakdown.wrongGuessPenalty} wrong guesses`);
+  if (breakdown.streakMultiplier > 1) parts.push(`x${breakdown.streakMultiplier} streak`);
+  return parts.join(', ');
+};
+
+// Reverse mode: points for the player's prompt, by how many guesses the model needed.
+const REVERSE_POINTS = [100, 60, 30];
+
+export const scoreReverseRound = (guessesNeeded: number | null): number =>
+  guessesNeeded === null ? 0 : REVERSE_POINTS[guessesNeeded - 1] ?? 0;
+
+// A level curve decides how points turn into levels and how each level plays.
+export interface LevelCurve {
+  id: LevelCurveId;
+  label: string;
+  description: string;
+  levelForScore: (score: number) => number;
+  roundTimeForLevel: (level: number) => number;
+  // 0 picks the most popular titles, 1 the most obscure.
+  obscurityForLevel: (level: number) => number;
+}
+
+const DEFAULT_ROUND_TIME = 30;
+
+export const LEVEL_CURVES: LevelCurve[] = [
+  {
+    id: LevelCurveId.STEADY,
+    label: 'Steady',
+    description: 'A new level every 500 points. Titles get more obscure as you go.',
+    levelForScore: score => Math.floor(Math.max(0, score) / 500) + 1,
+    roundTimeForLevel: () => DEFAULT_ROUND_TIME,
+    obscurityForLevel: level => Math.min(1, (level - 1) / 6),
+  },
+  {
+    id: LevelCurveId.ACCELERATING,
+    label: 'Accelerating',
+    description: 'Each level takes more points, rounds get 2 seconds shorter per level, and titles get obscure quickly.',
+    // Level n needs 250 * n * (n - 1) / 2 points: 0, 250, 750, 1500, ...
+    levelForScore: score => Math.floor((1 + Math.sqrt(1 + 8 * Math.max(0, score) / 250)) / 2),
+    roundTimeForLevel: level => Math.max(15, DEFAULT_ROUND_TIME - (level - 1) * 2),
+    obscurityForLevel: level => Math.min(1, (level - 1) / 4),
+  },
+  {
+    id: LevelCurveId.RELAXED,
+    label: 'Relaxed',
+    description: 'A new level every 1000 points, with the same round length and well-known titles throughout.',
+    levelForScore: score => Math.floor(Math.max(0, score) / 1000) + 1,
+    roundTimeForLevel: () => DEFAULT_ROUND_TIME,
+    obscurityForLevel: () => 0,
+  },
+];
+
+export const getLevelCurve = (id: LevelCurveId): LevelCurve =>
+  LEVEL_CURVES.find(curve => curve.id === id) ?? LEVEL_CURVES[0];
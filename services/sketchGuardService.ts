@@ -0,0 +1,295 @@
+import { parse, Node } from 'acorn';
+import { SketchError, SketchErrorKind } from '../types';
+
+// Checks the p5.js code of a sketch round before it runs. The sandboxed frame it runs in already
+// keeps it away from the page, the network and storage; this catches code that tries anyway, so
+// the model can be asked for a version that doesn't, and adds guards that stop runaway loops.
+
+const MAX_REPORTED_ERRORS = 10;
+
+// Globals a sketch has no business using, unless it declares a name of its own that shadows them.
+const FORBIDDEN_GLOBALS: Record<string, string> = {
+  fetch: "sketches can't reach the network",
+  XMLHttpRequest: "sketches can't reach the network",
+  WebSocket: "sketches can't reach the network",
+  EventSource: "sketches can't reach the network",
+  navigator: "sketches can't reach the network or the device",
+  importScripts: "sketches can't load other scripts",
+  Worker: "sketches can't start other scripts",
+  SharedWorker: "sketches can't start other scripts",
+  localStorage: "sketches can't use storage",
+  sessionStorage: "sketches can't use storage",
+  indexedDB: "sketches can't use storage",
+  caches: "sketches can't use storage",
+  eval: "sketches can't run code from a string",
+  Function: "sketches can't run code from a string",
+  window: "sketches can't reach outside the canvas",
+  self: "sketches can't reach outside the canvas",
+  globalThis: "sketches can't reach outside the canvas",
+  document: "sketches can't reach outside the canvas",
+  parent: "sketches can't reach outside the canvas",
+  top: "sketches can't reach outside the canvas",
+  opener: "sketches can't reach outside the canvas",
+  frames: "sketches can't reach outside the canvas",
+  location: "sketches can't reach outside the canvas",
+  postMessage: "sketches can't reach outside the canvas",
+  open: "sketches can't open windows",
+  alert: "sketches can't open dialogs",
+  confirm: "sketches can't open dialogs",
+  prompt: "sketches can't open dialogs",
+  // p5's own ways of loading files and adding to the page
+  loadImage: "sketches can't load files",
+  loadJSON: "sketches can't load files",
+  loadStrings: "sketches can't load files",
+  loadFont: "sketches can't load files",
+  loadTable: "sketches can't load files",
+  loadXML: "sketches can't load files",
+  loadBytes: "sketches can't load files",
+  loadModel: "sketches can't load files",
+  loadShader: "sketches can't load files",
+  loadSound: "sketches can't load files",
+  httpGet: "sketches can't reach the network",
+  httpPost: "sketches can't reach the network",
+  httpDo: "sketches can't reach the network",
+  createImg: "sketches can't add to the page outside the canvas",
+  createA: "sketches can't add to the page outside the canvas",
+  createVideo: "sketches can't add to the page outside the canvas",
+  createAudio: "sketches can't add to the page outside the canvas",
+  createCapture: "sketches can't use the camera",
+  createElement: "sketches can't add to the page outside the canvas",
+  createDiv: "sketches can't add to the page outside the canvas",
+  createP: "sketches can't add to the page outside the canvas",
+  createSpan: "sketches can't add to the page outside the canvas",
+  createButton: "sketches can't add to the page outside the canvas",
+  createInput: "sketches can't add to the page outside the canvas",
+  createFileInput: "sketches can't add to the page outside the canvas",
+  select: "sketches can't reach outside the canvas",
+  selectAll: "sketches can't reach outside the canvas",
+  saveCanvas: "sketches can't download files",
+  save: "sketches can't download files",
+  text: 'the picture must not contain any text',
+};
+
+// Properties that lead out of the sandbox or back to the Function constructor. A Map, as an
+// object literal can't have a __proto__ key of its own.
+const FORBIDDEN_PROPERTIES = new Map([
+  ['constructor', "sketches can't reach the Function constructor"],
+  ['__proto__', "sketches can't reach the Function constructor"],
+  ['cookie', "sketches can't use storage"],
+  ['innerHTML', "sketches can't write HTML"],
+  ['outerHTML', "sketches can't write HTML"],
+  ['insertAdjacentHTML', "sketches can't write HTML"],
+]);
+
+// Names starting with this are the harness's, like the loop guard.
+const RESERVED_PREFIX = '__';
+export const LOOP_GUARD = '__loopGuard';
+
+type AnyNode = Node & Record<string, unknown>;
+
+const isNode = (value: unknown): value is AnyNode =>
+  typeof value === 'object' && value !== null && typeof (value as Node).type === 'string';
+
+const children = (node: AnyNode): [AnyNode, string][] =>
+  Object.entries(node).flatMap(([key, value]): [AnyNode, string][] => {
+    if (key === 'loc') return [];
+    if (Array.isArray(value)) return value.filter(isNode).map(child => [child, key]);
+    return isNode(value) ? [[value, key]] : [];
+  });
+
+// Visits every node along with its parent and the parent's key for it.
+const walk = (node: AnyNode, visit: (node: AnyNode, parent: AnyNode | null, key: string) => void, parent: AnyNode | null = null, key = '') => {
+  visit(node, parent, key);
+  children(node).forEach(([child, childKey]) => walk(child, visit, node, childKey));
+};
+
+const parseSketch = (code: string) => parse(code, { ecmaVersion: 'latest', sourceType: 'script', locations: true }) as unknown as AnyNode;
+
+// A program, function or block and the names declared in it. A name the sketch declares only
+// shadows a global inside the scope that declares it.
+interface Scope {
+  names: Set<string>;
+  parent: Scope | null;
+  isThisGlobal: boolean; // Outside methods and constructors, `this` is the window
+}
+
+const FUNCTIONS = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+const BLOCKS = new Set(['BlockStatement', 'StaticBlock', 'ForStatement', 'ForInStatement', 'ForOfStatement', 'SwitchStatement', 'CatchClause', 'ClassExpression']);
+
+// Methods, getters, setters and constructors, whose `this` is their object.
+const isMethod = (parent: AnyNode | null, key: string): boolean =>
+  key === 'value' && (parent?.type === 'MethodDefinition' || (parent?.type === 'Property' && (parent.method === true || parent.kind !== 'init')));
+
+// Where `this` isn't the window: methods, class field initialisers and static blocks. Arrow
+// functions and blocks keep the `this` around them.
+const isThisGlobalIn = (node: AnyNode, parent: AnyNode | null, key: string, outer: Scope): boolean => {
+  if (node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression') return !isMethod(parent, key);
+  if (node.type === 'StaticBlock' || (parent?.type === 'PropertyDefinition' && key === 'value')) return false;
+  return outer.isThisGlobal;
+};
+
+const isDeclared = (name: string, scope: Scope | null): boolean =>
+  !!scope && (scope.names.has(name) || isDeclared(name, scope.parent));
+
+// Every scope in the sketch and the names declared in it, found before anything is checked so a
+// name used above its declaration still counts. `var` belongs to the function around it.
+const collectScopes = (program: AnyNode): Map<AnyNode, Scope> => {
+  const scopes = new Map<AnyNode, Scope>();
+  const declare = (pattern: unknown, scope: Scope) => {
+    if (!isNode(pattern)) return;
+    if (pattern.type === 'Identifier') scope.names.add(pattern.name as string);
+    else if (pattern.type === 'ObjectPattern') (pattern.properties as AnyNode[]).forEach(p => declare(p.type === 'RestElement' ? p.argument : p.value, scope));
+    else if (pattern.type === 'ArrayPattern') (pattern.elements as unknown[]).forEach(element => declare(element, scope));
+    else if (pattern.type === 'RestElement') declare(pattern.argument, scope);
+    else if (pattern.type === 'AssignmentPattern') declare(pattern.left, scope);
+  };
+  const visit = (node: AnyNode, scope: Scope, functionScope: Scope, parent: AnyNode | null, key: string) => {
+    let inner = scope;
+    let innerFunction = functionScope;
+    const isThisGlobal = isThisGlobalIn(node, parent, key, scope);
+    if (FUNCTIONS.has(node.type) || BLOCKS.has(node.type) || isThisGlobal !== scope.isThisGlobal) {
+      inner = { names: new Set(), parent: scope, isThisGlobal };
+      scopes.set(node, inner);
+      if (FUNCTIONS.has(node.type)) innerFunction = inner;
+    }
+    if (node.type === 'FunctionDeclaration' || node.type === 'ClassDeclaration') declare(node.id, scope);
+    if (node.type === 'FunctionExpression' || node.type === 'ClassExpression') declare(node.id, inner);
+    if (FUNCTIONS.has(node.type)) (node.params as unknown[]).forEach(param => declare(param, inner));
+    if (node.type === 'CatchClause') declare(node.param, inner);
+    if (node.type === 'VariableDeclaration') {
+      (node.declarations as AnyNode[]).forEach(declarator => declare(declarator.id, node.kind === 'var' ? functionScope : scope));
+    }
+    children(node).forEach(([child, childKey]) => visit(child, inner, innerFunction, node, childKey));
+  };
+  const global: Scope = { names: new Set(), parent: null, isThisGlobal: true };
+  scopes.set(program, global);
+  children(program).forEach(([child, key]) => visit(child, global, global, program, key));
+  return scopes;
+};
+
+// Like walk, along with the innermost scope around each node.
+const walkScopes = (
+  node: AnyNode,
+  scopes: Map<AnyNode, Scope>,
+  visit: (node: AnyNode, parent: AnyNode | null, key: string, scope: Scope) => void,
+  scope: Scope = scopes.get(node)!,
+  parent: AnyNode | null = null,
+  key = '',
+) => {
+  visit(node, parent, key, scope);
+  children(node).forEach(([child, childKey]) => walkScopes(child, scopes, visit, scopes.get(child) ?? scope, node, childKey));
+};
+
+// Whether an identifier is a name being looked up, rather than a property name, a label or a declaration.
+const isReference = (parent: AnyNode | null, key: string): boolean => {
+  if (!parent) return true;
+  if ((parent.type === 'MemberExpression' && key === 'property') && !parent.computed) return false;
+  if ((parent.type === 'Property' || parent.type === 'MethodDefinition' || parent.type === 'PropertyDefinition') && key === 'key' && !parent.computed) return false;
+  if (parent.type === 'LabeledStatement' || parent.type === 'BreakStatement' || parent.type === 'ContinueStatement') return false;
+  return true;
+};
+
+const propertyName = (node: AnyNode): string | null => {
+  const property = node.property as AnyNode;
+  if (!node.computed && property.type === 'Identifier') return property.name as string;
+  if (property.type === 'Literal' && typeof property.value === 'string') return property.value;
+  return null;
+};
+
+const at = (node: Node) => ({ line: node.loc?.start.line, column: node.loc ? node.loc.start.column + 1 : undefined });
+
+// Everything wrong with the sketch that can be told without running it. Empty when it's fine.
+export const checkSketchCode = (code: string): SketchError[] => {
+  let program: AnyNode;
+  try {
+    program = parseSketch(code);
+  } catch (e) {
+    const loc = (e as { loc?: { line: number; column: number } }).loc;
+    return [{
+      kind: SketchErrorKind.SYNTAX,
+      message: e instanceof Error ? e.message.replace(/\s*\(\d+:\d+\)$/, '') : String(e),
+      ...(loc && { line: loc.line, column: loc.column + 1 }),
+    }];
+  }
+
+  const scopes = collectScopes(program);
+  const errors: SketchError[] = [];
+  const forbid = (node: Node, message: string) => errors.push({ kind: SketchErrorKind.FORBIDDEN, message, ...at(node) });
+
+  walkScopes(program, scopes, (node, parent, key, scope) => {
+    switch (node.type) {
+      case 'Identifier': {
+        const name = node.name as string;
+        if (name.startsWith(RESERVED_PREFIX)) {
+          forbid(node, `"${name}" starts with ${RESERVED_PREFIX}, which is kept for the game.`);
+        } else if (Object.hasOwn(FORBIDDEN_GLOBALS, name) && !isDeclared(name, scope) && isReference(parent, key)) {
+          forbid(node, `${name}: ${FORBIDDEN_GLOBALS[name]}.`);
+        }
+        break;
+      }
+      case 'ThisExpression': {
+        // Outside methods and constructors `this` is the window, so this.fetch is fetch.
+        if (!scope.isThisGlobal) break;
+        const name = parent?.type === 'MemberExpression' && key === 'object' ? propertyName(parent) : null;
+        if (name === null) {
+          forbid(node, "this outside a method: sketches can't reach outside the canvas.");
+        } else if (Object.hasOwn(FORBIDDEN_GLOBALS, name)) {
+          forbid(node, `this.${name}: ${FORBIDDEN_GLOBALS[name]}.`);
+        }
+        break;
+      }
+      case 'MemberExpression': {
+        const name = propertyName(node);
+        const reason = name === null ? undefined : FORBIDDEN_PROPERTIES.get(name);
+        if (reason) {
+          forbid(node, `.${name}: ${reason}.`);
+        }
+        break;
+      }
+      case 'ImportExpression':
+        forbid(node, "import(): sketches can't load other scripts.");
+        break;
+      case 'WithStatement':
+        forbid(node, "with statements aren't allowed.");
+        break;
+      case 'CallExpression':
+      case 'NewExpression': {
+        // Timers are fine with a function, but a string is run like eval.
+        const callee = node.callee as AnyNode;
+        const [first] = node.arguments as AnyNode[];
+        if (callee.type === 'Identifier' && ['setTimeout', 'setInterval'].includes(callee.name as string)
+            && first && (first.type === 'TemplateLiteral' || (first.type === 'Literal' && typeof first.value === 'string'))) {
+          forbid(node, `${callee.name} with a string: sketches can't run code from a string.`);
+        }
+        break;
+      }
+    }
+  });
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+};
+
+const LOOPS = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+
+// Calls the loop guard at the top of every loop body, so a loop that runs past the frame's time
+// budget throws instead of freezing the page. Nothing is added on new lines, so line numbers in
+// errors still match the code the model wrote. Expects code that passed checkSketchCode.
+export const addLoopGuards = (code: string): string => {
+  const insertions: [number, string][] = [];
+  walk(parseSketch(code), node => {
+    if (!LOOPS.has(node.type)) return;
+    const body = node.body as AnyNode;
+    if (body.type === 'BlockStatement') {
+      insertions.push([body.start + 1, `${LOOP_GUARD}();`]);
+    } else {
+      insertions.push([body.start, `{${LOOP_GUARD}();`], [body.end, '}']);
+    }
+  });
+  return insertions
+    .sort((a, b) => b[0] - a[0])
+    .reduce((guarded, [position, text]) => guarded.slice(0, position) + text + guarded.slice(position), code);
+};
+
+// For the model: what went wrong and where, one problem per line.
+export const describeSketchErrors = (errors: SketchError[]): string =>
+  errors.map(({ kind, message, line, column }) =>
+    `- ${kind}${line ? ` at line ${line}${column ? `, column ${column}` : ''}` : ''}: ${message}`).join('\n');
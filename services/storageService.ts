@@ -0,0 +1,97 @@
+// Thin wrappers around the browser's storage APIs. Small settings-style values live in
+// localStorage; anything that can grow large (round history, images) goes in IndexedDB.
+
+const DB_NAME = 'image-pictionary';
+const DB_VERSION = 3;
+
+export const STORES = {
+  ROUNDS: 'rounds',
+  DAILY_ROUNDS: 'daily-rounds',
+  QUEUED_ROUNDS: 'queued-rounds',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.ROUNDS)) {
+          const rounds = db.createObjectStore(STORES.ROUNDS, { keyPath: 'id' });
+          rounds.createIndex('playedAt', 'playedAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.DAILY_ROUNDS)) {
+          db.createObjectStore(STORES.DAILY_ROUNDS, { keyPath: 'date' });
+        }
+        if (!db.objectStoreNames.contains(STORES.QUEUED_ROUNDS)) {
+          db.createObjectStore(STORES.QUEUED_ROUNDS, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const putRecord = async <T>(store: StoreName, record: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(record));
+};
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
+
+const LOCAL_STORAGE_PREFIX = 'image-pictionary:';
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    console.warn(`Failed to read "${key}" from local storage:`, e);
+    return fallback;
+  }
+};
+
+export const saveJson = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to write "${key}" to local storage:`, e);
+  }
+};
@@ -0,0 +1,261 @@
+import { ImageStyle, StyleTexture } from '../types';
+import { DEFAULT_STYLE_ID } from '../constants';
+import { loadJson, saveJson } from './storageService';
+
+// The styles images can be drawn in: a curated library, each with a guide that tells the model
+// what makes the style recognisable, plus styles the player saves themselves. Every style has a
+// small preview of the same scene, a sun over two hills, drawn in its colours and texture.
+
+const CUSTOM_STYLES_KEY = 'custom-styles';
+const MAX_LABEL_LENGTH = 40;
+const MAX_GUIDE_LENGTH = 300;
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 20;
+
+export const CUSTOM_TAG = 'custom';
+
+const style = (id: string, label: string, prompt: string, tags: string[], texture: StyleTexture, colors: ImageStyle['preview']['colors'], guide: string): ImageStyle =>
+  ({ id, label, prompt, guide, tags, preview: { colors, texture } });
+
+export const STYLE_LIBRARY: ImageStyle[] = [
+  style('wood-carving', 'Wood Carving', 'wood carving', ['craft', 'texture'], StyleTexture.GRAIN, ['#d9b48a', '#a0622d', '#8b5a2b', '#5c3a1a'],
+    'Describe the carved relief, the wood grain running through every surface and the chisel marks along the edges.'),
+  style('pixel-art', 'Pixel Art', 'pixel art', ['digital', 'retro'], StyleTexture.PIXELS, ['#5fcde4', '#fbf236', '#37946e', '#4b692f'],
+    'Name a bit depth such as 16-bit, keep to a limited palette and crisp square pixels, with no smoothing or gradients.'),
+  style('claymation', 'Claymation', 'claymation', ['3d', 'playful', 'craft'], StyleTexture.PAINT, ['#ffd6a5', '#ff8c42', '#6bbf59', '#3f8f3a'],
+    'Describe chunky plasticine figures with visible thumbprints, soft studio lighting and a miniature handmade set.'),
+  style('charcoal-sketch', 'Charcoal Sketch', 'charcoal sketch', ['drawing', 'monochrome'], StyleTexture.LINES, ['#e8e4dc', '#3a3a3a', '#595959', '#222222'],
+    'Describe smudged charcoal on textured paper, with loose gestural lines, deep shadows and areas left unfinished.'),
+
+  // Painting
+  style('watercolor', 'Watercolor', 'watercolor painting', ['painting', 'soft'], StyleTexture.PAINT, ['#dbeafe', '#fca5a5', '#86c5a4', '#4f9a7a'],
+    'Describe translucent washes that bleed into each other, soft edges, paper showing through and a few crisp details.'),
+  style('oil-painting', 'Oil Painting', 'oil painting', ['painting', 'classic'], StyleTexture.PAINT, ['#c9a66b', '#f4d35e', '#6b705c', '#3d405b'],
+    'Describe rich layered colour, thick visible brushstrokes, dramatic light and the texture of canvas.'),
+  style('impressionism', 'Impressionism', 'impressionist painting', ['painting', 'classic', 'soft'], StyleTexture.DOTS, ['#bde0fe', '#ffd166', '#90be6d', '#43aa8b'],
+    'Describe short dabs of pure colour, flickering outdoor light and scenes seen in passing rather than sharp detail.'),
+  style('gouache', 'Gouache', 'gouache illustration', ['painting', 'illustration'], StyleTexture.FLAT, ['#f7ede2', '#f28482', '#84a59d', '#2a6f6a'],
+    'Describe flat opaque colour, matte finish and the slightly chalky edges of mid-century storybook art.'),
+  style('ukiyo-e', 'Ukiyo-e', 'ukiyo-e woodblock print', ['print', 'classic'], StyleTexture.GRAIN, ['#f1e3c6', '#d1495b', '#2e5e7e', '#1d3557'],
+    'Describe bold outlines, flat areas of muted colour, stylised waves and clouds, and the grain of the paper.'),
+  style('ink-wash', 'Ink Wash', 'Chinese ink wash painting', ['painting', 'monochrome', 'minimal'], StyleTexture.PAINT, ['#f5f2ea', '#b23a48', '#8d8d8d', '#2b2b2b'],
+    'Describe expressive brushwork in black ink, soft grey washes, lots of empty space and a single red accent.'),
+  style('fresco', 'Fresco', 'Renaissance fresco', ['painting', 'classic'], StyleTexture.GRAIN, ['#e9d8b4', '#d4a373', '#a98467', '#6c584c'],
+    'Describe faded earthy pigments on cracked plaster, graceful figures and a sense of age.'),
+  style('pop-art', 'Pop Art', 'pop art', ['print', 'bold', 'retro'], StyleTexture.DOTS, ['#ffe600', '#ff2e63', '#08d9d6', '#252a34'],
+    'Describe bold flat colours, thick black outlines and Ben-Day dots, like a 1960s screen print.'),
+  style('art-nouveau', 'Art Nouveau', 'art nouveau poster', ['illustration', 'classic', 'ornate'], StyleTexture.LINES, ['#f3e9d2', '#c6a15b', '#7d9d6f', '#44633f'],
+    'Describe flowing organic lines, decorative floral borders and muted golds and greens.'),
+  style('cubism', 'Cubism', 'cubist painting', ['painting', 'abstract'], StyleTexture.TILES, ['#d6c7a1', '#c1666b', '#6d8a96', '#3d3b30'],
+    'Describe subjects broken into angular planes and seen from several viewpoints at once, in muted tones.'),
+  style('stained-glass', 'Stained Glass', 'stained glass window', ['craft', 'bold', 'ornate'], StyleTexture.TILES, ['#1d3557', '#ffbe0b', '#e63946', '#2a9d8f'],
+    'Describe jewel-toned glass pieces held by thick dark lead lines, with light glowing through them.'),
+
+  // Drawing and print
+  style('pencil-sketch', 'Pencil Sketch', 'graphite pencil sketch', ['drawing', 'monochrome'], StyleTexture.LINES, ['#f4f4f0', '#7a7a7a', '#9a9a9a', '#4a4a4a'],
+    'Describe fine graphite lines, cross-hatched shading and construction lines left in on white paper.'),
+  style('ink-drawing', 'Ink Drawing', 'pen and ink drawing', ['drawing', 'monochrome'], StyleTexture.LINES, ['#fbfaf5', '#111111', '#333333', '#111111'],
+    'Describe confident black pen lines, stippling and hatching for shade, and no colour at all.'),
+  style('crayon', 'Crayon Drawing', "child's crayon drawing", ['drawing', 'playful'], StyleTexture.LINES, ['#fffdf5', '#ffb703', '#52b788', '#2d6a4f'],
+    'Describe waxy crayon strokes, wobbly outlines, simple shapes and colour that goes over the lines.'),
+  style('blueprint', 'Blueprint', 'technical blueprint', ['drawing', 'minimal'], StyleTexture.LINES, ['#1e4e8c', '#ffffff', '#cfe2ff', '#e9f1ff'],
+    'Describe white technical line work on blue paper, with measurements drawn as lines only and no written labels.'),
+  style('linocut', 'Linocut', 'linocut print', ['print', 'bold'], StyleTexture.GRAIN, ['#f2e8cf', '#bc4749', '#386641', '#1b1b1b'],
+    'Describe bold carved shapes, rough gouged textures and two or three inks printed slightly off register.'),
+  style('risograph', 'Risograph', 'risograph print', ['print', 'retro'], StyleTexture.DOTS, ['#fff1e6', '#ff5d8f', '#3a86ff', '#2541b2'],
+    'Describe two or three bright spot colours that overlap, grainy halftones and slight misregistration.'),
+  style('comic-book', 'Comic Book', 'comic book panel', ['illustration', 'bold'], StyleTexture.DOTS, ['#ffd60a', '#ef233c', '#00b4d8', '#1d3557'],
+    'Describe heavy inked outlines, halftone shading and dynamic angles, with no speech bubbles or captions.'),
+  style('manga', 'Manga', 'black and white manga panel', ['illustration', 'monochrome'], StyleTexture.LINES, ['#ffffff', '#222222', '#8a8a8a', '#3a3a3a'],
+    'Describe clean ink lines, screentone shading, speed lines and expressive characters, with no lettering.'),
+
+  // Digital and 3D
+  style('vector-flat', 'Flat Vector', 'flat vector illustration', ['digital', 'minimal'], StyleTexture.FLAT, ['#caf0f8', '#ffb703', '#48cae4', '#0077b6'],
+    'Describe simple geometric shapes, a small flat palette, no outlines and no gradients.'),
+  style('low-poly', 'Low Poly', 'low poly 3D render', ['3d', 'digital', 'minimal'], StyleTexture.TILES, ['#a8dadc', '#f4a261', '#2a9d8f', '#264653'],
+    'Describe faceted triangular surfaces, flat shading per face and a clean, simple composition.'),
+  style('isometric', 'Isometric', 'isometric 3D diorama', ['3d', 'digital', 'playful'], StyleTexture.FLAT, ['#e0fbfc', '#ee6c4d', '#98c1d9', '#3d5a80'],
+    'Describe a tiny scene on a floating square base, seen from an isometric angle, with soft shadows.'),
+  style('vaporwave', 'Vaporwave', 'vaporwave art', ['digital', 'retro', 'bold'], StyleTexture.GLOW, ['#2b1055', '#ff71ce', '#01cdfe', '#b967ff'],
+    'Describe pink and cyan gradients, a sunset grid, marble statues and a dreamy 1990s computer look.'),
+  style('synthwave', 'Neon Synthwave', 'neon synthwave', ['digital', 'retro', 'dark'], StyleTexture.GLOW, ['#0d0221', '#ff2a6d', '#05d9e8', '#d300c5'],
+    'Describe glowing neon outlines against the dark, a striped sun and chrome reflections.'),
+  style('glitch', 'Glitch Art', 'glitch art', ['digital', 'abstract'], StyleTexture.PIXELS, ['#111111', '#ff0054', '#00f5d4', '#9b5de5'],
+    'Describe shifted colour channels, broken scan lines and blocks of corrupted pixels over the scene.'),
+  style('voxel', 'Voxel', 'voxel art', ['3d', 'digital', 'playful'], StyleTexture.PIXELS, ['#9bf6ff', '#ffd166', '#6a994e', '#386641'],
+    'Describe a world built from small cubes, with bright colours and soft ambient shadows.'),
+  style('8-bit', '8-bit Game', '8-bit video game screenshot', ['digital', 'retro', 'playful'], StyleTexture.PIXELS, ['#000000', '#fcfc54', '#54fc54', '#0000a8'],
+    'Describe a very small palette, chunky pixels and the side-on view of an early console game, with no score or text.'),
+  style('cel-shaded', 'Cel Shaded', 'cel-shaded animation still', ['illustration', 'digital'], StyleTexture.FLAT, ['#bee9e8', '#ffc857', '#62b6cb', '#1b4965'],
+    'Describe clean outlines and flat shading in two or three tones, like a frame from an animated film.'),
+
+  // Craft and photography
+  style('papercraft', 'Papercraft', 'layered papercraft', ['craft', '3d', 'playful'], StyleTexture.FLAT, ['#fefae0', '#e76f51', '#a7c957', '#6a994e'],
+    'Describe layers of cut paper with soft shadows between them and the fibres of the card at the edges.'),
+  style('origami', 'Origami', 'origami paper sculpture', ['craft', 'minimal'], StyleTexture.TILES, ['#f8f9fa', '#e63946', '#457b9d', '#1d3557'],
+    'Describe folded paper figures with crisp creases and simple planes of colour on a plain background.'),
+  style('embroidery', 'Embroidery', 'embroidery on linen', ['craft', 'texture'], StyleTexture.LINES, ['#efe6dd', '#d62828', '#6a994e', '#3a5a40'],
+    'Describe satin and cross stitches in bright thread on a linen hoop, with the weave showing.'),
+  style('lego', 'Toy Bricks', 'scene built from toy bricks', ['3d', 'playful'], StyleTexture.TILES, ['#e0f2fe', '#ffd500', '#00852b', '#006cb7'],
+    'Describe a scene built entirely from glossy plastic building bricks, studs and all, with no logos.'),
+  style('mosaic', 'Mosaic', 'Roman mosaic', ['craft', 'classic'], StyleTexture.TILES, ['#e9dcc9', '#c8553d', '#588b8b', '#2f4858'],
+    'Describe small stone tiles set in grout, a limited earthy palette and slightly uneven edges.'),
+  style('needle-felt', 'Needle Felt', 'needle felted wool figures', ['craft', 'soft', 'playful'], StyleTexture.PAINT, ['#f6e7d8', '#f6a6b2', '#9ac6a8', '#5d8a6b'],
+    'Describe fuzzy wool figures with soft rounded forms and stray fibres, photographed up close.'),
+  style('film-noir', 'Film Noir', 'black and white film noir still', ['photo', 'monochrome', 'dark'], StyleTexture.GRAIN, ['#2b2b2b', '#e0e0e0', '#5a5a5a', '#111111'],
+    'Describe hard shadows, venetian blind light, rain-slick streets and heavy film grain.'),
+  style('polaroid', 'Vintage Photo', 'faded 1970s instant photo', ['photo', 'retro', 'soft'], StyleTexture.GRAIN, ['#f4d9b0', '#f28f3b', '#8a9a5b', '#5a6340'],
+    'Describe washed-out warm colours, soft focus, light leaks and the look of an old instant print.'),
+  style('miniature', 'Tilt-Shift Miniature', 'tilt-shift miniature photo', ['photo', 'playful'], StyleTexture.FLAT, ['#cdeafe', '#ffe066', '#70c1b3', '#247ba0'],
+    'Describe a real scene that looks like a tiny model, with a narrow band of focus and bright saturated colour.'),
+];
+
+export const findStyle = (styles: ImageStyle[], id: string): ImageStyle =>
+  styles.find(s => s.id === id) ?? STYLE_LIBRARY.find(s => s.id === DEFAULT_STYLE_ID)!;
+
+// Rounds only remember the prompt they were made with.
+export const findStyleByPrompt = (styles: ImageStyle[], prompt: string): ImageStyle | undefined =>
+  styles.find(s => s.prompt === prompt);
+
+// Every tag used in the library, most used first.
+export const getStyleTags = (styles: ImageStyle[]): string[] => {
+  const counts = new Map<string, number>();
+  styles.forEach(s => s.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+export const filterStyles = (styles: ImageStyle[], query: string, tag: string | null): ImageStyle[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return styles.filter(s => (!tag || s.tags.includes(tag))
+    && words.every(word => [s.label, s.prompt, ...s.tags].some(text => text.toLowerCase().includes(word))));
+};
+
+// For "surprise me" and for styles that rotate between rounds: any style but the one just used.
+export const pickRandomStyle = (styles: ImageStyle[], avoidId?: string): ImageStyle => {
+  const choices = styles.length > 1 ? styles.filter(s => s.id !== avoidId) : styles;
+  return choices[Math.floor(Math.random() * choices.length)];
+};
+
+// Custom styles
+
+const hashText = (text: string): number =>
+  [...text].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 0x01000193), 0x811c9dc5) >>> 0;
+
+const TEXTURES = Object.values(StyleTexture);
+
+const toStyleId = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'style';
+
+export interface CustomStyleInput {
+  label: string;
+  guide: string;
+  tags: string; // Separated by commas
+}
+
+// Made-up styles still get a preview, with colours and a texture picked from the name.
+export const createCustomStyle = ({ label, guide, tags }: CustomStyleInput, existing: ImageStyle[]): ImageStyle => {
+  const name = label.trim().replace(/\s+/g, ' ').slice(0, MAX_LABEL_LENGTH);
+  const hash = hashText(name.toLowerCase());
+  const hue = hash % 360;
+  const baseId = `${CUSTOM_TAG}-${toStyleId(name)}`;
+  let id = baseId;
+  for (let n = 2; existing.some(s => s.id === id); n++) id = `${baseId}-${n}`;
+  return {
+    id,
+    label: name,
+    prompt: name.toLowerCase(),
+    guide: guide.trim().slice(0, MAX_GUIDE_LENGTH),
+    tags: [CUSTOM_TAG, ...new Set(tags.split(',').map(tag => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter(tag => tag && tag !== CUSTOM_TAG))].slice(0, MAX_TAGS + 1),
+    preview: {
+      colors: [`hsl(${hue} 45% 85%)`, `hsl(${(hue + 40) % 360} 85% 60%)`, `hsl(${(hue + 180) % 360} 35% 50%)`, `hsl(${(hue + 180) % 360} 40% 30%)`],
+      texture: TEXTURES[(hash >>> 9) % TEXTURES.length],
+    },
+    isCustom: true,
+  };
+};
+
+export const isStyleLabelValid = (label: string): boolean => label.trim().length > 0 && label.trim().length <= MAX_LABEL_LENGTH;
+
+// Saved styles are read back loosely, skipping anything that isn't a style.
+export const loadCustomStyles = (): ImageStyle[] =>
+  loadJson<unknown[]>(CUSTOM_STYLES_KEY, []).filter((value): value is ImageStyle => {
+    const s = value as Partial<ImageStyle> | null;
+    return typeof s?.id === 'string' && typeof s.label === 'string' && typeof s.prompt === 'string' && Array.isArray(s.tags) && !!s.preview;
+  }).map(s => ({ ...s, guide: typeof s.guide === 'string' ? s.guide : '', isCustom: true }));
+
+export const saveCustomStyles = (styles: ImageStyle[]): void => saveJson(CUSTOM_STYLES_KEY, styles);
+
+// Previews
+
+const SIZE = 64;
+const SUN = { x: 44, y: 18, r: 9 };
+const farHill = (x: number) => 38 - 7 * Math.sin((x / SIZE) * Math.PI * 1.3 + 0.3);
+const nearHill = (x: number) => 50 - 5 * Math.sin((x / SIZE) * Math.PI + 1);
+
+const hillPath = (height: (x: number) => number): string => {
+  const points = Array.from({ length: SIZE / 4 + 1 }, (_, i) => `${i * 4} ${height(i * 4).toFixed(1)}`);
+  return `M0 ${SIZE} L${points.join(' L')} L${SIZE} ${SIZE}Z`;
+};
+
+// Which colour of the scene is at a point, for textures drawn cell by cell.
+const colorAt = (x: number, y: number, [sky, sun, far, near]: string[]): string => {
+  if (y >= nearHill(x)) return near;
+  if (y >= farHill(x)) return far;
+  if ((x - SUN.x) ** 2 + (y - SUN.y) ** 2 <= SUN.r ** 2) return sun;
+  return sky;
+};
+
+const drawCells = (colors: string[], cells: number, gap: number, outline: string): string => {
+  const size = SIZE / cells;
+  return Array.from({ length: cells * cells }, (_, i) => {
+    const x = (i % cells) * size;
+    const y = Math.floor(i / cells) * size;
+    const fill = colorAt(x + size / 2, y + size / 2, colors);
+    return `<rect x="${x}" y="${y}" width="${size}" height="${size}" fill="${fill}"${gap ? ` stroke="${outline}" stroke-width="${gap}"` : ''}/>`;
+  }).join('');
+};
+
+const drawShapes = (colors: string[], extra = ''): string => {
+  const [sky, sun, far, near] = colors;
+  return `<rect width="${SIZE}" height="${SIZE}" fill="${sky}"/>`
+    + `<circle cx="${SUN.x}" cy="${SUN.y}" r="${SUN.r}" fill="${sun}"${extra}/>`
+    + `<path d="${hillPath(farHill)}" fill="${far}"${extra}/>`
+    + `<path d="${hillPath(nearHill)}" fill="${near}"${extra}/>`;
+};
+
+const drawTexture = ({ colors, texture }: ImageStyle['preview']): string => {
+  const [sky, sun, far, near] = colors;
+  switch (texture) {
+    case StyleTexture.PIXELS:
+      return drawCells(colors, 16, 0, sky);
+    case StyleTexture.TILES:
+      return `<rect width="${SIZE}" height="${SIZE}" fill="${near}"/>${drawCells(colors, 8, 1, near)}`;
+    case StyleTexture.LINES: {
+      const hatching = Array.from({ length: 8 }, (_, i) => `<line x1="${i * 8}" y1="${SIZE}" x2="${i * 8 + 10}" y2="${SIZE - 14}" stroke="${near}" stroke-width="0.8"/>`).join('');
+      return `<rect width="${SIZE}" height="${SIZE}" fill="${sky}"/>`
+        + `<circle cx="${SUN.x}" cy="${SUN.y}" r="${SUN.r}" fill="none" stroke="${sun}" stroke-width="1.5"/>`
+        + `<path d="${hillPath(farHill)}" fill="none" stroke="${far}" stroke-width="1.5"/>`
+        + `<path d="${hillPath(nearHill)}" fill="none" stroke="${near}" stroke-width="1.5"/>${hatching}`;
+    }
+    case StyleTexture.PAINT:
+      return `<filter id="f"><feTurbulence type="fractalNoise" baseFrequency="0.08" numOctaves="2"/><feDisplacementMap in="SourceGraphic" scale="5"/></filter>`
+        + `<g filter="url(#f)">${drawShapes(colors)}</g>`;
+    case StyleTexture.GRAIN:
+      return `<filter id="f"><feTurbulence type="fractalNoise" baseFrequency="0.9" numOctaves="2"/><feColorMatrix type="saturate" values="0"/></filter>`
+        + `${drawShapes(colors)}<rect width="${SIZE}" height="${SIZE}" filter="url(#f)" opacity="0.35"/>`;
+    case StyleTexture.DOTS:
+      return `<pattern id="d" width="4" height="4" patternUnits="userSpaceOnUse"><circle cx="2" cy="2" r="1.1" fill="${sky}" opacity="0.6"/></pattern>`
+        + `${drawShapes(colors)}<rect width="${SIZE}" height="${SIZE}" fill="url(#d)"/>`;
+    case StyleTexture.GLOW:
+      return `<filter id="g"><feGaussianBlur stdDeviation="1.5"/><feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge></filter>`
+        + `<rect width="${SIZE}" height="${SIZE}" fill="${sky}"/><g fill="none" stroke-width="1.5" filter="url(#g)">`
+        + `<circle cx="${SUN.x}" cy="${SUN.y}" r="${SUN.r}" stroke="${sun}"/><path d="${hillPath(farHill)}" stroke="${far}"/><path d="${hillPath(nearHill)}" stroke="${near}"/></g>`;
+    case StyleTexture.FLAT:
+    default:
+      return drawShapes(colors);
+  }
+};
+
+// A data URL for an <img>, so previews need no files and work offline.
+export const renderStylePreview = (imageStyle: ImageStyle): string =>
+  `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SIZE} ${SIZE}">${drawTexture(imageStyle.preview)}</svg>`)}`;
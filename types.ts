@@ -2,13 +2,37 @@
 export enum Role {
   USER = 'user',
   MODEL = 'model',
-  SYSTEM = 'system',
   GAME_EVENT = 'game_event',
 }
 
+export enum MessageStatus {
+  PENDING = 'pending', // Waiting for the reply to start
+  STREAMING = 'streaming',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled', // Cut short because the round it was about ended
+}
+
 export interface ChatMessage {
+  id: string;
   role: Role;
   content: string;
+  createdAt: number; // Epoch milliseconds
+  roundId?: string; // The round on screen when the message was sent
+  status: MessageStatus;
+  error?: string; // Why the reply failed
+  retry?: { message: string; roundEvent?: RoundChatEvent }; // What to send again to retry a failed reply
+}
+
+export enum RoundChatEventKind {
+  STARTED = 'started',
+  ENDED = 'ended',
+}
+
+// A game event about a round, whose answer the backend adds to the chat message itself.
+export interface RoundChatEvent {
+  roundId: string;
+  kind: RoundChatEventKind;
 }
 
 export enum GameStatus {
@@ -17,4 +41,525 @@ export enum GameStatus {
   PLAYING = 'playing',
   WON = 'won',
   LOST = 'lost',
+  MATCH_OVER = 'match_over', // A local multiplayer match has played all its rounds.
+  DAILY_OVER = 'daily_over', // Today's daily challenge has been played.
+}
+
+export interface ConceptData {
+  concept: string;
+  aliases?: string[];
+  year?: number;
+  explanation: string;
+  imagePrompt: string; // Empty for sketch rounds
+  imagePrompts?: string[]; // Escalating rounds only: the earlier, more abstract images, most abstract first
+  sketchCode?: string; // Sketch rounds only: the p5.js code that draws the round
+}
+
+// Why generating a round failed, so the player can be told what to do about it.
+export enum GenerationErrorKind {
+  QUOTA = 'quota', // Rate limited or out of quota
+  SAFETY = 'safety', // The prompt or the image was blocked by a safety filter
+  NETWORK = 'network',
+  TIMEOUT = 'timeout',
+  MALFORMED = 'malformed', // The model's answer couldn't be used, e.g. invalid JSON
+  AUTH = 'auth', // The API key was missing, wrong or not allowed to do this
+  REJECTED = 'rejected', // The request itself was turned down, so sending it again won't help
+  CANCELLED = 'cancelled', // The round was abandoned before it was ready
+  UNKNOWN = 'unknown',
+}
+
+// Why a sketch round's code couldn't run, in a form that can be handed back to the model.
+export enum SketchErrorKind {
+  SYNTAX = 'syntax', // Doesn't parse
+  FORBIDDEN = 'forbidden', // Uses something sketches aren't allowed to, e.g. the network or storage
+  RUNTIME = 'runtime', // Threw while running
+  NO_CANVAS = 'no-canvas', // Never created a canvas
+  TOO_SLOW = 'too-slow', // A loop ran past the frame's time budget, or frames kept taking too long
+  UNRESPONSIVE = 'unresponsive', // Stopped answering the page altogether
+}
+
+export interface SketchError {
+  kind: SketchErrorKind;
+  message: string;
+  line?: number; // In the sketch's own code, from 1
+  column?: number; // From 1
+}
+
+// The prompts sent to the model. Each one is a template in a numbered prompt version, so wording
+// can be changed, switched at runtime and compared without touching the code that sends it.
+export enum PromptTemplateId {
+  CHAT_SYSTEM = 'chat-system', // The chat persona's system instruction
+  CONCEPT = 'concept', // Choosing the answer for a new round and describing its image
+  PACK_CONCEPT = 'pack-concept', // Describing the image for an answer chosen in advance
+  // Descriptions of the fields the concept response has to fill in
+  SCHEMA_CONCEPT = 'schema-concept',
+  SCHEMA_ALIASES = 'schema-aliases',
+  SCHEMA_YEAR = 'schema-year',
+  SCHEMA_EXPLANATION = 'schema-explanation',
+  SCHEMA_IMAGE_PROMPT = 'schema-image-prompt',
+  SCHEMA_SKETCH_CODE = 'schema-sketch-code',
+  SCHEMA_IMAGE_PROMPTS = 'schema-image-prompts',
+}
+
+// Template text can use {{name}} for a variable, and {{#name}}...{{/name}} or {{^name}}...{{/name}}
+// for a part that is only kept when the variable is set, or when it isn't.
+export interface PromptVersion {
+  id: string; // e.g. "v2"
+  notes: string; // What this version tries, for reading evaluation results
+  basedOn?: string; // Templates this version doesn't have are taken from that version
+  templates: Partial<Record<PromptTemplateId, string>>;
+}
+
+export type PromptVariables = Record<string, string | number | boolean>;
+
+// How a prompt version did over a batch of rounds. Rates are fractions of the rounds asked for.
+export interface PromptEvalResult {
+  versionId: string;
+  provider: string;
+  rounds: number;
+  validityRate: number; // Passed the same checks as the game's rounds, within the game's retries
+  duplicateRate: number; // Valid rounds whose answer an earlier round in the batch already had
+  titleLeakRate: number; // Valid rounds whose image prompts or sketch named the answer
+  failures: string[]; // Why each invalid round was rejected
+}
+
+// A vision model's verdict on a generated image. Either problem gives the answer away.
+export interface ImageCheck {
+  hasText: boolean; // Any visible lettering, numbers or writing
+  showsTitle: boolean; // The answer spelled out or named in any way
+  reason: string;
+}
+
+// Where a round's answer and image came from.
+export enum RoundProvenance {
+  GENERATED = 'generated', // The model chose the answer and described the image
+  PACK = 'pack', // The answer came from a concept pack and the model described the image
+  HANDWRITTEN = 'handwritten', // The answer, image prompt and explanation all came from a concept pack
+  DAILY = 'daily', // Made by the model for the daily challenge, from the day's seed
+}
+
+// How long a round took to make, in milliseconds.
+export interface RoundTimings {
+  createdAt: number; // When it was ready, as a timestamp
+  conceptMs: number; // Choosing the answer and writing the image prompts or sketch
+  imagesMs: number; // Drawing and checking the images. 0 for sketch rounds.
+}
+
+// A round as the round backend keeps it, answer and all. The browser only gets a PublicRound
+// while it's being played, and the RoundReveal once it's over.
+export interface Round {
+  id: string;
+  concept: string;
+  aliases: string[]; // Other accepted answers, e.g. "Star Wars" for "Star Wars A New Hope"
+  year?: number; // Release year, when the category has one
+  explanation: string;
+  imagePrompt: string; // For the last and most obvious image. Empty for sketch rounds.
+  imagePrompts: string[]; // For the images before it, most abstract first. Only escalating rounds have any.
+  imageUrl: string;
+  imageUrls: string[]; // Every image for the round, from most abstract to most obvious. Single-image rounds have one, sketch rounds none.
+  sketchCode?: string; // Sketch rounds are drawn in the browser by this p5.js code instead
+  imageStyle?: string; // The style the round was drawn in. Missing on rounds made before it was kept.
+  category: Category;
+  difficulty: Difficulty;
+  provenance: RoundProvenance;
+  timings: RoundTimings;
+  imageRejections?: string[]; // Why earlier attempts at the images were thrown away, if any were
+}
+
+// What the player's browser knows about a round while it is being played. The answer
+// itself stays with the round backend until the round is revealed.
+export interface PublicRound extends Pick<Round, 'id' | 'imageUrl' | 'imageUrls' | 'sketchCode' | 'imageStyle' | 'difficulty'> {
+  answerShape: string; // The answer with every letter replaced by "_", keeping the spaces
+  hasYear: boolean;
+  isFallback?: boolean; // Made earlier and handed out because generating a new round failed
+}
+
+export type RoundReveal = Pick<Round, 'concept' | 'aliases' | 'year' | 'explanation'>;
+
+// How a round came to an end. The answer is only revealed after one of these.
+export enum RoundEnding {
+  SOLVED = 'solved',
+  TIMED_OUT = 'timed-out',
+  GAVE_UP = 'gave-up',
+}
+
+export enum Category {
+  MOVIES = 'movies',
+  TV = 'tv',
+  BOOKS = 'books',
+  SONGS = 'songs',
+  GAMES = 'games',
+  IDIOMS = 'idioms',
+  CUSTOM = 'custom',
+}
+
+// Extra clean-up applied to an answer on top of the punctuation stripping every category gets.
+export interface AnswerNormalization {
+  stripSubtitle?: boolean; // "Sapiens: A Brief History" -> "Sapiens"
+  stripParentheticals?: boolean; // "Doctor Who (2005)" -> "Doctor Who"
+  stripFeaturing?: boolean; // "Old Town Road feat. Billy Ray Cyrus" -> "Old Town Road"
+}
+
+export interface CategoryDefinition {
+  id: Category;
+  label: string;
+  noun: string; // e.g. "movie", as in "Guess the movie"
+  answerNoun: string; // e.g. "movie title", as in "guess a movie title"
+  variety: string; // What to pick from, e.g. "iconic, obscure, and cult classic films"
+  example: { title: string; idea: string };
+  normalization: AnswerNormalization;
+}
+
+export interface CategorySelection {
+  id: Category;
+  customName: string; // Only used when id is Category.CUSTOM
+}
+
+export enum MatchStrictness {
+  STRICT = 'strict', // Spelling must match, apart from case, punctuation and articles.
+  NORMAL = 'normal',
+  LENIENT = 'lenient',
+}
+
+export enum GuessMode {
+  BOXES = 'boxes', // One box per letter, checked once every box is filled.
+  FREE_TEXT = 'free_text', // Type the whole answer and submit it.
+}
+
+export enum HintType {
+  LETTER = 'letter',
+  WORD_SHAPE = 'word_shape', // Word count and first letters
+  YEAR = 'year',
+}
+
+export interface HintRequest {
+  type: HintType;
+  typed: string; // What the player has typed into the boxes so far
+}
+
+export interface RoundHint {
+  type: HintType;
+  message: string;
+  position?: number; // For letter hints, the revealed position and letter
+  letter?: string;
+}
+
+// When letters are revealed automatically as the round timer runs down.
+export enum AutoHintSchedule {
+  OFF = 'off',
+  LATE = 'late',
+  STANDARD = 'standard',
+  GENEROUS = 'generous',
+}
+
+export enum LevelCurveId {
+  STEADY = 'steady',
+  ACCELERATING = 'accelerating',
+  RELAXED = 'relaxed',
+}
+
+export enum Difficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+  EXPERT = 'expert',
+}
+
+// 'auto' derives the difficulty from the player's level using the level curve.
+export type DifficultySetting = Difficulty | 'auto';
+
+export interface DifficultyDefinition {
+  id: Difficulty;
+  label: string;
+  description: string;
+  popularity: string; // Prompt guidance for how well-known the answer should be
+  literalness: string; // Prompt guidance for how directly the image should depict it
+  roundTime: number; // Seconds per round when the difficulty is chosen explicitly
+}
+
+// Concept packs: hand-picked answers, imported from JSON files, that rounds can be drawn from
+// instead of letting the model choose. The model then only has to come up with the image.
+export interface PackConcept {
+  title: string;
+  aliases?: string[];
+  year?: number;
+  category: Category; // Any category except custom
+  difficulty?: Difficulty;
+  imagePrompt?: string; // Used as-is. With an explanation too, the round needs no model at all.
+  explanation?: string;
+}
+
+export interface ConceptPack {
+  id: string;
+  name: string;
+  description?: string;
+  author?: string;
+  concepts: PackConcept[];
+}
+
+export enum ConceptSource {
+  AI = 'ai',
+  MIXED = 'mixed', // About half the rounds come from packs
+  PACKS = 'packs', // Packs first, falling back to the model once they run out
+}
+
+// How a style's preview thumbnail is drawn. The thumbnails are small SVGs made in the browser.
+export enum StyleTexture {
+  FLAT = 'flat',
+  PIXELS = 'pixels',
+  LINES = 'lines', // Outlines and hatching, for drawings
+  PAINT = 'paint', // Soft, wobbly edges
+  GRAIN = 'grain', // A noisy surface, like wood, paper or film
+  DOTS = 'dots',
+  GLOW = 'glow',
+  TILES = 'tiles',
+}
+
+export interface ImageStyle {
+  id: string;
+  label: string;
+  prompt: string; // How the style is named in prompts, e.g. "pixel art"
+  guide: string; // What to stress when describing an image in this style. May be empty for custom styles.
+  tags: string[];
+  preview: {
+    colors: [string, string, string, string]; // Sky, sun, far hill, near hill
+    texture: StyleTexture;
+  };
+  isCustom?: boolean; // Saved by the player
+}
+
+export enum RoundVariant {
+  SINGLE = 'single',
+  ESCALATING = 'escalating', // Several images, from abstract to obvious, revealed as the timer runs down
+  SKETCH = 'sketch', // Drawn in the browser by p5.js code the model writes, building up as the timer runs down
+}
+
+// How the image is hidden at the start of a round and cleared as the timer runs down.
+export enum ImageReveal {
+  OFF = 'off',
+  BLUR = 'blur',
+  PIXELATE = 'pixelate',
+  TILES = 'tiles', // Covered by tiles that are lifted one by one
+}
+
+// Whether the chat persona is told the answer while the round is being played.
+export enum ChatAnswerMode {
+  FILTERED = 'filtered', // It's told, and its replies are checked for the answer before they're shown
+  HIDDEN = 'hidden', // It isn't, and clues come from a separate call that is
+}
+
+export interface GameSettings {
+  guessMode: GuessMode;
+  matchStrictness: MatchStrictness;
+  autoHintSchedule: AutoHintSchedule;
+  levelCurve: LevelCurveId;
+  difficulty: DifficultySetting;
+  conceptSource: ConceptSource;
+  enabledPackIds: string[];
+  roundVariant: RoundVariant;
+  imageReveal: ImageReveal;
+  chatAnswerMode: ChatAnswerMode;
+  styleId: string;
+  rotateStyles: boolean; // A different style from the library for every round
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  timeBonus: number;
+  earlyImageBonus: number; // Escalating rounds solved before every image was shown
+  obscurityBonus: number; // Reveal mode, for how hidden the image still was
+  hintPenalty: number; // Paid hints and chat clues
+  wrongGuessPenalty: number;
+  streakMultiplier: number;
+  total: number;
+}
+
+export enum RoundOutcome {
+  WON = 'won',
+  LOST = 'lost',
+}
+
+export interface RoundRecord {
+  id: string;
+  playedAt: number; // Epoch milliseconds when the round ended
+  concept: string;
+  category: Category;
+  style: string;
+  outcome: RoundOutcome;
+  timeTakenSeconds: number;
+  hintsUsed: HintType[];
+  imageUrl: string;
+  difficulty?: Difficulty;
+  points?: number; // Only set for won rounds
+}
+
+export interface StyleStats {
+  style: string;
+  played: number;
+  won: number;
+  averageSolveSeconds: number | null;
+}
+
+export interface PlayerStats {
+  played: number;
+  won: number;
+  winRate: number; // 0 to 1
+  averageSolveSeconds: number | null; // Over won rounds only
+  currentStreak: number;
+  bestStreak: number;
+  byStyle: StyleStats[];
+}
+
+export interface PlayerProfile {
+  name: string;
+  createdAt: number;
+}
+
+// Daily challenge. Everyone gets the same rounds for a date, each with its own category, style and difficulty.
+export interface DailyRoundPlan {
+  category: Category;
+  style: string;
+  difficulty: Difficulty;
+  seed: number; // Passed to the content provider so offline rounds are picked the same way everywhere
+}
+
+export interface DailyRoundResult {
+  outcome: RoundOutcome;
+  timeTakenSeconds: number;
+  hintsUsed: number;
+  points: number;
+}
+
+// One attempt per date. A round counts as lost from the moment it starts, so leaving can't be used to retry it.
+export interface DailyAttempt {
+  date: string; // Local date, YYYY-MM-DD
+  results: DailyRoundResult[];
+}
+
+export interface DailyChallenge extends DailyAttempt {
+  plan: DailyRoundPlan[];
+  rounds: PublicRound[]; // Empty until the rounds have been loaded
+  index: number; // The round being played
+}
+
+// Reverse mode: the player is given a title and writes the image prompt, then the model guesses from the image.
+export interface ReverseRound {
+  id: string;
+  title: string;
+  description: string; // For players who don't know the title
+  bannedWords: string[]; // The prompt may not use these, so it can't simply name the answer
+}
+
+export interface ReverseGuess {
+  guess: string;
+  isCorrect: boolean;
+  attemptsLeft: number;
+  examplePrompt?: string; // How the model would have drawn the title, once the round is over
+}
+
+export enum MatchMode {
+  TURNS = 'turns', // Players take turns, one image each.
+  BUZZ_IN = 'buzz_in', // Everyone races on the same image and buzzes in to answer.
+}
+
+export interface MatchParticipantConfig {
+  name: string;
+  buzzKey: string; // Single key used to buzz in, in buzz-in mode
+}
+
+export interface MatchConfig {
+  mode: MatchMode;
+  isTeams: boolean; // Only changes the wording: "players" or "teams"
+  participants: MatchParticipantConfig[];
+  rounds: number;
+}
+
+export interface MatchParticipant extends MatchParticipantConfig {
+  id: string;
+  score: number;
+  roundsWon: number;
+  streak: number;
+}
+
+export interface MatchState {
+  config: MatchConfig;
+  participants: MatchParticipant[];
+  roundsPlayed: number;
+  activeIndex: number; // Whose turn it is, in turns mode
+  buzzedId: string | null; // Who is currently answering, in buzz-in mode
+  lockedOutIds: string[]; // Who has already answered wrongly this round, in buzz-in mode
+}
+
+// Online rooms. A small relay server (server/roomServer.ts) owns the room; the host's browser
+// generates each round and hands the answer to the server, which only reveals it once the round ends.
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  score: number;
+  isHost: boolean;
+  hasSolved: boolean; // In the current round
+}
+
+// What every player sees of a round while it is running.
+export interface RoomRound {
+  id: number;
+  imageUrl: string;
+  answerNoun: string; // e.g. "movie title"
+  wordLengths: number[];
+  roundTime: number;
+  startedAt: number; // Server epoch milliseconds
+  endsAt: number;
+}
+
+// Sent by the host when starting a round. Never forwarded to the other players.
+export interface RoomRoundSetup {
+  imageUrl: string;
+  answerNoun: string;
+  roundTime: number;
+  answer: string;
+  aliases: string[];
+  explanation: string;
+  matchStrictness: MatchStrictness;
+}
+
+export interface RoomRoundReveal {
+  roundId: number;
+  answer: string;
+  explanation: string;
+  solvedBy: string[]; // Player names, fastest first
+}
+
+export interface RoomChatMessage {
+  id: number;
+  name: string | null; // null for messages from the room itself
+  text: string;
+  sentAt: number;
+}
+
+export type RoomClientMessage =
+  | { type: 'create'; name: string }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'start_round'; setup: RoomRoundSetup }
+  | { type: 'guess'; text: string }
+  | { type: 'chat'; text: string };
+
+export type RoomServerMessage =
+  | { type: 'welcome'; playerId: string; code: string; players: RoomPlayer[]; round: RoomRound | null; reveal: RoomRoundReveal | null; chat: RoomChatMessage[] }
+  | { type: 'players'; players: RoomPlayer[] }
+  | { type: 'round_started'; round: RoomRound }
+  | { type: 'round_ended'; reveal: RoomRoundReveal }
+  | { type: 'chat'; message: RoomChatMessage }
+  | { type: 'guess_result'; isCorrect: boolean; points: number }
+  | { type: 'error'; message: string };
+
+// The client's view of a room, built up from server messages.
+export interface RoomState {
+  playerId: string;
+  code: string;
+  players: RoomPlayer[];
+  round: RoomRound | null;
+  reveal: RoomRoundReveal | null;
+  chat: RoomChatMessage[];
+  lastGuess: { isCorrect: boolean; points: number } | null;
 }
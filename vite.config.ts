@@ -5,8 +5,20 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The Gemini key is never inlined into the bundle. With a key, the browser plays through
+        // the game server (npm run api-server), which holds the key; without one it plays offline.
+        'process.env.API_KEY': JSON.stringify(''),
+        'process.env.GAME_SERVER_URL': JSON.stringify(env.GAME_SERVER_URL ?? (env.GEMINI_API_KEY ? '/api' : '')),
+        'process.env.CONTENT_PROVIDER': JSON.stringify(env.CONTENT_PROVIDER),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.ROOM_SERVER_URL': JSON.stringify(env.ROOM_SERVER_URL),
+        'process.env.PROMPT_VERSION': JSON.stringify(env.PROMPT_VERSION)
+      },
+      server: {
+        proxy: {
+          // xfwd passes on each browser's address, which the game server rate-limits by.
+          '/api': { target: `http://localhost:${env.API_PORT || 8788}`, xfwd: true },
+        },
       },
       resolve: {
         alias: {